@@ -47,6 +47,8 @@ Triggers:
 - log: Log a message
 - delay: Wait for specified time
 - condition: Evaluate a condition
+- workflow.call: Run another workflow by name (config: workflow, inputs, optional outputs); returns { runId, outputs }
+- approval.request: Pause until someone approves or rejects (config: message, optional timeout ms, on_timeout: reject|approve, approvers, slack: { channel }, telegram: { chatId }); rejection fails the step; returns { approved, approver, comment, via }
 
 ## Workflow YAML Structure
 
@@ -54,6 +56,14 @@ Triggers:
 name: workflow-name
 description: What this workflow does
 
+inputs:  # optional: parameters for manually run or called workflows
+  - name: repo
+    type: string  # string | number | boolean | object | array
+    required: true
+
+outputs:  # optional: values returned as the run's result
+  summary: "{{ steps.unique-step-id.result }}"
+
 memory:
   - id: project-context
     description: Optional human-readable label
@@ -83,27 +93,42 @@ steps:
       key: value
     depends_on:
       - previous-step-id  # optional
+    if: "{{ steps.previous-step-id.ok }}"  # optional: skip the step when false
     retry:
       attempts: 3
       delay: 1000
+      backoff: exponential  # optional: linear (default) or exponential
+      on:  # optional: only retry matching failures
+        status: [429, "5xx"]
 \`\`\`
 
 ## Template Variables
 
 In step configs, you can use:
 - {{ trigger.field }}: Access trigger data
+- {{ inputs.name }}: Access a declared workflow input
 - {{ steps.step_id }}: Access output from a previous step
 - {{ env.VAR_NAME }}: Access environment variables
+- {{ secrets.NAME }}: Access stored secrets (use for API keys and tokens instead of hardcoding them)
 - {{ memory.blocks.block_id }}: Use assembled memory block content
 - {{ memory.sources.block_id.source_id }}: Use specific memory source content
+- {{ item }} / {{ index }}: The current element and position in a step with foreach
+
+Expressions inside {{ }} support comparisons (==, !=, <, >), boolean logic (&&, ||, !), "in",
+arithmetic, "cond ? a : b" and helpers such as length, join, upper, lower, default and json,
+e.g. {{ steps.fetch.items | length }} or {{ trigger.action == 'opened' }}.
 
 ## Guidelines
 
 1. Always use descriptive step IDs (kebab-case)
 2. Add dependencies (depends_on) when steps need outputs from previous steps
 3. Use meaningful workflow names and descriptions
-4. Include error handling with retries for external API calls
-5. Keep workflows focused on a single purpose
+4. Include error handling with retries for external API calls; prefer backoff: exponential and retry.on.status [429, "5xx"] so client errors fail fast
+5. Use "if" to skip steps conditionally; steps depending on a skipped step are skipped too unless they set allow_skipped: true
+6. Use "foreach: {{ steps.x.items }}" to run a step once per list element; its output is the list of results
+7. Use "loop: { until: \"loop.output.status == 'done'\", interval: 5000 }" to poll until a condition holds; its output is the last iteration's output
+8. Use "on_error" (per step) and "on_failure" (per workflow) handler steps to report failures with {{ error.message }}; set continue_on_error: true to keep the run going
+9. Keep workflows focused on a single purpose
 
 When the user describes what they want, respond ONLY with the YAML workflow definition. No explanations or markdown code fences - just the raw YAML.`;
 
@@ -0,0 +1,21 @@
+import chalk from 'chalk';
+import { gatewayRequest } from '../utils/gateway.js';
+
+export async function cancelCommand(runId: string): Promise<void> {
+  try {
+    const result = await gatewayRequest<{ status: 'cancelled' | 'cancelling' }>(
+      `/api/runs/${encodeURIComponent(runId)}/cancel`,
+      { method: 'POST' }
+    );
+
+    if (result.status === 'cancelled') {
+      console.log(chalk.green(`\n✓ Run ${runId} cancelled before it started\n`));
+    } else {
+      console.log(chalk.green(`\n✓ Cancelling run ${runId}`));
+      console.log(chalk.dim('  Running steps are being aborted; remaining steps will be skipped.\n'));
+    }
+  } catch (err) {
+    console.log(chalk.red(`\n✗ ${err instanceof Error ? err.message : String(err)}\n`));
+    process.exit(1);
+  }
+}
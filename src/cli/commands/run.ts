@@ -1,17 +1,44 @@
+import * as p from '@clack/prompts';
 import chalk from 'chalk';
 import { readFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { WORKFLOWS_DIR } from '../../config/index.js';
 import { WorkflowExecutor } from '../../engine/executor.js';
+import { createSecretStore } from '../../engine/secrets.js';
 import { parser } from '../../engine/parser.js';
+import { coerceWorkflowInput, resolveWorkflowInputs, WorkflowInputError } from '../../engine/inputs.js';
 import { globalRegistry } from '../../plugins/sdk/registry.js';
 import { loadBuiltinPlugins } from '../../plugins/loader.js';
+import type { WorkflowInput } from '../../types/index.js';
+import { gatewayRequest } from '../utils/gateway.js';
+import { openSchedulerStore } from '../utils/store.js';
+import { isInteractive } from '../utils/tty.js';
 
 interface RunOptions {
   data?: string;
+  resume?: string;
 }
 
-export async function runCommand(workflowName: string, options: RunOptions): Promise<void> {
+interface GatewayRunDetails {
+  status: 'running' | 'success' | 'failed' | 'cancelled';
+  error?: string;
+  duration?: number;
+  outputs?: Record<string, unknown>;
+  steps: Array<{ id: string; status: string; duration?: number; error?: string }>;
+}
+
+const RESUME_POLL_INTERVAL_MS = 1000;
+
+export async function runCommand(workflowName: string | undefined, options: RunOptions): Promise<void> {
+  if (options.resume) {
+    await resumeRun(options.resume);
+    return;
+  }
+  if (!workflowName) {
+    console.log(chalk.red('\n✗ Pass a workflow name, or --resume <runId> to resume a failed run\n'));
+    process.exit(1);
+  }
+
   // Load built-in plugins
   loadBuiltinPlugins();
 
@@ -54,17 +81,49 @@ export async function runCommand(workflowName: string, options: RunOptions): Pro
     }
   }
 
+  // Prompt for declared inputs that weren't passed with --data, then validate them
+  if (workflow.inputs && workflow.inputs.length > 0) {
+    const data: Record<string, unknown> = { ...(triggerData as Record<string, unknown> | undefined) };
+    if (isInteractive()) {
+      for (const input of workflow.inputs) {
+        if (data[input.name] !== undefined) continue;
+        const value = await promptForInput(input);
+        if (value !== undefined) data[input.name] = value;
+      }
+    }
+
+    try {
+      triggerData = resolveWorkflowInputs(workflow.inputs, data);
+    } catch (err) {
+      if (err instanceof WorkflowInputError) {
+        console.log(chalk.red('✗ Invalid workflow inputs:'));
+        for (const issue of err.issues) {
+          console.log(chalk.dim(`  - ${issue}`));
+        }
+        process.exit(1);
+      }
+      throw err;
+    }
+  }
+
+  // Secrets come from the same encrypted store the gateway uses
+  const store = await openSchedulerStore();
+  const secrets = createSecretStore(store);
+
   // Create executor
   const executor = new WorkflowExecutor({
     registry: globalRegistry,
+    secrets,
     onStepStart: (_runId, stepId) => {
       console.log(chalk.dim(`  ⏳ ${stepId}...`));
     },
     onStepComplete: (_runId, stepId, result) => {
       if (result.status === 'completed') {
         console.log(chalk.green(`  ✓ ${stepId}`) + chalk.dim(` (${result.duration}ms)`));
+      } else if (result.status === 'cached') {
+        console.log(chalk.green(`  ✓ ${stepId}`) + chalk.dim(' (cached)'));
       } else if (result.status === 'failed') {
-        console.log(chalk.red(`  ✗ ${stepId}: ${result.error}`));
+        console.log(chalk.red(`  ✗ ${stepId}: ${secrets.redact(result.error)}`));
       }
     },
   });
@@ -81,13 +140,118 @@ export async function runCommand(workflowName: string, options: RunOptions): Pro
     if (run.status === 'completed') {
       console.log(chalk.green(`✓ Workflow completed`) + chalk.dim(` in ${duration}ms`));
       console.log(chalk.dim(`  Run ID: ${run.id}\n`));
+      if (run.outputs) {
+        console.log(chalk.cyan('Outputs:'));
+        console.log(JSON.stringify(secrets.redact(run.outputs), null, 2) + '\n');
+      }
     } else {
-      console.log(chalk.red(`✗ Workflow failed: ${run.error}`));
+      console.log(chalk.red(`✗ Workflow failed: ${secrets.redact(run.error)}`));
       console.log(chalk.dim(`  Run ID: ${run.id}\n`));
       process.exit(1);
     }
   } catch (err) {
     console.log(chalk.red(`\n✗ Execution error: ${err instanceof Error ? err.message : String(err)}\n`));
     process.exit(1);
+  } finally {
+    store.close();
+  }
+}
+
+// Resuming goes through the gateway, which keeps the run history, trigger data and workflow snapshot
+async function resumeRun(runId: string): Promise<void> {
+  let resumed: { runId: string; reusedSteps: string[] };
+  try {
+    resumed = await gatewayRequest(`/api/runs/${encodeURIComponent(runId)}/resume`, { method: 'POST' });
+  } catch (err) {
+    console.log(chalk.red(`\n✗ ${err instanceof Error ? err.message : String(err)}\n`));
+    process.exit(1);
+  }
+
+  console.log(chalk.cyan(`\n▶ Resuming run ${chalk.bold(runId)}`));
+  console.log(chalk.dim(`  New run ID: ${resumed.runId}`));
+  if (resumed.reusedSteps.length > 0) {
+    console.log(chalk.dim(`  Reusing: ${resumed.reusedSteps.join(', ')}`));
+  }
+  console.log('');
+
+  const reused = new Set(resumed.reusedSteps);
+  const reported = new Set<string>();
+  let run: GatewayRunDetails;
+  for (;;) {
+    try {
+      run = await gatewayRequest<GatewayRunDetails>(`/api/runs/${encodeURIComponent(resumed.runId)}`);
+    } catch (err) {
+      console.log(chalk.red(`\n✗ ${err instanceof Error ? err.message : String(err)}\n`));
+      process.exit(1);
+    }
+
+    for (const step of run.steps) {
+      if (reported.has(step.id) || reused.has(step.id)) continue;
+      if (step.status === 'completed') {
+        console.log(chalk.green(`  ✓ ${step.id}`) + chalk.dim(` (${step.duration ?? 0}ms)`));
+      } else if (step.status === 'cached') {
+        console.log(chalk.green(`  ✓ ${step.id}`) + chalk.dim(' (cached)'));
+      } else if (step.status === 'failed') {
+        console.log(chalk.red(`  ✗ ${step.id}: ${step.error}`));
+      } else {
+        continue;
+      }
+      reported.add(step.id);
+    }
+
+    if (run.status !== 'running') break;
+    await new Promise((resolve) => setTimeout(resolve, RESUME_POLL_INTERVAL_MS));
+  }
+
+  console.log('');
+  if (run.status === 'success') {
+    console.log(chalk.green('✓ Workflow completed') + chalk.dim(run.duration !== undefined ? ` in ${run.duration}ms` : ''));
+    console.log(chalk.dim(`  Run ID: ${resumed.runId}\n`));
+    if (run.outputs) {
+      console.log(chalk.cyan('Outputs:'));
+      console.log(JSON.stringify(run.outputs, null, 2) + '\n');
+    }
+  } else {
+    console.log(chalk.red(`✗ Workflow ${run.status === 'cancelled' ? 'cancelled' : 'failed'}: ${run.error}`));
+    console.log(chalk.dim(`  Run ID: ${resumed.runId}\n`));
+    process.exit(1);
+  }
+}
+
+async function promptForInput(input: WorkflowInput): Promise<unknown> {
+  const message = input.description ? `${input.name} ${chalk.dim(`(${input.description})`)}` : input.name;
+  let answer: unknown;
+
+  if (input.enum) {
+    answer = await p.select({
+      message,
+      options: input.enum.map((option) => ({ value: option, label: String(option) })),
+      initialValue: input.default as string | number | boolean | undefined,
+    });
+  } else if (input.type === 'boolean') {
+    answer = await p.confirm({
+      message,
+      initialValue: typeof input.default === 'boolean' ? input.default : undefined,
+    });
+  } else {
+    answer = await p.text({
+      message: `${message} ${chalk.dim(`[${input.type}]`)}`,
+      placeholder: input.default !== undefined ? JSON.stringify(input.default) : undefined,
+      validate: (value) => {
+        if (!value) return input.required && input.default === undefined ? `${input.name} is required` : undefined;
+        try {
+          coerceWorkflowInput(input, value);
+        } catch (err) {
+          return err instanceof Error ? err.message : String(err);
+        }
+      },
+    });
+  }
+
+  if (p.isCancel(answer)) {
+    p.cancel('Run cancelled');
+    process.exit(0);
   }
+  // Empty answers fall back to the declared default
+  return answer === '' ? undefined : answer;
 }
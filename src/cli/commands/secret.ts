@@ -0,0 +1,85 @@
+import * as p from '@clack/prompts';
+import chalk from 'chalk';
+import type { SchedulerStore } from '../../engine/scheduler-store.js';
+import { assertSecretName, createSecretStore, MASTER_KEY_ENV, MASTER_KEY_FILE } from '../../engine/secrets.js';
+import { openSchedulerStore } from '../utils/store.js';
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8').replace(/\r?\n$/, '');
+}
+
+// Prompt without echoing in a terminal, otherwise read the value piped to stdin
+async function readSecretValue(name: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    return readStdin();
+  }
+  const value = await p.password({ message: `Value for ${name}` });
+  if (p.isCancel(value)) {
+    throw new Error('Cancelled');
+  }
+  return value;
+}
+
+export async function secretSetCommand(name: string, value: string | undefined): Promise<void> {
+  let store: SchedulerStore | undefined;
+  try {
+    assertSecretName(name);
+    const secretValue = value ?? await readSecretValue(name);
+    if (!secretValue) {
+      throw new Error('A secret needs a value');
+    }
+
+    store = await openSchedulerStore();
+    const secrets = createSecretStore(store);
+    const existed = secrets.list().some((secret) => secret.name === name);
+    secrets.set(name, secretValue);
+
+    console.log(chalk.green(`\n✓ ${existed ? 'Updated' : 'Saved'} secret ${chalk.bold(name)}`));
+    console.log(chalk.dim(`  Use it in workflows as {{ secrets.${name} }}\n`));
+  } catch (err) {
+    console.log(chalk.red(`\n✗ ${err instanceof Error ? err.message : String(err)}\n`));
+    process.exit(1);
+  } finally {
+    store?.close();
+  }
+}
+
+export async function secretListCommand(): Promise<void> {
+  const store = await openSchedulerStore();
+  try {
+    const secrets = createSecretStore(store).list();
+
+    console.log(chalk.cyan('\n🔒 Secrets\n'));
+    if (secrets.length === 0) {
+      console.log(chalk.dim('  No secrets. Run `weavr secret set <name>` to add one.\n'));
+      return;
+    }
+
+    for (const secret of secrets) {
+      console.log(`  ${chalk.bold(secret.name)}  ${chalk.dim(`updated ${new Date(secret.updatedAt).toLocaleString()}`)}`);
+    }
+    const keySource = process.env[MASTER_KEY_ENV] ? MASTER_KEY_ENV : MASTER_KEY_FILE;
+    console.log(chalk.dim(`\n  Encrypted with the master key from ${keySource}\n`));
+  } finally {
+    store.close();
+  }
+}
+
+export async function secretDeleteCommand(name: string): Promise<void> {
+  const store = await openSchedulerStore();
+  try {
+    if (!createSecretStore(store).delete(name)) {
+      console.log(chalk.red(`\n✗ No secret named ${name}. Run \`weavr secret list\` to see secret names.\n`));
+      process.exitCode = 1;
+      return;
+    }
+    console.log(chalk.green(`\n✓ Deleted secret ${name}`));
+    console.log(chalk.dim('  Workflows that use it now get an empty value.\n'));
+  } finally {
+    store.close();
+  }
+}
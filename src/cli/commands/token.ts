@@ -0,0 +1,91 @@
+import chalk from 'chalk';
+import type { SchedulerStore } from '../../engine/scheduler-store.js';
+import { createApiToken, parseRole, parseScopes, roleForScopes, ROLE_SCOPES, type TokenScope } from '../../gateway/auth.js';
+import { openSchedulerStore } from '../utils/store.js';
+
+interface TokenCreateOptions {
+  role: string;
+  scope?: string; // Overrides --role
+  expires?: string;
+}
+
+interface TokenListOptions {
+  all?: boolean;
+}
+
+function formatDate(timestamp: number | null): string {
+  return timestamp ? new Date(timestamp).toLocaleString() : 'never';
+}
+
+export async function tokenCreateCommand(name: string, options: TokenCreateOptions): Promise<void> {
+  let store: SchedulerStore | undefined;
+  try {
+    const scopes = options.scope !== undefined ? parseScopes(options.scope) : ROLE_SCOPES[parseRole(options.role)];
+    const expiresInDays = options.expires !== undefined ? Number(options.expires) : undefined;
+    if (expiresInDays !== undefined && !(expiresInDays > 0)) {
+      throw new Error('--expires must be a positive number of days');
+    }
+
+    store = await openSchedulerStore();
+    const firstToken = store.countActiveApiTokens() === 0;
+    const { token, record } = createApiToken(store, { name, scopes, expiresInDays });
+
+    console.log(chalk.green(`\n✓ Created token ${chalk.bold(record.name)} (${record.id})`));
+    console.log(chalk.dim(`  Role: ${roleForScopes(scopes) ?? 'none'} (scopes: ${record.scopes.join(', ')})`));
+    console.log(chalk.dim(`  Expires: ${formatDate(record.expiresAt)}\n`));
+    console.log(`  ${chalk.bold(token)}\n`);
+    console.log(chalk.yellow('  Copy it now; it won\'t be shown again.'));
+    console.log(chalk.dim('  Use it as "Authorization: Bearer <token>", set WEAVR_TOKEN for the CLI, or sign in to the web UI with it.'));
+    if (firstToken) {
+      console.log(chalk.dim('  The gateway now requires a token for API and WebSocket access.'));
+      console.log(chalk.dim('  Restart it if it should listen on a non-local host.'));
+    }
+    console.log('');
+  } catch (err) {
+    console.log(chalk.red(`\n✗ ${err instanceof Error ? err.message : String(err)}\n`));
+    process.exit(1);
+  } finally {
+    store?.close();
+  }
+}
+
+export async function tokenListCommand(options: TokenListOptions): Promise<void> {
+  const store = await openSchedulerStore();
+  try {
+    const tokens = store.listApiTokens({ includeRevoked: options.all });
+
+    console.log(chalk.cyan('\n🔑 API tokens\n'));
+    if (tokens.length === 0) {
+      console.log(chalk.dim('  No tokens. The gateway only accepts local connections.'));
+      console.log(chalk.dim('  Run `weavr token create <name>` to create one.\n'));
+      return;
+    }
+
+    for (const token of tokens) {
+      const expired = token.expiresAt !== null && token.expiresAt <= Date.now();
+      const state = token.revokedAt ? chalk.red(' (revoked)') : expired ? chalk.yellow(' (expired)') : '';
+      console.log(`  ${chalk.bold(token.name)}${state}  ${chalk.dim(token.id)}`);
+      const role = roleForScopes(token.scopes as TokenScope[]) ?? 'none';
+      console.log(chalk.dim(`    ${token.prefix}…  role: ${role} (scopes: ${token.scopes.join(', ')})`));
+      console.log(chalk.dim(`    created ${formatDate(token.createdAt)}, last used ${formatDate(token.lastUsedAt)}, expires ${formatDate(token.expiresAt)}`));
+      console.log('');
+    }
+  } finally {
+    store.close();
+  }
+}
+
+export async function tokenRevokeCommand(id: string): Promise<void> {
+  const store = await openSchedulerStore();
+  try {
+    if (!store.revokeApiToken(id)) {
+      console.log(chalk.red(`\n✗ No active token with id ${id}. Run \`weavr token list\` to see token ids.\n`));
+      process.exitCode = 1;
+      return;
+    }
+    console.log(chalk.green(`\n✓ Revoked token ${id}`));
+    console.log(chalk.dim('  Requests and web sessions using it are rejected from now on.\n'));
+  } finally {
+    store.close();
+  }
+}
@@ -5,9 +5,12 @@ import { serveCommand } from './commands/serve.js';
 import { onboardCommand } from './commands/onboard.js';
 import { doctorCommand } from './commands/doctor.js';
 import { runCommand } from './commands/run.js';
+import { cancelCommand } from './commands/cancel.js';
 import { listCommand } from './commands/list.js';
 import { createCommand } from './commands/create.js';
 import { askCommand } from './commands/ask.js';
+import { tokenCreateCommand, tokenListCommand, tokenRevokeCommand } from './commands/token.js';
+import { secretDeleteCommand, secretListCommand, secretSetCommand } from './commands/secret.js';
 
 const program = new Command();
 
@@ -50,11 +53,17 @@ program
   .action(doctorCommand);
 
 program
-  .command('run <workflow>')
+  .command('run [workflow]')
   .description('Run a workflow manually')
   .option('-d, --data <json>', 'Trigger data as JSON')
+  .option('--resume <runId>', 'Resume a failed or cancelled run from the failed step (via the gateway)')
   .action(runCommand);
 
+program
+  .command('cancel <runId>')
+  .description('Cancel a queued or running workflow run')
+  .action(cancelCommand);
+
 program
   .command('list')
   .alias('ls')
@@ -84,4 +93,49 @@ program
     await askCommand(prompt, options);
   });
 
+const token = program
+  .command('token')
+  .description('Manage API tokens for the gateway');
+
+token
+  .command('create <name>')
+  .description('Create an API token (shown once)')
+  .option('-r, --role <role>', 'viewer | operator | author | admin', 'admin')
+  .option('-s, --scope <scopes>', 'Comma-separated scopes instead of a role: read, run, write, admin')
+  .option('--expires <days>', 'Expire the token after this many days')
+  .action(tokenCreateCommand);
+
+token
+  .command('list')
+  .alias('ls')
+  .description('List API tokens')
+  .option('-a, --all', 'Include revoked tokens')
+  .action(tokenListCommand);
+
+token
+  .command('revoke <id>')
+  .description('Revoke an API token and end its web sessions')
+  .action(tokenRevokeCommand);
+
+const secret = program
+  .command('secret')
+  .description('Manage encrypted secrets for workflows');
+
+secret
+  .command('set <name> [value]')
+  .description('Create or update a secret (prompts for the value, or reads it from stdin, when omitted)')
+  .action(secretSetCommand);
+
+secret
+  .command('list')
+  .alias('ls')
+  .description('List secret names')
+  .action(secretListCommand);
+
+secret
+  .command('delete <name>')
+  .alias('rm')
+  .description('Delete a secret')
+  .action(secretDeleteCommand);
+
 program.parse();
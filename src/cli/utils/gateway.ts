@@ -0,0 +1,39 @@
+import { loadConfig } from '../../config/index.js';
+
+// Base URL of the running gateway, from the configured server host and port
+export async function getGatewayUrl(): Promise<string> {
+  const config = await loadConfig();
+  const host = !config.server.host || config.server.host === '0.0.0.0' ? 'localhost' : config.server.host;
+  return `http://${host}:${config.server.port || 3847}`;
+}
+
+// Call a gateway API route and return the parsed JSON body. Throws with the
+// server's error message on non-2xx responses, or a hint when it isn't running.
+// Sends WEAVR_TOKEN as a bearer token when it's set.
+export async function gatewayRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const baseUrl = await getGatewayUrl();
+  const token = process.env.WEAVR_TOKEN;
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...init.headers,
+      },
+    });
+  } catch {
+    throw new Error(`Could not reach the gateway at ${baseUrl}. Is \`weavr serve\` running?`);
+  }
+
+  const body = await response.json().catch(() => ({})) as T & { error?: string };
+  if (response.status === 401 && !token) {
+    throw new Error('The gateway requires an API token. Set WEAVR_TOKEN (create one with `weavr token create`).');
+  }
+  if (!response.ok) {
+    throw new Error(body.error ?? `Gateway returned ${response.status}`);
+  }
+  return body;
+}
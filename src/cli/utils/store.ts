@@ -0,0 +1,9 @@
+import { ensureConfigDir, loadConfig } from '../../config/index.js';
+import { SchedulerStore } from '../../engine/scheduler-store.js';
+
+// Tokens and secrets live in the scheduler DB, so commands that manage them work whether or not the gateway is running
+export async function openSchedulerStore(): Promise<SchedulerStore> {
+  await ensureConfigDir();
+  const config = await loadConfig();
+  return new SchedulerStore(config.scheduler?.dbPath);
+}
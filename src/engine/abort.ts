@@ -0,0 +1,73 @@
+// Reason used when a step attempt or a whole run exceeds its timeout
+export class TimeoutError extends Error {
+  constructor(message: string, public timeoutMs: number) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Reason used when a run is cancelled through the API or CLI
+export class RunCancelledError extends Error {
+  constructor(message = 'Run cancelled') {
+    super(message);
+    this.name = 'RunCancelledError';
+  }
+}
+
+// Reason used when a race join cancels the branches that didn't finish first
+export class BranchCancelledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BranchCancelledError';
+  }
+}
+
+export interface AbortScope {
+  controller: AbortController;
+  signal: AbortSignal;
+  dispose: () => void;
+}
+
+// An abort controller that follows `parent` and, with a timeout, aborts itself
+// with a TimeoutError. Call dispose() once the guarded work has settled.
+export function createAbortScope(
+  parent?: AbortSignal,
+  timeoutMs?: number,
+  timeoutMessage = `Timed out after ${timeoutMs}ms`
+): AbortScope {
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(parent?.reason);
+
+  if (parent?.aborted) {
+    controller.abort(parent.reason);
+  } else {
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  const timer = timeoutMs !== undefined
+    ? setTimeout(() => controller.abort(new TimeoutError(timeoutMessage, timeoutMs)), timeoutMs)
+    : undefined;
+
+  return {
+    controller,
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+}
+
+// Settle with `promise`, or reject with the abort reason as soon as `signal` fires.
+// Work that ignores the signal keeps running in the background but no longer holds anyone up.
+export function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
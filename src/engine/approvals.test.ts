@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ApprovalError, ApprovalManager, type ApprovalRequest } from './approvals.js';
+import { SchedulerStore } from './scheduler-store.js';
+
+const request = (overrides: Partial<ApprovalRequest> = {}): ApprovalRequest => ({
+  runId: 'run-1',
+  stepId: 'gate',
+  workflowName: 'deploy',
+  message: 'Ship it?',
+  onTimeout: 'reject',
+  channels: {},
+  completedSteps: [{ id: 'build', output: { ok: true } }],
+  ...overrides,
+});
+
+// Let the manager persist the approval and run onRequested
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('ApprovalManager', () => {
+  let store: SchedulerStore;
+
+  beforeEach(() => {
+    store = new SchedulerStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('should wait for a decision and record the approver', async () => {
+    const onRequested = vi.fn().mockResolvedValue({ slack: { channel: 'C1', ts: '1.2' } });
+    const manager = new ApprovalManager(store, { onRequested });
+
+    const pending = manager.request(request(), new AbortController().signal);
+    await settle();
+
+    const [approval] = store.listApprovals({ status: 'pending' });
+    expect(onRequested).toHaveBeenCalledWith(expect.objectContaining({ id: approval.id, message: 'Ship it?' }));
+    expect(store.getApproval(approval.id)?.channels).toEqual({ slack: { channel: 'C1', ts: '1.2' } });
+
+    manager.decide(approval.id, { approved: true, via: 'slack', approver: 'alice', comment: 'lgtm' });
+
+    await expect(pending).resolves.toMatchObject({ approved: true, approver: 'alice', comment: 'lgtm', via: 'slack', timedOut: false });
+    expect(store.getApproval(approval.id)).toMatchObject({ status: 'approved', approver: 'alice' });
+    expect(() => manager.decide(approval.id, { approved: false, via: 'web' })).toThrow(ApprovalError);
+  });
+
+  it('should only accept decisions from listed approvers', async () => {
+    const manager = new ApprovalManager(store);
+    const pending = manager.request(request({ approvers: ['@Bob'] }), new AbortController().signal);
+    await settle();
+    const [approval] = store.listApprovals();
+
+    expect(() => manager.decide(approval.id, { approved: true, via: 'web', approver: 'mallory' }))
+      .toThrow(/not allowed/);
+    // A name the caller typed is recorded but can't pass the allow-list
+    expect(() => manager.decide(approval.id, { approved: true, via: 'link', approver: 'bob', unverified: true }))
+      .toThrow(/not allowed/);
+    manager.decide(approval.id, { approved: false, via: 'slack', approver: 'Robert', identities: ['U1', 'bob'] });
+
+    await expect(pending).resolves.toMatchObject({ approved: false, approver: 'Robert' });
+  });
+
+  it('should apply the timeout policy', async () => {
+    const manager = new ApprovalManager(store);
+
+    const decision = await manager.request(request({ timeoutMs: 10, onTimeout: 'approve' }), new AbortController().signal);
+
+    expect(decision).toMatchObject({ approved: true, via: 'timeout', timedOut: true });
+  });
+
+  it('should cancel the approval when the step is aborted', async () => {
+    const manager = new ApprovalManager(store);
+    const controller = new AbortController();
+
+    const pending = manager.request(request(), controller.signal);
+    await settle();
+    controller.abort(new Error('Run cancelled'));
+
+    await expect(pending).rejects.toThrow('Run cancelled');
+    expect(store.listApprovals()[0].status).toBe('cancelled');
+  });
+
+  it('should hand decisions made after a restart to the resumed run', async () => {
+    const before = new ApprovalManager(store);
+    void before.request(request({ workflowContent: 'name: deploy' }), new AbortController().signal);
+    await settle();
+    before.dispose();
+
+    // A new gateway process over the same database
+    const onOrphaned = vi.fn();
+    const after = new ApprovalManager(store, { onOrphaned });
+    expect(after.restore()).toBe(1);
+
+    const [approval] = store.listApprovals({ status: 'pending' });
+    expect(approval.resumeState).toEqual({
+      workflowContent: 'name: deploy',
+      completedSteps: [{ id: 'build', output: { ok: true } }],
+    });
+
+    after.decide(approval.id, { approved: true, via: 'link', approver: 'carol' });
+    expect(onOrphaned).toHaveBeenCalledWith(expect.objectContaining({ id: approval.id }), expect.objectContaining({ approved: true }));
+
+    after.adopt('run-2', 'gate', approval.id);
+    await expect(after.request(request({ runId: 'run-2' }), new AbortController().signal))
+      .resolves.toMatchObject({ approvalId: approval.id, approver: 'carol' });
+  });
+
+  it('should let a run recovered under the same id wait on its earlier approval', async () => {
+    const before = new ApprovalManager(store);
+    void before.request(request(), new AbortController().signal);
+    await settle();
+    before.dispose();
+
+    const onRequested = vi.fn();
+    const after = new ApprovalManager(store, { onRequested });
+    const pending = after.request(request(), new AbortController().signal);
+    const [approval] = store.listApprovals();
+    after.decide(approval.id, { approved: true, via: 'web', approver: 'dave' });
+
+    await expect(pending).resolves.toMatchObject({ approvalId: approval.id, approver: 'dave' });
+    expect(store.listApprovals()).toHaveLength(1);
+    expect(onRequested).not.toHaveBeenCalled();
+  });
+
+  it('should sign decision links per approval and decision', async () => {
+    const manager = new ApprovalManager(store);
+    void manager.request(request(), new AbortController().signal);
+    await settle();
+    const [approval] = store.listApprovals();
+
+    const signature = manager.signature(approval, 'approve');
+    expect(manager.verifySignature(approval, 'approve', signature)).toBe(true);
+    expect(manager.verifySignature(approval, 'reject', signature)).toBe(false);
+    expect(manager.verifySignature(approval, 'approve', 'forged')).toBe(false);
+    manager.dispose();
+  });
+});
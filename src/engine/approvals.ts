@@ -0,0 +1,265 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import type {
+  ApprovalChannelRefs,
+  ApprovalRecord,
+  ApprovalVia,
+  SchedulerStore,
+} from './scheduler-store.js';
+import type { ResumedStep } from './executor.js';
+
+// setTimeout overflows past ~24.8 days; longer waits are re-armed in chunks
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+// What an approval.request step asks for
+export interface ApprovalRequest {
+  runId: string;
+  stepId: string;
+  workflowName: string;
+  message: string;
+  timeoutMs?: number;
+  onTimeout: 'approve' | 'reject';
+  approvers?: string[];
+  channels: ApprovalChannelRefs;
+  workflowContent?: string;
+  triggerData?: unknown;
+  completedSteps: ResumedStep[]; // Steps finished before the gate, reused if the run has to be resumed
+}
+
+// The step's output once someone (or the timeout) decides
+export interface ApprovalDecision {
+  approvalId: string;
+  approved: boolean;
+  approver?: string;
+  comment?: string;
+  via: ApprovalVia;
+  decidedAt: string;
+  timedOut: boolean;
+}
+
+export interface DecideInput {
+  approved: boolean;
+  via: ApprovalVia;
+  approver?: string;
+  identities?: string[]; // Extra names the approver goes by (user ids, usernames) checked against `approvers`
+  unverified?: boolean; // `approver` was typed by the caller: it's recorded but never matches `approvers`
+  comment?: string;
+}
+
+export interface ApprovalManagerEvents {
+  onRequested?: (approval: ApprovalRecord) => Promise<ApprovalChannelRefs | void>;
+  onDecided?: (approval: ApprovalRecord) => void;
+  // Decided while no run was waiting on it, e.g. after a gateway restart
+  onOrphaned?: (approval: ApprovalRecord, decision: ApprovalDecision) => void;
+}
+
+export class ApprovalError extends Error {
+  constructor(message: string, public code: 'not_found' | 'already_decided' | 'forbidden') {
+    super(message);
+    this.name = 'ApprovalError';
+  }
+}
+
+// Strip what the gateway shouldn't hand out: the signing token and the resume snapshot
+export function toPublicApproval(approval: ApprovalRecord): Omit<ApprovalRecord, 'token' | 'resumeState'> {
+  const { token: _token, resumeState: _resumeState, ...rest } = approval;
+  return rest;
+}
+
+export function toApprovalDecision(approval: ApprovalRecord): ApprovalDecision {
+  return {
+    approvalId: approval.id,
+    approved: approval.status === 'approved',
+    approver: approval.approver,
+    comment: approval.comment,
+    via: approval.via ?? 'system',
+    decidedAt: new Date(approval.decidedAt ?? Date.now()).toISOString(),
+    timedOut: approval.via === 'timeout',
+  };
+}
+
+const normalizeIdentity = (value: string) => value.trim().replace(/^@/, '').toLowerCase();
+
+export class ApprovalManager {
+  private waiters = new Map<string, (decision: ApprovalDecision) => void>();
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  // runId:stepId of resumed runs -> approval decided for the run they replace
+  private adopted = new Map<string, string>();
+
+  constructor(private store: SchedulerStore, private events: ApprovalManagerEvents = {}) {}
+
+  // Persist the approval, notify channels, and wait for a decision or `signal`
+  async request(request: ApprovalRequest, signal: AbortSignal): Promise<ApprovalDecision> {
+    const adoptedId = this.adopted.get(`${request.runId}:${request.stepId}`);
+    if (adoptedId) {
+      this.adopted.delete(`${request.runId}:${request.stepId}`);
+      const adopted = this.store.getApproval(adoptedId);
+      if (adopted && adopted.status !== 'pending') {
+        return toApprovalDecision(adopted);
+      }
+    }
+
+    // A run recovered after a restart keeps its id, so it waits on the approval it asked for before
+    const earlier = this.store
+      .listApprovals({ runId: request.runId, status: 'pending' })
+      .find((approval) => approval.stepId === request.stepId && !this.waiters.has(approval.id));
+    if (earlier) {
+      return this.wait(earlier, signal);
+    }
+
+    const now = Date.now();
+    const approval: ApprovalRecord = {
+      id: randomUUID(),
+      runId: request.runId,
+      stepId: request.stepId,
+      workflowName: request.workflowName,
+      message: request.message,
+      status: 'pending',
+      approvers: request.approvers,
+      onTimeout: request.onTimeout,
+      token: randomBytes(32).toString('hex'),
+      channels: request.channels,
+      createdAt: now,
+      expiresAt: request.timeoutMs !== undefined ? now + request.timeoutMs : undefined,
+      resumeState: {
+        workflowContent: request.workflowContent,
+        triggerData: request.triggerData,
+        completedSteps: request.completedSteps,
+      },
+    };
+    this.store.saveApproval(approval);
+
+    const decision = this.wait(approval, signal);
+    this.armTimer(approval);
+
+    // A channel that can't be reached shouldn't block approving from the UI or a link
+    try {
+      const refs = await this.events.onRequested?.(approval);
+      if (refs) this.store.setApprovalChannels(approval.id, refs);
+    } catch (err) {
+      console.error(`[approvals] Failed to send approval ${approval.id}:`, err);
+    }
+
+    return decision;
+  }
+
+  decide(id: string, input: DecideInput): ApprovalRecord {
+    const approval = this.store.getApproval(id);
+    if (!approval) {
+      throw new ApprovalError(`Approval not found: ${id}`, 'not_found');
+    }
+    if (approval.status !== 'pending') {
+      throw new ApprovalError(`Approval was already ${approval.status}`, 'already_decided');
+    }
+    if (approval.approvers && approval.approvers.length > 0 && input.via !== 'timeout') {
+      const allowed = new Set(approval.approvers.map(normalizeIdentity));
+      const identities = [input.unverified ? undefined : input.approver, ...(input.identities ?? [])]
+        .filter((v): v is string => Boolean(v));
+      if (!identities.some((identity) => allowed.has(normalizeIdentity(identity)))) {
+        throw new ApprovalError(`${input.approver ?? 'Anonymous'} is not allowed to decide this approval`, 'forbidden');
+      }
+    }
+
+    const resolved = this.store.resolveApproval(id, {
+      status: input.approved ? 'approved' : 'rejected',
+      approver: input.approver,
+      comment: input.comment,
+      via: input.via,
+    });
+    if (!resolved) {
+      throw new ApprovalError('Approval was already decided', 'already_decided');
+    }
+    this.clearTimer(id);
+
+    const decided = this.store.getApproval(id)!;
+    const decision = toApprovalDecision(decided);
+    const waiter = this.waiters.get(id);
+    if (waiter) {
+      this.waiters.delete(id);
+      waiter(decision);
+    } else {
+      this.events.onOrphaned?.(decided, decision);
+    }
+    this.events.onDecided?.(decided);
+    return decided;
+  }
+
+  // Re-arm timeouts for approvals left pending by a previous gateway process
+  restore(): number {
+    const pending = this.store.listApprovals({ status: 'pending', limit: 1000 });
+    for (const approval of pending) {
+      this.armTimer(approval);
+    }
+    return pending.length;
+  }
+
+  // Hand a decided approval to the resumed run that replaces the one which requested it
+  adopt(runId: string, stepId: string, approvalId: string): void {
+    this.adopted.set(`${runId}:${stepId}`, approvalId);
+  }
+
+  signature(approval: ApprovalRecord, decision: 'approve' | 'reject'): string {
+    return createHmac('sha256', approval.token).update(`${approval.id}:${decision}`).digest('base64url');
+  }
+
+  verifySignature(approval: ApprovalRecord, decision: 'approve' | 'reject', signature: string): boolean {
+    const expected = Buffer.from(this.signature(approval, decision));
+    const given = Buffer.from(signature);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  }
+
+  dispose(): void {
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  private wait(approval: ApprovalRecord, signal: AbortSignal): Promise<ApprovalDecision> {
+    return new Promise<ApprovalDecision>((resolve, reject) => {
+      const onAbort = () => {
+        this.waiters.delete(approval.id);
+        this.clearTimer(approval.id);
+        if (this.store.resolveApproval(approval.id, { status: 'cancelled', via: 'system' })) {
+          const cancelled = this.store.getApproval(approval.id);
+          if (cancelled) this.events.onDecided?.(cancelled);
+        }
+        reject(signal.reason);
+      };
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.waiters.set(approval.id, (result) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(result);
+      });
+    });
+  }
+
+  private armTimer(approval: ApprovalRecord): void {
+    if (approval.expiresAt === undefined) return;
+    this.clearTimer(approval.id);
+
+    const wait = Math.max(0, approval.expiresAt - Date.now());
+    this.timers.set(approval.id, setTimeout(() => {
+      this.timers.delete(approval.id);
+      if (wait > MAX_TIMER_MS) {
+        this.armTimer(approval);
+        return;
+      }
+      try {
+        this.decide(approval.id, { approved: approval.onTimeout === 'approve', via: 'timeout' });
+      } catch (err) {
+        // Someone decided just before the timer fired
+        if (!(err instanceof ApprovalError)) throw err;
+      }
+    }, Math.min(wait, MAX_TIMER_MS)));
+  }
+
+  private clearTimer(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
+  }
+}
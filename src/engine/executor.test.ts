@@ -1,6 +1,7 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { WorkflowExecutor } from './executor.js';
 import { PluginRegistry } from '../plugins/sdk/registry.js';
+import { SchedulerStore } from './scheduler-store.js';
 import type { Workflow } from '../types/index.js';
 
 describe('WorkflowExecutor', () => {
@@ -108,4 +109,886 @@ describe('WorkflowExecutor', () => {
     expect(run.status).toBe('completed');
     expect(run.steps.get('transform')?.output).toBe('Event: webhook');
   });
+
+  it('should skip steps whose if condition is false', async () => {
+    const registry = new PluginRegistry();
+    const executor = new WorkflowExecutor({ registry });
+
+    const workflow: Workflow = {
+      name: 'if-test',
+      steps: [
+        {
+          id: 'alert',
+          action: 'transform',
+          config: { template: 'Check failed' },
+          if: '{{ trigger.failed }}',
+        },
+        {
+          id: 'always',
+          action: 'transform',
+          config: { template: 'Done' },
+          if: 'trigger.done',
+        },
+      ],
+    };
+
+    const run = await executor.execute(workflow, { failed: false, done: true });
+
+    expect(run.status).toBe('completed');
+    expect(run.steps.get('alert')?.status).toBe('skipped');
+    expect(run.steps.get('alert')?.output).toBeUndefined();
+    expect(run.steps.get('always')?.status).toBe('completed');
+  });
+
+  it('should fail a step whose if condition throws through the normal error handling', async () => {
+    const registry = new PluginRegistry();
+    const onStepComplete = vi.fn();
+    const executor = new WorkflowExecutor({ registry, onStepComplete });
+
+    const workflow = (continueOnError: boolean): Workflow => ({
+      name: 'if-error-test',
+      steps: [
+        {
+          id: 'check',
+          action: 'transform',
+          config: { template: 'Checked' },
+          if: 'no_such_function(trigger.value)',
+          continue_on_error: continueOnError,
+          on_error: [{ id: 'fallback', action: 'transform', config: { template: 'unchecked' }, depends_on: [] }],
+          depends_on: [],
+        },
+      ],
+    });
+
+    const failed = await executor.execute(workflow(false));
+    expect(failed.status).toBe('failed');
+    expect(failed.steps.get('check')?.status).toBe('failed');
+    expect(failed.steps.get('check')?.error).toContain('no_such_function');
+    expect(onStepComplete).toHaveBeenCalledWith(failed.id, 'check', expect.objectContaining({ status: 'failed' }));
+
+    const continued = await executor.execute(workflow(true));
+    expect(continued.status).toBe('completed');
+    expect(continued.steps.get('check')?.output).toBe('unchecked');
+  });
+
+  it('should propagate skips to dependents unless they allow skipped dependencies', async () => {
+    const registry = new PluginRegistry();
+    const executor = new WorkflowExecutor({ registry });
+
+    const workflow: Workflow = {
+      name: 'skip-propagation-test',
+      steps: [
+        {
+          id: 'gate',
+          action: 'log',
+          config: { message: 'Gate' },
+          if: false,
+        },
+        {
+          id: 'notify',
+          action: 'log',
+          config: { message: 'Notify' },
+          depends_on: ['gate'],
+        },
+        {
+          id: 'cleanup',
+          action: 'log',
+          config: { message: 'Cleanup' },
+          depends_on: ['notify'],
+          allow_skipped: true,
+        },
+      ],
+    };
+
+    const run = await executor.execute(workflow);
+
+    expect(run.status).toBe('completed');
+    expect(run.steps.get('gate')?.status).toBe('skipped');
+    expect(run.steps.get('notify')?.status).toBe('skipped');
+    expect(run.steps.get('cleanup')?.status).toBe('completed');
+  });
+
+  it('should evaluate expressions in templates and conditions', async () => {
+    const registry = new PluginRegistry();
+    const executor = new WorkflowExecutor({ registry });
+
+    const workflow: Workflow = {
+      name: 'expression-test',
+      steps: [
+        {
+          id: 'summary',
+          action: 'transform',
+          config: { template: "{{ trigger.labels | length }} labels: {{ join(trigger.labels, ' + ') | upper }}" },
+        },
+        {
+          id: 'alert',
+          action: 'transform',
+          config: { template: 'Urgent!' },
+          if: "{{ 'urgent' in trigger.labels && trigger.status >= 500 }}",
+        },
+      ],
+    };
+
+    const run = await executor.execute(workflow, { labels: ['bug', 'urgent'], status: 200 });
+
+    expect(run.steps.get('summary')?.output).toBe('2 labels: BUG + URGENT');
+    expect(run.steps.get('alert')?.status).toBe('skipped');
+  });
+
+  it('should pass raw values through single-expression config values', async () => {
+    const registry = new PluginRegistry();
+    const execute = vi.fn().mockResolvedValue({ ok: true });
+    registry.register({
+      name: 'test',
+      version: '1.0.0',
+      actions: [{ name: 'capture', execute }],
+    });
+    const executor = new WorkflowExecutor({ registry });
+
+    const workflow: Workflow = {
+      name: 'typed-interpolation-test',
+      steps: [
+        {
+          id: 'capture',
+          action: 'test.capture',
+          config: {
+            items: '{{ trigger.items }}',
+            count: '{{ trigger.items | length }}',
+            summary: 'First: {{ trigger.items[0] }}',
+            blocks: [{ type: 'section', text: '{{ trigger.items[1].name }}', data: '{{ trigger.items[1] }}' }],
+          },
+        },
+      ],
+    };
+
+    const items = [{ name: 'a' }, { name: 'b' }];
+    const run = await executor.execute(workflow, { items });
+
+    expect(run.status).toBe('completed');
+    const config = execute.mock.calls[0][0].config;
+    expect(config.items).toEqual(items);
+    expect(config.count).toBe(2);
+    expect(config.summary).toBe('First: {"name":"a"}');
+    expect(config.blocks).toEqual([{ type: 'section', text: 'b', data: { name: 'b' } }]);
+  });
+
+  it('should run foreach steps once per item and collect outputs', async () => {
+    const registry = new PluginRegistry();
+    const execute = vi.fn().mockImplementation(async (ctx) => ctx.config.label);
+    registry.register({
+      name: 'test',
+      version: '1.0.0',
+      actions: [{ name: 'echo', execute }],
+    });
+    const executor = new WorkflowExecutor({ registry });
+
+    const workflow: Workflow = {
+      name: 'foreach-test',
+      steps: [
+        {
+          id: 'each',
+          action: 'test.echo',
+          foreach: '{{ trigger.items }}',
+          concurrency: 2,
+          config: { label: '{{ index }}:{{ item.name }}' },
+          depends_on: [],
+        },
+      ],
+    };
+
+    const run = await executor.execute(workflow, { items: [{ name: 'a' }, { name: 'b' }, { name: 'c' }] });
+
+    expect(run.status).toBe('completed');
+    const result = run.steps.get('each');
+    expect(result?.output).toEqual(['0:a', '1:b', '2:c']);
+    expect(result?.iterations?.map(i => i.status)).toEqual(['completed', 'completed', 'completed']);
+    expect(execute).toHaveBeenCalledTimes(3);
+  });
+
+  it('should record failed iterations and only fail the step without continue_on_error', async () => {
+    const registry = new PluginRegistry();
+    registry.register({
+      name: 'test',
+      version: '1.0.0',
+      actions: [{
+        name: 'check',
+        execute: async (ctx) => {
+          if (ctx.config.value === 2) throw new Error('bad item');
+          return ctx.config.value;
+        },
+      }],
+    });
+    const executor = new WorkflowExecutor({ registry });
+
+    const buildWorkflow = (continueOnError: boolean): Workflow => ({
+      name: 'foreach-errors-test',
+      steps: [
+        {
+          id: 'each',
+          action: 'test.check',
+          foreach: 'trigger.values',
+          continue_on_error: continueOnError,
+          config: { value: '{{ item }}' },
+          depends_on: [],
+        },
+      ],
+    });
+
+    const tolerant = await executor.execute(buildWorkflow(true), { values: [1, 2, 3] });
+    expect(tolerant.status).toBe('completed');
+    const tolerantResult = tolerant.steps.get('each');
+    expect(tolerantResult?.output).toEqual([1, null, 3]);
+    expect(tolerantResult?.iterations?.[1]).toMatchObject({ index: 1, status: 'failed', error: 'bad item' });
+
+    const strict = await executor.execute(buildWorkflow(false), { values: [1, 2, 3] });
+    expect(strict.status).toBe('failed');
+    expect(strict.steps.get('each')?.error).toBe('bad item');
+    // Sequential by default, so the third item is never started
+    expect(strict.steps.get('each')?.iterations).toHaveLength(2);
+  });
+
+  it('should poll a step until its loop condition is met', async () => {
+    const registry = new PluginRegistry();
+    let calls = 0;
+    registry.register({
+      name: 'test',
+      version: '1.0.0',
+      actions: [{
+        name: 'status',
+        execute: async (ctx) => ({ state: ++calls >= 3 ? 'done' : 'pending', previous: ctx.config.previous }),
+      }],
+    });
+    const executor = new WorkflowExecutor({ registry });
+
+    const workflow: Workflow = {
+      name: 'loop-test',
+      steps: [
+        {
+          id: 'wait',
+          action: 'test.status',
+          loop: { until: "loop.output.state == 'done'", interval: 5 },
+          config: { previous: '{{ loop.output.state }}' },
+          depends_on: [],
+        },
+        { id: 'after', action: 'transform', config: { template: '{{ steps.wait.state }}' }, depends_on: ['wait'] },
+      ],
+    };
+
+    const run = await executor.execute(workflow);
+
+    expect(run.status).toBe('completed');
+    const result = run.steps.get('wait');
+    expect(result?.iterations?.map(i => i.output)).toEqual([
+      { state: 'pending', previous: undefined },
+      { state: 'pending', previous: 'pending' },
+      { state: 'done', previous: 'pending' },
+    ]);
+    expect(run.steps.get('after')?.output).toBe('done');
+  });
+
+  it('should cut off a loop iteration that runs past the loop timeout', async () => {
+    const registry = new PluginRegistry();
+    registry.register({
+      name: 'test',
+      version: '1.0.0',
+      actions: [{ name: 'hang', execute: () => new Promise(() => {}) }],
+    });
+    const executor = new WorkflowExecutor({ registry });
+
+    const workflow: Workflow = {
+      name: 'loop-timeout-test',
+      steps: [
+        { id: 'wait', action: 'test.hang', loop: { until: 'true', timeout: 30 }, depends_on: [] },
+      ],
+    };
+
+    const run = await executor.execute(workflow);
+
+    expect(run.status).toBe('failed');
+    expect(run.steps.get('wait')?.error).toBe('Loop timed out after 30ms (1 iterations)');
+    expect(run.steps.get('wait')?.iterations?.[0]).toMatchObject({ status: 'failed' });
+  });
+
+  it('should fail a loop that runs out of iterations', async () => {
+    const executor = new WorkflowExecutor({ registry: new PluginRegistry() });
+
+    const workflow: Workflow = {
+      name: 'loop-limit-test',
+      steps: [
+        {
+          id: 'count',
+          action: 'transform',
+          loop: { while: true, max_iterations: 3 },
+          config: { template: '{{ loop.iteration }}' },
+          depends_on: [],
+        },
+      ],
+    };
+
+    const run = await executor.execute(workflow);
+
+    expect(run.status).toBe('failed');
+    expect(run.steps.get('count')?.error).toBe('Loop stopped after 3 iterations without meeting its condition');
+    expect(run.steps.get('count')?.iterations).toHaveLength(3);
+  });
+
+  it('should fail steps whose action is outside the workflow policy', async () => {
+    const registry = new PluginRegistry();
+    const execute = vi.fn().mockResolvedValue({ ok: true });
+    registry.register({
+      name: 'shell',
+      version: '1.0.0',
+      actions: [{ name: 'exec', execute }],
+    });
+    const executor = new WorkflowExecutor({ registry });
+
+    const workflow: Workflow = {
+      name: 'policy-test',
+      policy: { actions: ['http.*'] },
+      steps: [
+        { id: 'run', action: 'shell.exec', config: { command: 'rm -rf /tmp/x' }, depends_on: [] },
+      ],
+    };
+
+    const run = await executor.execute(workflow);
+
+    expect(run.status).toBe('failed');
+    expect(run.steps.get('run')?.error).toBe('Action "shell.exec" is not allowed by the policy of workflow "policy-test"');
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should expose secrets to templates', async () => {
+    const executor = new WorkflowExecutor({
+      registry: new PluginRegistry(),
+      secrets: { context: () => ({ API_KEY: 'key-123' }), redact: (value) => value, contains: () => false },
+    });
+
+    const workflow: Workflow = {
+      name: 'secrets-test',
+      steps: [
+        { id: 'header', action: 'transform', config: { template: 'Bearer {{ secrets.API_KEY }}' }, depends_on: [] },
+        { id: 'missing', action: 'transform', config: { template: '[{{ secrets.OTHER }}]' }, depends_on: [] },
+      ],
+    };
+
+    const run = await executor.execute(workflow);
+
+    expect(run.steps.get('header')?.output).toBe('Bearer key-123');
+    expect(run.steps.get('missing')?.output).toBe('[]');
+  });
+
+  it('should not cache step outputs that contain secret values', async () => {
+    const saved: string[] = [];
+    const executor = new WorkflowExecutor({
+      registry: new PluginRegistry(),
+      stepCache: {
+        getCachedOutput: () => null,
+        saveCachedOutput: (entry) => { saved.push(entry.stepId); },
+      },
+      secrets: {
+        context: () => ({ API_KEY: 'key-123' }),
+        redact: (value) => value,
+        contains: (value) => JSON.stringify(value ?? null).includes('key-123'),
+      },
+    });
+
+    const workflow: Workflow = {
+      name: 'secret-cache-test',
+      steps: [
+        { id: 'header', action: 'transform', config: { template: 'Bearer {{ secrets.API_KEY }}' }, cache: { key: 'header' }, depends_on: [] },
+        { id: 'plain', action: 'transform', config: { template: 'public' }, cache: { key: 'plain' }, depends_on: [] },
+      ],
+    };
+
+    const run = await executor.execute(workflow);
+
+    expect(run.steps.get('header')?.output).toBe('Bearer key-123');
+    expect(saved).toEqual(['plain']);
+  });
+
+  it('should call sub-workflows with inputs and return declared outputs', async () => {
+    const child: Workflow = {
+      name: 'greet',
+      steps: [
+        { id: 'format', action: 'transform', config: { template: 'Hello, {{ trigger.name }}!' }, depends_on: [] },
+      ],
+    };
+    const started: Array<{ name: string; parentRunId?: string; parentStepId?: string }> = [];
+    const executor = new WorkflowExecutor({
+      registry: new PluginRegistry(),
+      loadWorkflow: async (name) => {
+        if (name !== 'greet') throw new Error(`Workflow not found: ${name}`);
+        return child;
+      },
+      onRunStart: (run) => {
+        started.push({ name: run.workflowName, parentRunId: run.parent?.runId, parentStepId: run.parent?.stepId });
+      },
+    });
+
+    const workflow: Workflow = {
+      name: 'parent',
+      steps: [
+        {
+          id: 'call',
+          action: 'workflow.call',
+          config: {
+            workflow: 'greet',
+            inputs: { name: '{{ trigger.user }}' },
+            outputs: { message: '{{ steps.format }}' },
+          },
+          depends_on: [],
+        },
+      ],
+    };
+
+    const run = await executor.execute(workflow, { user: 'Ada' });
+
+    expect(run.status).toBe('completed');
+    const output = run.steps.get('call')?.output as { runId: string; outputs: Record<string, unknown> };
+    expect(output.outputs).toEqual({ message: 'Hello, Ada!' });
+    expect(started).toEqual([
+      { name: 'parent', parentRunId: undefined, parentStepId: undefined },
+      { name: 'greet', parentRunId: run.id, parentStepId: 'call' },
+    ]);
+  });
+
+  it('should stop recursive workflow calls at the maximum depth', async () => {
+    const recursive: Workflow = {
+      name: 'loop',
+      steps: [
+        { id: 'again', action: 'workflow.call', config: { workflow: 'loop' }, depends_on: [] },
+      ],
+    };
+    const loadWorkflow = vi.fn().mockResolvedValue(recursive);
+    const executor = new WorkflowExecutor({ registry: new PluginRegistry(), loadWorkflow });
+
+    const run = await executor.execute(recursive);
+
+    expect(run.status).toBe('failed');
+    expect(run.error).toContain('maximum nesting depth of 5');
+    expect(loadWorkflow).toHaveBeenCalledTimes(5);
+  });
+
+  it('should validate declared inputs and evaluate declared outputs', async () => {
+    const executor = new WorkflowExecutor({ registry: new PluginRegistry() });
+
+    const workflow: Workflow = {
+      name: 'inputs-outputs-test',
+      inputs: [
+        { name: 'name', type: 'string', required: true },
+        { name: 'times', type: 'number', default: 2 },
+      ],
+      outputs: {
+        greeting: '{{ steps.greet }}',
+        total: '{{ inputs.times * 10 }}',
+      },
+      steps: [
+        { id: 'greet', action: 'transform', config: { template: 'Hi {{ inputs.name }} x{{ inputs.times }}' }, depends_on: [] },
+      ],
+    };
+
+    const run = await executor.execute(workflow, { name: 'Ada' });
+    expect(run.status).toBe('completed');
+    expect(run.inputs).toEqual({ name: 'Ada', times: 2 });
+    expect(run.outputs).toEqual({ greeting: 'Hi Ada x2', total: 20 });
+
+    const invalid = await executor.execute(workflow, { times: 'lots' });
+    expect(invalid.status).toBe('failed');
+    expect(invalid.error).toContain('Missing required input "name"');
+    expect(invalid.steps.get('greet')?.status).toBe('pending');
+  });
+
+  it('should run on_error handlers and continue with their fallback output', async () => {
+    const registry = new PluginRegistry();
+    registry.register({
+      name: 'test',
+      version: '1.0.0',
+      actions: [{ name: 'fail', execute: async () => { throw new Error('service unavailable'); } }],
+    });
+    const executor = new WorkflowExecutor({ registry });
+
+    const workflow: Workflow = {
+      name: 'on-error-test',
+      steps: [
+        {
+          id: 'fetch',
+          action: 'test.fail',
+          continue_on_error: true,
+          on_error: [
+            { id: 'fallback', action: 'transform', config: { template: 'cached ({{ error.message }})' }, depends_on: [] },
+          ],
+          depends_on: [],
+        },
+        { id: 'use', action: 'transform', config: { template: 'Got {{ steps.fetch }}' }, depends_on: ['fetch'] },
+      ],
+    };
+
+    const run = await executor.execute(workflow);
+
+    expect(run.status).toBe('completed');
+    expect(run.steps.get('fetch')).toMatchObject({ status: 'failed', error: 'service unavailable' });
+    expect(run.steps.get('fallback')).toMatchObject({ status: 'completed', handlerFor: 'fetch' });
+    expect(run.steps.get('use')?.output).toBe('Got cached (service unavailable)');
+  });
+
+  it('should run on_failure steps after a failed run', async () => {
+    const registry = new PluginRegistry();
+    registry.register({
+      name: 'test',
+      version: '1.0.0',
+      actions: [{ name: 'fail', execute: async () => { throw new Error('boom'); } }],
+    });
+    const executor = new WorkflowExecutor({ registry });
+
+    const workflow: Workflow = {
+      name: 'on-failure-test',
+      steps: [
+        {
+          id: 'broken',
+          action: 'test.fail',
+          on_error: [
+            { id: 'notify', action: 'transform', config: { template: '{{ error.step }}' }, depends_on: [] },
+          ],
+          depends_on: [],
+        },
+      ],
+      on_failure: [
+        { id: 'report', action: 'transform', config: { template: '{{ error.step }}: {{ error.message }}' }, depends_on: [] },
+      ],
+    };
+
+    const run = await executor.execute(workflow);
+
+    expect(run.status).toBe('failed');
+    expect(run.error).toBe('boom');
+    expect(run.steps.get('notify')?.output).toBe('broken');
+    expect(run.steps.get('report')).toMatchObject({
+      status: 'completed',
+      output: 'broken: boom',
+      handlerFor: 'on_failure',
+    });
+  });
+
+  it('should abort steps that exceed their timeout', async () => {
+    const registry = new PluginRegistry();
+    let signal: AbortSignal | undefined;
+    registry.register({
+      name: 'test',
+      version: '1.0.0',
+      actions: [{
+        name: 'hang',
+        execute: (ctx) => {
+          signal = ctx.signal;
+          return new Promise(() => {});
+        },
+      }],
+    });
+    const executor = new WorkflowExecutor({ registry });
+
+    const workflow: Workflow = {
+      name: 'step-timeout-test',
+      steps: [{ id: 'hang', action: 'test.hang', timeout: 50, depends_on: [] }],
+    };
+
+    const run = await executor.execute(workflow);
+
+    expect(run.status).toBe('failed');
+    expect(run.steps.get('hang')).toMatchObject({ status: 'failed', error: 'Step "hang" timed out after 50ms' });
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('should fail the run when the workflow timeout passes', async () => {
+    const registry = new PluginRegistry();
+    const executor = new WorkflowExecutor({ registry });
+
+    const workflow: Workflow = {
+      name: 'workflow-timeout-test',
+      timeout: 50,
+      steps: [
+        { id: 'wait', action: 'delay', config: { ms: 5000 }, depends_on: [] },
+        { id: 'after', action: 'log', config: { message: 'never' }, depends_on: ['wait'] },
+      ],
+      on_failure: [
+        { id: 'report', action: 'transform', config: { template: '{{ error.message }}' }, depends_on: [] },
+      ],
+    };
+
+    const run = await executor.execute(workflow);
+
+    expect(run.status).toBe('failed');
+    expect(run.error).toBe('Workflow "workflow-timeout-test" timed out after 50ms');
+    expect(run.steps.get('wait')?.status).toBe('failed');
+    expect(run.steps.get('after')?.status).toBe('pending');
+    expect(run.steps.get('report')?.output).toBe(run.error);
+  });
+
+  it('should cancel a running run and skip the steps that have not started', async () => {
+    const registry = new PluginRegistry();
+    let signal: AbortSignal | undefined;
+    registry.register({
+      name: 'test',
+      version: '1.0.0',
+      actions: [{
+        name: 'hang',
+        execute: (ctx) => {
+          signal = ctx.signal;
+          return new Promise(() => {});
+        },
+      }],
+    });
+    const executor = new WorkflowExecutor({
+      registry,
+      onStepStart: (runId) => {
+        setTimeout(() => executor.cancel(runId), 10);
+      },
+    });
+
+    const workflow: Workflow = {
+      name: 'cancel-test',
+      steps: [
+        { id: 'hang', action: 'test.hang', depends_on: [] },
+        { id: 'after', action: 'log', config: { message: 'never' }, depends_on: ['hang'] },
+      ],
+      on_failure: [
+        { id: 'report', action: 'log', config: { message: 'failed' }, depends_on: [] },
+      ],
+    };
+
+    const run = await executor.execute(workflow, undefined, 'run-1');
+
+    expect(run.status).toBe('cancelled');
+    expect(run.error).toBe('Run cancelled');
+    expect(signal?.aborted).toBe(true);
+    expect(run.steps.get('after')?.status).toBe('skipped');
+    expect(run.steps.has('report')).toBe(false);
+    expect(executor.cancel('run-1')).toBe(false);
+  });
+
+  it('should stop retrying when the run is cancelled during the backoff', async () => {
+    const registry = new PluginRegistry();
+    let attempts = 0;
+    registry.register({
+      name: 'test',
+      version: '1.0.0',
+      actions: [{
+        name: 'flaky',
+        execute: async () => {
+          attempts++;
+          throw new Error('Service unavailable');
+        },
+      }],
+    });
+    const executor = new WorkflowExecutor({
+      registry,
+      onLog: (runId) => executor.cancel(runId),
+    });
+
+    const workflow: Workflow = {
+      name: 'cancel-retry-test',
+      steps: [
+        { id: 'flaky', action: 'test.flaky', retry: { attempts: 3, delay: 60_000, backoff: 'linear' }, depends_on: [] },
+      ],
+    };
+
+    const started = Date.now();
+    const run = await executor.execute(workflow, undefined, 'run-1');
+
+    expect(run.status).toBe('cancelled');
+    expect(attempts).toBe(1);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('should not wait out a Retry-After that ends past the workflow timeout', async () => {
+    const registry = new PluginRegistry();
+    let attempts = 0;
+    registry.register({
+      name: 'test',
+      version: '1.0.0',
+      actions: [{
+        name: 'limited',
+        execute: async () => {
+          attempts++;
+          throw Object.assign(new Error('API rate limit exceeded'), { status: 403, retryAfterMs: 60 * 60 * 1000 });
+        },
+      }],
+    });
+    const executor = new WorkflowExecutor({ registry });
+
+    const workflow: Workflow = {
+      name: 'rate-limit-test',
+      timeout: 5000,
+      steps: [
+        { id: 'limited', action: 'test.limited', retry: { attempts: 3, delay: 10, backoff: 'linear' }, depends_on: [] },
+      ],
+    };
+
+    const started = Date.now();
+    const run = await executor.execute(workflow);
+
+    expect(run.status).toBe('failed');
+    expect(run.steps.get('limited')?.error).toBe('API rate limit exceeded');
+    expect(attempts).toBe(1);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('should resume a run by reusing completed step outputs', async () => {
+    const registry = new PluginRegistry();
+    const calls: string[] = [];
+    registry.register({
+      name: 'test',
+      version: '1.0.0',
+      actions: [{
+        name: 'record',
+        execute: async (ctx) => {
+          calls.push(ctx.stepId);
+          return ctx.config;
+        },
+      }],
+    });
+    const executor = new WorkflowExecutor({ registry });
+
+    const workflow: Workflow = {
+      name: 'resume-test',
+      steps: [
+        { id: 'fetch', action: 'test.record', config: { value: 'fresh' }, depends_on: [] },
+        { id: 'use', action: 'test.record', config: { value: '{{ steps.fetch.value }}-{{ trigger.id }}' }, depends_on: ['fetch'] },
+      ],
+    };
+
+    const run = await executor.resume(workflow, { id: 7 }, [{ id: 'fetch', output: { value: 'saved' } }]);
+
+    expect(run.status).toBe('completed');
+    expect(calls).toEqual(['use']);
+    expect(run.steps.get('fetch')?.output).toEqual({ value: 'saved' });
+    expect(run.steps.get('use')?.output).toEqual({ value: 'saved-7' });
+  });
+
+  it('should pause on approval.request and fail the step when rejected', async () => {
+    const requestApproval = vi.fn()
+      .mockResolvedValueOnce({ approvalId: 'a1', approved: true, approver: 'alice', via: 'web', decidedAt: '', timedOut: false })
+      .mockResolvedValueOnce({ approvalId: 'a2', approved: false, approver: 'bob', comment: 'not today', via: 'slack', decidedAt: '', timedOut: false });
+    const executor = new WorkflowExecutor({ registry: new PluginRegistry(), requestApproval });
+
+    const workflow: Workflow = {
+      name: 'approval-test',
+      steps: [
+        { id: 'gate', action: 'approval.request', config: { message: 'Deploy {{ trigger.ref }}?', slack: { channel: '#ops' } }, depends_on: [] },
+      ],
+    };
+
+    const approved = await executor.execute(workflow, { ref: 'v1' });
+    expect(approved.status).toBe('completed');
+    expect(approved.steps.get('gate')?.output).toMatchObject({ approved: true, approver: 'alice' });
+    expect(requestApproval).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Deploy v1?', onTimeout: 'reject', channels: { slack: { channel: '#ops' }, telegram: undefined } }),
+      expect.any(AbortSignal)
+    );
+
+    const rejected = await executor.execute(workflow, { ref: 'v2' });
+    expect(rejected.status).toBe('failed');
+    expect(rejected.steps.get('gate')?.error).toBe('Rejected by bob: not today');
+  });
+
+  it('should reuse cached step outputs for the same key', async () => {
+    const registry = new PluginRegistry();
+    const execute = vi.fn().mockImplementation(async (ctx) => ({ summary: `about ${ctx.config.url}` }));
+    registry.register({
+      name: 'test',
+      version: '1.0.0',
+      actions: [{ name: 'summarize', execute }],
+    });
+    const store = new SchedulerStore(':memory:');
+    const executor = new WorkflowExecutor({ registry, stepCache: store });
+
+    const workflow: Workflow = {
+      name: 'cache-test',
+      steps: [
+        { id: 'summarize', action: 'test.summarize', config: { url: '{{ trigger.url }}' }, cache: { key: '{{ trigger.url }}', ttl: 60_000 } },
+        { id: 'report', action: 'transform', config: { template: '{{ steps.summarize.summary }}' }, depends_on: ['summarize'] },
+      ],
+    };
+
+    const first = await executor.execute(workflow, { url: 'a' });
+    const second = await executor.execute(workflow, { url: 'a' });
+    const other = await executor.execute(workflow, { url: 'b' });
+
+    expect(first.steps.get('summarize')?.status).toBe('completed');
+    expect(second.steps.get('summarize')?.status).toBe('cached');
+    expect(second.steps.get('report')?.output).toBe('about a');
+    expect(other.steps.get('summarize')?.status).toBe('completed');
+    expect(execute).toHaveBeenCalledTimes(2);
+
+    const entries = store.listCacheEntries({ workflowName: 'cache-test' });
+    expect(entries).toHaveLength(2);
+    expect(entries.find((entry) => entry.hits === 1)?.stepId).toBe('summarize');
+    expect(store.purgeCache({ workflowName: 'cache-test' })).toBe(2);
+    store.close();
+  });
+
+  it('should start a needs_any join once the first branch completes', async () => {
+    const executor = new WorkflowExecutor({ registry: new PluginRegistry() });
+
+    const workflow: Workflow = {
+      name: 'any-join-test',
+      steps: [
+        { id: 'cache', action: 'transform', config: { template: 'from cache' }, depends_on: [] },
+        { id: 'slow', action: 'delay', config: { ms: 50 }, depends_on: [] },
+        { id: 'never', action: 'log', config: { message: 'off' }, if: false, depends_on: [] },
+        { id: 'pick', action: 'transform', config: { template: '{{ join.first }}: {{ join.output }}' }, needs_any: ['cache', 'slow'], depends_on: [] },
+        { id: 'fallback', action: 'log', config: { message: 'unused' }, needs_any: ['never'], depends_on: [] },
+      ],
+    };
+
+    const run = await executor.execute(workflow);
+
+    expect(run.status).toBe('completed');
+    expect(run.steps.get('pick')?.output).toBe('cache: from cache');
+    expect(run.steps.get('pick')!.completedAt!.getTime()).toBeLessThanOrEqual(run.steps.get('slow')!.completedAt!.getTime());
+    expect(run.steps.get('slow')?.status).toBe('completed');
+    expect(run.steps.get('fallback')?.status).toBe('skipped');
+  });
+
+  it('should collect the outputs of completed branches in a needs_all join', async () => {
+    const executor = new WorkflowExecutor({ registry: new PluginRegistry() });
+
+    const workflow: Workflow = {
+      name: 'all-join-test',
+      steps: [
+        { id: 'github', action: 'transform', config: { template: 3 }, depends_on: [] },
+        { id: 'linear', action: 'transform', config: { template: 5 }, depends_on: [] },
+        { id: 'jira', action: 'transform', config: { template: 8 }, if: false, depends_on: [] },
+        { id: 'collect', action: 'join', needs_all: ['github', 'linear', 'jira'], depends_on: [] },
+        { id: 'strict', action: 'log', config: { message: 'needs every branch' }, depends_on: ['github', 'jira'] },
+      ],
+    };
+
+    const run = await executor.execute(workflow);
+
+    expect(run.status).toBe('completed');
+    expect(run.steps.get('collect')?.output).toEqual({ github: 3, linear: 5 });
+    expect(run.steps.get('strict')?.status).toBe('skipped');
+  });
+
+  it('should cancel the other branches of a race once one completes', async () => {
+    const executor = new WorkflowExecutor({ registry: new PluginRegistry() });
+
+    const workflow: Workflow = {
+      name: 'race-test',
+      steps: [
+        { id: 'mirror-a', action: 'transform', config: { template: 'a' }, depends_on: [] },
+        { id: 'mirror-b', action: 'delay', config: { ms: 10_000 }, depends_on: [] },
+        { id: 'after-b', action: 'log', config: { message: 'b done' }, depends_on: ['mirror-b'] },
+        { id: 'download', action: 'transform', config: { template: '{{ join.output }}' }, needs_any: ['mirror-a', 'mirror-b'], race: true, depends_on: [] },
+      ],
+    };
+
+    const started = Date.now();
+    const run = await executor.execute(workflow);
+
+    expect(Date.now() - started).toBeLessThan(5_000);
+    expect(run.status).toBe('completed');
+    expect(run.steps.get('download')?.output).toBe('a');
+    expect(run.steps.get('mirror-b')?.status).toBe('skipped');
+    expect(run.steps.get('after-b')?.status).toBe('skipped');
+  });
 });
@@ -1,18 +1,41 @@
-import { randomUUID } from 'node:crypto';
+import { createHash, randomUUID } from 'node:crypto';
 import { readFileSync } from 'node:fs';
 import type {
   ActionContext,
+  HandlerStep,
   MemoryBlock,
   MemoryContext,
   MemorySource,
+  ParentRunLink,
   Step,
+  StepIteration,
   StepResult,
   WeavrConfig,
   Workflow,
   WorkflowRun,
 } from '../types/index.js';
 import type { PluginRegistry } from '../plugins/sdk/registry.js';
-import { loadConfig } from '../config/index.js';
+import { loadConfig, loadWorkflowFile } from '../config/index.js';
+import { parser } from './parser.js';
+import { resolveWorkflowInputs } from './inputs.js';
+import { abortable, BranchCancelledError, createAbortScope, RunCancelledError, type AbortScope } from './abort.js';
+import type { ApprovalDecision, ApprovalRequest } from './approvals.js';
+import { assertStepAllowed } from './policy.js';
+import type { SecretStore } from './secrets.js';
+import {
+  computeRetryDelay,
+  describeError,
+  describeHttpOutput,
+  shouldRetry,
+  type RetryableFailure,
+  type RetryPolicy,
+} from './retry.js';
+import {
+  evaluateExpression,
+  isTruthy,
+  matchSingleExpression,
+  replaceTemplateExpressions,
+} from './expression.js';
 
 // Import AI tracking context functions
 let setTrackingContext: ((ctx: { model?: string; workflowName?: string; runId?: string }) => void) | null = null;
@@ -28,23 +51,94 @@ import('../plugins/builtin/ai/index.js')
     // AI plugin not available, tracking context won't be set
   });
 
+// How deeply workflow.call steps may nest before the call is rejected
+const MAX_CALL_DEPTH = 5;
+const DEFAULT_MAX_ITERATIONS = 100;
+
+// Whether a step produced an output, either by running or from the step cache
+function hasCompleted(result: StepResult | undefined): boolean {
+  return result?.status === 'completed' || result?.status === 'cached';
+}
+
 export interface ExecutorOptions {
   registry: PluginRegistry;
+  loadWorkflow?: (name: string) => Promise<Workflow>; // Resolves workflow.call targets (default: ~/.weavr/workflows)
+  onRunStart?: (run: WorkflowRun) => void;
   onStepStart?: (runId: string, stepId: string) => void;
   onStepComplete?: (runId: string, stepId: string, result: StepResult) => void;
   onRunComplete?: (run: WorkflowRun) => void;
   onLog?: (runId: string, stepId: string, message: string) => void;
+  requestApproval?: (request: ApprovalRequest, signal: AbortSignal) => Promise<ApprovalDecision>; // Backs approval.request steps
+  stepCache?: StepCache; // Backs step `cache:`; without it cached steps always execute
+  secrets?: Pick<SecretStore, 'context' | 'redact' | 'contains'>; // Backs `secrets.*`; without it no secrets are defined
+}
+
+// Storage for step outputs, keyed by a hash of the step's action and rendered cache key
+export interface StepCache {
+  getCachedOutput(key: string): { output: unknown } | null;
+  saveCachedOutput(entry: {
+    key: string;
+    workflowName: string;
+    stepId: string;
+    action: string;
+    output: unknown;
+    ttl?: number;
+  }): void;
+}
+
+// A step that completed in an earlier run, reused when resuming it
+export interface ResumedStep {
+  id: string;
+  output?: unknown;
 }
 
 export class WorkflowExecutor {
   private runs = new Map<string, WorkflowRun>();
   private memoryCaches = new Map<string, Map<string, string>>();
+  private abortScopes = new Map<string, AbortScope>();
+  private branchScopes = new Map<string, Map<string, AbortScope>>(); // Per run: steps a race join may cancel
+  private loopScopes = new Map<string, Map<string, AbortScope>>(); // Per run: polling loops bounded by loop.timeout
   private cachedConfig: { value: WeavrConfig; loadedAt: number } | null = null;
 
   constructor(private options: ExecutorOptions) {}
 
-  async execute(workflow: Workflow, triggerData?: unknown, providedRunId?: string): Promise<WorkflowRun> {
-    const runId = providedRunId ?? randomUUID();
+  async execute(
+    workflow: Workflow,
+    triggerData?: unknown,
+    providedRunId?: string,
+    parent?: ParentRunLink,
+    signal?: AbortSignal
+  ): Promise<WorkflowRun> {
+    return this.runWorkflow(workflow, triggerData, providedRunId ?? randomUUID(), { parent, signal });
+  }
+
+  // Re-run a failed or cancelled run as a new run. Steps that completed last time keep
+  // their outputs and aren't executed again; everything else runs as usual.
+  async resume(
+    workflow: Workflow,
+    triggerData: unknown,
+    completedSteps: ResumedStep[],
+    providedRunId?: string,
+    signal?: AbortSignal
+  ): Promise<WorkflowRun> {
+    return this.runWorkflow(workflow, triggerData, providedRunId ?? randomUUID(), { signal, completedSteps });
+  }
+
+  private async runWorkflow(
+    workflow: Workflow,
+    triggerData: unknown,
+    runId: string,
+    options: { parent?: ParentRunLink; signal?: AbortSignal; completedSteps?: ResumedStep[] }
+  ): Promise<WorkflowRun> {
+    const { parent, signal } = options;
+
+    // Every step attempt in this run derives its signal from the run's scope
+    const abortScope = createAbortScope(
+      signal,
+      workflow.timeout,
+      `Workflow "${workflow.name}" timed out after ${workflow.timeout}ms`
+    );
+    this.abortScopes.set(runId, abortScope);
 
     const run: WorkflowRun = {
       id: runId,
@@ -53,6 +147,7 @@ export class WorkflowExecutor {
       triggerData,
       steps: new Map(),
       startedAt: new Date(),
+      parent,
     };
 
     this.runs.set(runId, run);
@@ -63,26 +158,67 @@ export class WorkflowExecutor {
       setTrackingContext({ workflowName: workflow.name, runId });
     }
 
-    // Initialize all steps as pending
+    // Initialize all steps as pending, except those carried over from a resumed run
+    const reused = new Map((options.completedSteps ?? []).map((step) => [step.id, step]));
     for (const step of workflow.steps) {
-      run.steps.set(step.id, {
-        id: step.id,
-        status: 'pending',
-      });
+      const previous = reused.get(step.id);
+      run.steps.set(step.id, previous
+        ? { id: step.id, status: 'completed', output: previous.output, duration: 0 }
+        : { id: step.id, status: 'pending' });
+    }
+
+    this.options.onRunStart?.(run);
+    for (const step of workflow.steps) {
+      if (reused.has(step.id)) {
+        this.options.onLog?.(runId, step.id, 'Reusing output from the resumed run');
+      }
     }
 
     try {
+      if (workflow.inputs && workflow.inputs.length > 0) {
+        run.inputs = resolveWorkflowInputs(workflow.inputs, triggerData);
+      }
+
       // Build dependency graph
       const graph = this.buildDependencyGraph(workflow.steps);
 
       // Execute steps in topological order
       await this.executeGraph(run, workflow, graph);
 
+      if (workflow.outputs) {
+        const outputCtx = await this.buildInterpolationContext(run, workflow);
+        run.outputs = this.interpolateConfig(workflow.outputs, outputCtx);
+      }
+
       run.status = 'completed';
       run.completedAt = new Date();
     } catch (err) {
-      run.status = 'failed';
-      run.error = err instanceof Error ? err.message : String(err);
+      const cancelReason = abortScope.signal.aborted ? abortScope.signal.reason : undefined;
+      if (cancelReason instanceof RunCancelledError) {
+        // Cancelled runs skip whatever hadn't started and don't run on_failure
+        run.status = 'cancelled';
+        run.error = cancelReason.message;
+        for (const stepResult of run.steps.values()) {
+          if (stepResult.status === 'pending') stepResult.status = 'skipped';
+        }
+      } else {
+        run.status = 'failed';
+        run.error = err instanceof Error ? err.message : String(err);
+
+        // Failure handlers aren't bound by the run's timeout
+        this.abortScopes.delete(runId);
+
+        if (workflow.on_failure && workflow.on_failure.length > 0) {
+          const failedStep = workflow.steps.find(
+            (step) => !step.continue_on_error && run.steps.get(step.id)?.status === 'failed'
+          );
+          await this.runHandlers(run, workflow, workflow.on_failure, 'on_failure', {
+            message: run.error,
+            step: failedStep?.id,
+          });
+        }
+      }
+
       run.completedAt = new Date();
     } finally {
       // Clear AI tracking context
@@ -90,17 +226,25 @@ export class WorkflowExecutor {
         clearTrackingContext();
       }
       this.memoryCaches.delete(runId);
+      for (const scope of this.branchScopes.get(runId)?.values() ?? []) {
+        scope.dispose();
+      }
+      this.branchScopes.delete(runId);
+      this.loopScopes.delete(runId);
+      abortScope.dispose();
+      this.abortScopes.delete(runId);
     }
 
     this.options.onRunComplete?.(run);
     return run;
   }
 
+  // Steps that must all have finished before a step can start; needs_any is checked separately
   private buildDependencyGraph(steps: Step[]): Map<string, Set<string>> {
     const graph = new Map<string, Set<string>>();
 
     for (const step of steps) {
-      graph.set(step.id, new Set(step.depends_on ?? []));
+      graph.set(step.id, new Set([...(step.depends_on ?? []), ...(step.needs_all ?? [])]));
     }
 
     return graph;
@@ -111,100 +255,178 @@ export class WorkflowExecutor {
     workflow: Workflow,
     graph: Map<string, Set<string>>
   ): Promise<void> {
-    const completed = new Set<string>();
+    // Steps reused by a resumed run start out finished
+    const finished = new Set(
+      [...run.steps.values()].filter((result) => result.status === 'completed').map((result) => result.id)
+    );
+    // Steps that completed, in the order they did, so join steps can tell which branch came first
+    const completionOrder = [...finished];
     const stepMap = new Map(workflow.steps.map((s) => [s.id, s]));
+    const running = new Map<string, Promise<void>>();
+
+    const raceJoins = workflow.steps.filter((step) => step.race && (step.needs_any ?? []).length > 0);
+    const decidedRaces = new Set<string>();
+    if (raceJoins.length > 0) {
+      const scopes = new Map<string, AbortScope>();
+      for (const branch of raceJoins.flatMap((step) => step.needs_any ?? [])) {
+        if (!scopes.has(branch)) scopes.set(branch, createAbortScope(this.abortScopes.get(run.id)?.signal));
+      }
+      this.branchScopes.set(run.id, scopes);
+    }
+
+    // The first branch of a race join to complete cancels the join's other branches
+    const settleRaces = () => {
+      for (const join of raceJoins) {
+        if (decidedRaces.has(join.id)) continue;
+        const branches = join.needs_any ?? [];
+        const winner = completionOrder.find((id) => branches.includes(id));
+        if (!winner) continue;
+
+        decidedRaces.add(join.id);
+        for (const branch of branches) {
+          if (branch === winner || finished.has(branch)) continue;
+          this.branchScopes.get(run.id)?.get(branch)?.controller.abort(
+            new BranchCancelledError(`"${winner}" finished first in race "${join.id}"`)
+          );
+        }
+      }
+    };
+    settleRaces();
 
-    while (completed.size < workflow.steps.length) {
-      // Find steps that are ready to execute
-      const ready: Step[] = [];
+    while (finished.size < workflow.steps.length) {
+      // Don't start more steps once the run has timed out
+      this.abortScopes.get(run.id)?.signal.throwIfAborted();
 
+      // Start every step whose dependencies are satisfied
       for (const [stepId, deps] of graph) {
-        if (completed.has(stepId)) continue;
+        if (finished.has(stepId) || running.has(stepId)) continue;
 
-        const allDepsCompleted = [...deps].every((dep) => completed.has(dep));
-        if (allDepsCompleted) {
-          const step = stepMap.get(stepId);
-          if (step) ready.push(step);
+        const step = stepMap.get(stepId);
+        if (!step || ![...deps].every((dep) => finished.has(dep)) || !this.isJoinReady(run, step, finished)) {
+          continue;
         }
+
+        const task = this.executeStep(run, workflow, step, this.buildJoinContext(run, step, completionOrder))
+          .then(() => {
+            finished.add(stepId);
+            if (hasCompleted(run.steps.get(stepId))) completionOrder.push(stepId);
+            settleRaces();
+          })
+          .finally(() => running.delete(stepId));
+        running.set(stepId, task);
       }
 
-      if (ready.length === 0 && completed.size < workflow.steps.length) {
+      if (running.size === 0) {
         throw new Error('Circular dependency detected in workflow');
       }
 
-      // Execute ready steps in parallel
-      await Promise.all(
-        ready.map((step) =>
-          this.executeStep(run, workflow, step).then(() => {
-            completed.add(step.id);
-          })
-        )
-      );
+      // Steps start as soon as what they wait on has finished, not when every running step has
+      await Promise.race(running.values());
     }
   }
 
+  // needs_any is met by the first branch that completes, or once every branch has finished
+  // without completing (the step is then skipped)
+  private isJoinReady(run: WorkflowRun, step: Step, finished: Set<string>): boolean {
+    const branches = step.needs_any ?? [];
+    return (
+      branches.length === 0 ||
+      branches.some((id) => hasCompleted(run.steps.get(id))) ||
+      branches.every((id) => finished.has(id))
+    );
+  }
+
+  // Join steps read their branches' results as `join`: the completed branches in the order
+  // they finished, the first one and its output, and every completed branch's output by id
+  private buildJoinContext(run: WorkflowRun, step: Step, completionOrder: string[]): Record<string, unknown> {
+    const branches = [...(step.needs_any ?? []), ...(step.needs_all ?? [])];
+    if (branches.length === 0) return {};
+
+    const completed = completionOrder.filter((id) => branches.includes(id));
+    const outputs = Object.fromEntries(completed.map((id) => [id, run.steps.get(id)?.output]));
+    return {
+      join: {
+        first: completed[0],
+        output: completed.length > 0 ? outputs[completed[0]] : undefined,
+        completed,
+        outputs,
+      },
+    };
+  }
+
   private async executeStep(
     run: WorkflowRun,
     workflow: Workflow,
-    step: Step
+    step: Step,
+    extraContext: Record<string, unknown> = {}
   ): Promise<void> {
     const stepResult = run.steps.get(step.id)!;
+
+    // Set once a race join has picked another branch
+    const branchSignal = this.branchScopes.get(run.id)?.get(step.id)?.signal;
+    // An `if:` that can't be evaluated fails the step like any other error, so on_error and continue_on_error apply
+    let skipReason: string | null = null;
+    let conditionError: unknown;
+    try {
+      skipReason = branchSignal?.reason instanceof BranchCancelledError
+        ? branchSignal.reason.message
+        : await this.getSkipReason(run, workflow, step, extraContext);
+    } catch (err) {
+      conditionError = err;
+    }
+    if (skipReason) {
+      stepResult.status = 'skipped';
+      stepResult.completedAt = new Date();
+      stepResult.duration = 0;
+      this.options.onLog?.(run.id, step.id, `Skipped: ${skipReason}`);
+      this.options.onStepComplete?.(run.id, step.id, stepResult);
+      return;
+    }
+
     stepResult.status = 'running';
     stepResult.startedAt = new Date();
 
     this.options.onStepStart?.(run.id, step.id);
 
+    let failure: unknown;
     try {
-      // Get action from registry
-      const action = this.options.registry.getAction(step.action);
-
-      if (!action) {
-        // Check if it's a built-in action
-        const interpolationCtx = await this.buildInterpolationContext(run, workflow);
-        const output = await this.executeBuiltinAction(step, workflow, interpolationCtx);
-        stepResult.output = output;
-        stepResult.status = 'completed';
-      } else {
-        const interpolationCtx = await this.buildInterpolationContext(run, workflow);
-        const memory = (interpolationCtx as { memory?: MemoryContext }).memory ?? { blocks: {}, sources: {} };
-
-        // Interpolate config values
-        const interpolatedConfig = this.interpolateConfig(
-          (step.config ?? {}) as Record<string, unknown>,
-          interpolationCtx
-        );
+      if (conditionError !== undefined) throw conditionError;
 
-        // Build context for plugin action
-        const context: ActionContext = {
-          workflowName: workflow.name,
-          runId: run.id,
-          stepId: step.id,
-          config: interpolatedConfig,
-          trigger: run.triggerData,
-          steps: this.getStepOutputs(run),
-          env: workflow.env ?? {},
-          memory,
-          log: (message: string) => {
-            console.log(`[${workflow.name}:${step.id}] ${message}`);
-            // Also send to run history via callback
-            this.options.onLog?.(run.id, step.id, message);
-          },
-        };
+      // Also enforced at deploy time; this catches workflows loaded straight from disk
+      assertStepAllowed(workflow, step);
 
-        // Execute with retry
-        const output = await this.executeWithRetry(
-          () => action.execute(context),
-          step.retry?.attempts ?? 1,
-          step.retry?.delay ?? 1000
-        );
+      const interpolationCtx = {
+        ...(await this.buildInterpolationContext(run, workflow)),
+        ...extraContext,
+      };
 
-        stepResult.output = output;
+      const cacheKey = step.cache ? this.stepCacheKey(step, interpolationCtx) : undefined;
+      const cached = cacheKey ? this.options.stepCache?.getCachedOutput(cacheKey) : null;
+      if (cached) {
+        stepResult.output = cached.output;
+        stepResult.status = 'cached';
+        this.options.onLog?.(run.id, step.id, 'Output reused from cache');
+      } else {
+        stepResult.output = step.foreach !== undefined
+          ? await this.executeForeach(run, workflow, step, stepResult, interpolationCtx)
+          : step.loop
+            ? await this.executeLoop(run, workflow, step, stepResult, interpolationCtx)
+            : await this.executeAction(run, workflow, step, interpolationCtx);
         stepResult.status = 'completed';
+        if (cacheKey) {
+          this.saveStepCache(run, workflow, step, cacheKey, stepResult.output);
+        }
       }
     } catch (err) {
-      stepResult.status = 'failed';
-      stepResult.error = err instanceof Error ? err.message : String(err);
-      throw err;
+      if (branchSignal?.reason instanceof BranchCancelledError) {
+        // Losing a race isn't a failure; the join already has its result
+        stepResult.status = 'skipped';
+        this.options.onLog?.(run.id, step.id, `Cancelled: ${branchSignal.reason.message}`);
+      } else {
+        stepResult.status = 'failed';
+        stepResult.error = err instanceof Error ? err.message : String(err);
+        failure = err;
+      }
     } finally {
       stepResult.completedAt = new Date();
       stepResult.duration =
@@ -212,6 +434,343 @@ export class WorkflowExecutor {
 
       this.options.onStepComplete?.(run.id, step.id, stepResult);
     }
+
+    if (failure === undefined) return;
+
+    let fallback: unknown;
+    if (step.on_error && step.on_error.length > 0) {
+      fallback = await this.runHandlers(run, workflow, step.on_error, step.id, {
+        message: stepResult.error,
+        step: step.id,
+      });
+    }
+
+    if (!step.continue_on_error) {
+      throw failure;
+    }
+
+    // The last handler's output stands in for the failed step's output
+    if (fallback !== undefined) {
+      stepResult.output = fallback;
+    }
+    this.options.onLog?.(run.id, step.id, `Continuing after error: ${stepResult.error}`);
+  }
+
+  // Content-addressed: steps with the same action and rendered key share an entry, in any workflow
+  private stepCacheKey(step: Step, context: Record<string, unknown>): string {
+    const key = this.interpolateValue(step.cache!.key, context);
+    return createHash('sha256').update(JSON.stringify([step.action, key])).digest('hex');
+  }
+
+  // A cache that can't be written only costs the next run a re-execution
+  private saveStepCache(run: WorkflowRun, workflow: Workflow, step: Step, key: string, output: unknown): void {
+    // Cached outputs are stored and listed by the cache API in plain text
+    if (this.options.secrets?.contains(output)) {
+      this.options.onLog?.(run.id, step.id, 'Output not cached because it contains a secret value');
+      return;
+    }
+    try {
+      this.options.stepCache?.saveCachedOutput({
+        key,
+        workflowName: workflow.name,
+        stepId: step.id,
+        action: step.action,
+        output,
+        ttl: step.cache?.ttl,
+      });
+    } catch (err) {
+      this.options.onLog?.(run.id, step.id, `Could not cache output: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  // Run error handler steps in order with `error` available to interpolation.
+  // A failing handler is logged and doesn't stop the ones after it.
+  private async runHandlers(
+    run: WorkflowRun,
+    workflow: Workflow,
+    handlers: HandlerStep[],
+    handlerFor: string,
+    error: { message?: string; step?: string }
+  ): Promise<unknown> {
+    let lastOutput: unknown;
+
+    for (const handler of handlers) {
+      run.steps.set(handler.id, { id: handler.id, status: 'pending', handlerFor });
+      try {
+        await this.executeStep(run, workflow, handler, { error });
+        lastOutput = run.steps.get(handler.id)?.output ?? lastOutput;
+      } catch (err) {
+        this.options.onLog?.(
+          run.id,
+          handler.id,
+          `Error handler failed: ${err instanceof Error ? err.message : String(err)}`
+        );
+      }
+    }
+
+    return lastOutput;
+  }
+
+  private async executeAction(
+    run: WorkflowRun,
+    workflow: Workflow,
+    step: Step,
+    interpolationCtx: Record<string, unknown>
+  ): Promise<unknown> {
+    // Get action from registry
+    const action = this.options.registry.getAction(step.action);
+
+    if (!action) {
+      // Check if it's a built-in action
+      return this.withStepSignal(run, step, (signal) =>
+        this.executeBuiltinAction(run, step, workflow, interpolationCtx, signal)
+      );
+    }
+
+    const memory = (interpolationCtx as { memory?: MemoryContext }).memory ?? { blocks: {}, sources: {} };
+
+    // Interpolate config values
+    const interpolatedConfig = this.interpolateConfig(
+      (step.config ?? {}) as Record<string, unknown>,
+      interpolationCtx
+    );
+
+    // Build context for plugin action
+    const context: ActionContext = {
+      workflowName: workflow.name,
+      runId: run.id,
+      stepId: step.id,
+      config: interpolatedConfig,
+      trigger: run.triggerData,
+      steps: this.getStepOutputs(run),
+      env: workflow.env ?? {},
+      memory,
+      log: (message: string) => {
+        console.log(`[${workflow.name}:${step.id}] ${message}`);
+        // Also send to run history via callback
+        this.options.onLog?.(run.id, step.id, message);
+      },
+    };
+
+    // Execute with retry
+    return this.executeWithRetry(
+      () => this.withStepSignal(run, step, (signal) => action.execute({ ...context, signal })),
+      step.retry,
+      context.log,
+      this.parentSignal(run, step),
+      workflow.timeout !== undefined ? run.startedAt.getTime() + workflow.timeout : undefined
+    );
+  }
+
+  // Each attempt gets a signal that fires on the step timeout or when the run is aborted.
+  // Racing the action against it fails the step even if the action ignores the signal.
+  private async withStepSignal<T>(
+    run: WorkflowRun,
+    step: Step,
+    fn: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const scope = createAbortScope(
+      this.parentSignal(run, step),
+      step.timeout,
+      `Step "${step.id}" timed out after ${step.timeout}ms`
+    );
+    try {
+      return await abortable(fn(scope.signal), scope.signal);
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  // A step follows its polling loop's timeout, then its race branch if it's in one, otherwise the run
+  private parentSignal(run: WorkflowRun, step: Step): AbortSignal | undefined {
+    return this.loopScopes.get(run.id)?.get(step.id)?.signal
+      ?? this.branchScopes.get(run.id)?.get(step.id)?.signal
+      ?? this.abortScopes.get(run.id)?.signal;
+  }
+
+  // Re-run the step's action until loop.until holds (or loop.while stops holding),
+  // exposing `loop.iteration` and the previous `loop.output` to interpolation.
+  // The last iteration's output becomes the step's output.
+  private async executeLoop(
+    run: WorkflowRun,
+    workflow: Workflow,
+    step: Step,
+    stepResult: StepResult,
+    interpolationCtx: Record<string, unknown>
+  ): Promise<unknown> {
+    const loop = step.loop!;
+    const interval = loop.interval ?? 0;
+    const maxIterations = loop.max_iterations ?? DEFAULT_MAX_ITERATIONS;
+    const deadline = loop.timeout !== undefined ? Date.now() + loop.timeout : undefined;
+
+    const iterations: StepIteration[] = [];
+    stepResult.iterations = iterations;
+    const timedOut = () => new Error(`Loop timed out after ${loop.timeout}ms (${iterations.length} iterations)`);
+
+    // The timeout bounds the whole loop: iterations and waits follow this scope, so a hanging one is cut off
+    const parent = this.parentSignal(run, step);
+    const scope = createAbortScope(parent, loop.timeout, `Loop timed out after ${loop.timeout}ms`);
+    if (!this.loopScopes.has(run.id)) this.loopScopes.set(run.id, new Map());
+    this.loopScopes.get(run.id)!.set(step.id, scope);
+
+    try {
+      let output: unknown;
+      for (let index = 0; index < maxIterations; index++) {
+        const iteration: StepIteration = { index, status: 'running', startedAt: new Date() };
+        iterations.push(iteration);
+
+        try {
+          output = await this.executeAction(run, workflow, step, {
+            ...interpolationCtx,
+            loop: { iteration: index, output },
+          });
+          iteration.output = output;
+          iteration.status = 'completed';
+        } catch (err) {
+          iteration.status = 'failed';
+          iteration.error = err instanceof Error ? err.message : String(err);
+          throw err;
+        } finally {
+          iteration.completedAt = new Date();
+          iteration.duration = iteration.completedAt.getTime() - (iteration.startedAt?.getTime() ?? 0);
+        }
+
+        const conditionCtx = { ...interpolationCtx, loop: { iteration: index, output } };
+        const done = loop.until !== undefined
+          ? this.evaluateStepCondition(loop.until, conditionCtx)
+          : !this.evaluateStepCondition(loop.while!, conditionCtx);
+        if (done) {
+          this.options.onLog?.(run.id, step.id, `Loop finished after ${index + 1} iteration(s)`);
+          return output;
+        }
+
+        if (index + 1 >= maxIterations) break;
+        if (deadline !== undefined && Date.now() + interval >= deadline) throw timedOut();
+
+        if (interval > 0) {
+          this.options.onLog?.(run.id, step.id, `Iteration ${index}: condition not met, polling again in ${interval}ms`);
+          await this.wait(run, step, interval);
+        }
+      }
+    } catch (err) {
+      // Aborted while the run and branch weren't means the loop's own timeout fired
+      throw scope.signal.aborted && !parent?.aborted ? timedOut() : err;
+    } finally {
+      scope.dispose();
+      this.loopScopes.get(run.id)?.delete(step.id);
+    }
+
+    throw new Error(`Loop stopped after ${maxIterations} iterations without meeting its condition`);
+  }
+
+  // Sleep that ends early (rejecting) when the run is cancelled or the step's branch loses a race
+  private async wait(run: WorkflowRun, step: Step, ms: number): Promise<void> {
+    const signal = this.parentSignal(run, step);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const sleep = new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, ms);
+    });
+    try {
+      await (signal ? abortable(sleep, signal) : sleep);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Run the step's action once per item, exposing `item` and `index` to interpolation
+  private async executeForeach(
+    run: WorkflowRun,
+    workflow: Workflow,
+    step: Step,
+    stepResult: StepResult,
+    interpolationCtx: Record<string, unknown>
+  ): Promise<unknown[]> {
+    const items = this.evaluateStepExpression(step.foreach ?? '', interpolationCtx);
+    if (!Array.isArray(items)) {
+      throw new Error(`foreach expression ${JSON.stringify(step.foreach)} did not evaluate to a list`);
+    }
+
+    const outputs: unknown[] = items.map(() => null);
+    const iterations: StepIteration[] = [];
+    stepResult.iterations = iterations;
+
+    const errors: unknown[] = [];
+    let nextIndex = 0;
+
+    const worker = async (): Promise<void> => {
+      // Stop picking up new items after the first failure unless continue_on_error is set
+      while (nextIndex < items.length && (step.continue_on_error || errors.length === 0)) {
+        const index = nextIndex++;
+        const iteration: StepIteration = { index, status: 'running', startedAt: new Date() };
+        iterations.push(iteration);
+
+        try {
+          outputs[index] = await this.executeAction(run, workflow, step, {
+            ...interpolationCtx,
+            item: items[index],
+            index,
+          });
+          iteration.status = 'completed';
+        } catch (err) {
+          iteration.status = 'failed';
+          iteration.error = err instanceof Error ? err.message : String(err);
+          this.options.onLog?.(run.id, step.id, `Item ${index} failed: ${iteration.error}`);
+          errors.push(err);
+        } finally {
+          iteration.completedAt = new Date();
+          iteration.duration = iteration.completedAt.getTime() - (iteration.startedAt?.getTime() ?? 0);
+        }
+      }
+    };
+
+    const workers = Math.min(step.concurrency ?? 1, items.length);
+    await Promise.all(Array.from({ length: workers }, () => worker()));
+    iterations.sort((a, b) => a.index - b.index);
+
+    if (errors.length > 0 && !step.continue_on_error) {
+      throw errors[0];
+    }
+
+    this.options.onLog?.(
+      run.id,
+      step.id,
+      `Processed ${items.length} item(s)${errors.length > 0 ? `, ${errors.length} failed` : ''}`
+    );
+    return outputs;
+  }
+
+  // Returns why a step should be skipped, or null if it should run
+  private async getSkipReason(
+    run: WorkflowRun,
+    workflow: Workflow,
+    step: Step,
+    extraContext: Record<string, unknown>
+  ): Promise<string | null> {
+    if (!step.allow_skipped) {
+      const skippedDep = (step.depends_on ?? []).find(
+        (dep) => run.steps.get(dep)?.status === 'skipped'
+      );
+      if (skippedDep) {
+        return `dependency "${skippedDep}" was skipped`;
+      }
+    }
+
+    const branches = step.needs_any ?? [];
+    if (branches.length > 0 && !branches.some((id) => hasCompleted(run.steps.get(id)))) {
+      return `none of ${branches.map((id) => `"${id}"`).join(', ')} completed`;
+    }
+
+    if (step.if !== undefined) {
+      const interpolationCtx = {
+        ...(await this.buildInterpolationContext(run, workflow)),
+        ...extraContext,
+      };
+      if (!this.evaluateStepCondition(step.if, interpolationCtx)) {
+        return `condition ${JSON.stringify(step.if)} evaluated to false`;
+      }
+    }
+
+    return null;
   }
 
   // Build base interpolation context (memory is injected separately)
@@ -219,8 +778,10 @@ export class WorkflowExecutor {
     const now = new Date();
     return {
       trigger: run.triggerData,
+      inputs: run.inputs ?? {},
       steps: this.getStepOutputs(run),
       env: workflow.env ?? {},
+      secrets: this.options.secrets?.context() ?? {},
       // Built-in date/time variables
       currentDate: now.toISOString().split('T')[0], // YYYY-MM-DD
       currentTime: now.toTimeString().split(' ')[0], // HH:MM:SS
@@ -291,29 +852,33 @@ export class WorkflowExecutor {
   }
 
   private async executeBuiltinAction(
+    run: WorkflowRun,
     step: Step,
     workflow: Workflow,
-    context: Record<string, unknown>
+    context: Record<string, unknown>,
+    signal: AbortSignal
   ): Promise<unknown> {
     const config = step.config ?? {};
     const ctx = context;
 
     switch (step.action) {
       case 'transform': {
-        const template = config.template as string;
-        return this.interpolate(template, ctx);
+        return this.interpolateValue(config.template, ctx);
       }
 
       case 'log': {
         const message = config.message as string;
         const interpolated = this.interpolate(message, ctx);
-        console.log(`[${workflow.name}] ${interpolated}`);
+        console.log(`[${workflow.name}] ${this.options.secrets?.redact(interpolated) ?? interpolated}`);
         return { logged: interpolated };
       }
 
       case 'delay': {
         const ms = config.ms as number;
-        await new Promise((resolve) => setTimeout(resolve, ms));
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, ms);
+          signal.addEventListener('abort', () => clearTimeout(timer), { once: true });
+        });
         return { delayed: ms };
       }
 
@@ -323,15 +888,143 @@ export class WorkflowExecutor {
         return { result };
       }
 
+      case 'workflow.call': {
+        return this.callWorkflow(run, step, ctx, signal);
+      }
+
+      case 'approval.request': {
+        return this.requestApproval(run, step, ctx, signal);
+      }
+
+      case 'join': {
+        // Collects the outputs of the branches listed in needs_any / needs_all
+        return (ctx.join as { outputs?: unknown } | undefined)?.outputs ?? {};
+      }
+
       default:
         throw new Error(`Unknown action: ${step.action}`);
     }
   }
 
+  // Run another workflow as a child of this run and return its outputs
+  private async callWorkflow(
+    run: WorkflowRun,
+    step: Step,
+    context: Record<string, unknown>,
+    signal: AbortSignal
+  ): Promise<unknown> {
+    const config = step.config ?? {};
+    const name = this.interpolateValue(config.workflow, context);
+    if (typeof name !== 'string' || name.trim() === '') {
+      throw new Error('workflow.call requires a "workflow" name');
+    }
+    if (!/^[a-zA-Z0-9_-]+$/.test(name)) {
+      throw new Error(`Invalid workflow name: ${name}`);
+    }
+
+    const depth = (run.parent?.depth ?? 0) + 1;
+    if (depth > MAX_CALL_DEPTH) {
+      throw new Error(
+        `workflow.call exceeded the maximum nesting depth of ${MAX_CALL_DEPTH} (calling "${name}" from "${run.workflowName}")`
+      );
+    }
+
+    const child = await this.loadWorkflow(name);
+    const inputs = config.inputs === undefined ? {} : this.interpolateValue(config.inputs, context);
+
+    this.options.onLog?.(run.id, step.id, `Calling workflow "${name}"`);
+    const childRun = await this.execute(child, inputs, undefined, { runId: run.id, stepId: step.id, depth }, signal);
+
+    // The child run clears the shared tracking context when it finishes
+    setTrackingContext?.({ workflowName: run.workflowName, runId: run.id });
+
+    if (childRun.status !== 'completed') {
+      throw new Error(`Workflow "${name}" failed: ${childRun.error ?? 'unknown error'}`);
+    }
+
+    // Outputs picked by the caller are evaluated against the child run; otherwise
+    // return the child's declared outputs, falling back to all of its step outputs
+    const childContext = this.buildBaseInterpolationContext(childRun, child);
+    const outputs = config.outputs && typeof config.outputs === 'object'
+      ? this.interpolateConfig(config.outputs as Record<string, unknown>, childContext)
+      : childRun.outputs ?? childContext.steps;
+
+    return { runId: childRun.id, outputs };
+  }
+
+  // Pause the step until someone approves or rejects it. Rejections fail the step.
+  private async requestApproval(
+    run: WorkflowRun,
+    step: Step,
+    context: Record<string, unknown>,
+    signal: AbortSignal
+  ): Promise<ApprovalDecision> {
+    if (!this.options.requestApproval) {
+      throw new Error('approval.request needs the gateway; start it with `weavr serve` and run the workflow there');
+    }
+
+    const config = this.interpolateConfig((step.config ?? {}) as Record<string, unknown>, context);
+    if (typeof config.message !== 'string' || config.message.trim() === '') {
+      throw new Error('approval.request requires a "message"');
+    }
+    const slack = config.slack as { channel?: unknown } | undefined;
+    const telegram = config.telegram as { chatId?: unknown } | undefined;
+
+    const decision = await this.options.requestApproval({
+      runId: run.id,
+      stepId: step.id,
+      workflowName: run.workflowName,
+      message: config.message,
+      timeoutMs: typeof config.timeout === 'number' ? config.timeout : undefined,
+      onTimeout: config.on_timeout === 'approve' ? 'approve' : 'reject',
+      approvers: Array.isArray(config.approvers) ? config.approvers.map(String) : undefined,
+      channels: {
+        slack: slack?.channel ? { channel: String(slack.channel) } : undefined,
+        // An empty chat id falls back to the configured default chat
+        telegram: telegram ? { chatId: String(telegram.chatId ?? '') } : undefined,
+      },
+      triggerData: run.triggerData,
+      // Outputs holding secrets aren't stored; a run resumed after a restart executes those steps again
+      completedSteps: [...run.steps.values()]
+        .filter((result) => (result.status === 'completed' || result.status === 'cached') && !result.handlerFor)
+        .filter((result) => !this.options.secrets?.contains(result.output))
+        .map((result) => ({ id: result.id, output: result.output })),
+    }, signal);
+
+    const by = decision.timedOut ? 'timeout' : `${decision.approver ?? 'unknown'} via ${decision.via}`;
+    this.options.onLog?.(run.id, step.id, `${decision.approved ? 'Approved' : 'Rejected'} by ${by}${decision.comment ? `: ${decision.comment}` : ''}`);
+
+    if (!decision.approved) {
+      throw new Error(decision.timedOut
+        ? 'Approval timed out'
+        : `Rejected by ${decision.approver ?? 'unknown'}${decision.comment ? `: ${decision.comment}` : ''}`);
+    }
+    return decision;
+  }
+
+  private async loadWorkflow(name: string): Promise<Workflow> {
+    if (this.options.loadWorkflow) {
+      return this.options.loadWorkflow(name);
+    }
+    try {
+      return parser.parse(await loadWorkflowFile(name));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`Workflow not found: ${name}`);
+      }
+      throw err;
+    }
+  }
+
   private getStepOutputs(run: WorkflowRun): Record<string, unknown> {
     const outputs: Record<string, unknown> = {};
     for (const [id, result] of run.steps) {
-      if (result.status === 'completed') {
+      // Failed steps only expose an output when an on_error fallback provided one
+      if (
+        result.status === 'completed' ||
+        result.status === 'cached' ||
+        (result.status === 'failed' && result.output !== undefined)
+      ) {
         outputs[id] = result.output;
       }
     }
@@ -612,12 +1305,31 @@ export class WorkflowExecutor {
   }
 
   private interpolate(template: string, context: Record<string, unknown>): string {
-    return template.replace(/\{\{\s*([^}]+)\s*\}\}/g, (_, expr: string) => {
-      const value = this.resolvePath(expr.trim(), context);
-      return value !== undefined ? String(value) : '';
+    return replaceTemplateExpressions(template, (expr) => {
+      const value = evaluateExpression(expr, context);
+      if (value === undefined) return '';
+      // Embed objects as JSON rather than "[object Object]"
+      return value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
     });
   }
 
+  // Interpolate a config value, keeping the raw type when a string is exactly one {{ expr }}
+  private interpolateValue(value: unknown, context: Record<string, unknown>): unknown {
+    if (typeof value === 'string') {
+      const expression = matchSingleExpression(value);
+      return expression !== null
+        ? evaluateExpression(expression, context)
+        : this.interpolate(value, context);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.interpolateValue(item, context));
+    }
+    if (value && typeof value === 'object') {
+      return this.interpolateConfig(value as Record<string, unknown>, context);
+    }
+    return value;
+  }
+
   private interpolateConfig(
     config: Record<string, unknown>,
     context: Record<string, unknown>
@@ -625,17 +1337,7 @@ export class WorkflowExecutor {
     const result: Record<string, unknown> = {};
 
     for (const [key, value] of Object.entries(config)) {
-      if (typeof value === 'string') {
-        result[key] = this.interpolate(value, context);
-      } else if (Array.isArray(value)) {
-        result[key] = value.map((v) =>
-          typeof v === 'string' ? this.interpolate(v, context) : v
-        );
-      } else if (value && typeof value === 'object') {
-        result[key] = this.interpolateConfig(value as Record<string, unknown>, context);
-      } else {
-        result[key] = value;
-      }
+      result[key] = this.interpolateValue(value, context);
     }
 
     return result;
@@ -669,30 +1371,89 @@ export class WorkflowExecutor {
   }
 
   private evaluateCondition(expr: string, context: Record<string, unknown>): boolean {
-    // Simple expression evaluator for conditions
-    const interpolated = this.interpolate(`{{ ${expr} }}`, context);
-    return Boolean(interpolated && interpolated !== 'false' && interpolated !== '0');
+    return isTruthy(evaluateExpression(expr, context));
+  }
+
+  // Evaluate a step-level expression such as `if:` or `foreach:`.
+  // Accepts both `steps.check.items` and `"{{ steps.check.items }}"`.
+  private evaluateStepExpression(expression: string, context: Record<string, unknown>): unknown {
+    const wrapped = matchSingleExpression(expression);
+    if (wrapped !== null) {
+      return evaluateExpression(wrapped, context);
+    }
+    if (expression.includes('{{')) {
+      return this.interpolate(expression, context);
+    }
+    return evaluateExpression(expression.trim(), context);
+  }
+
+  private evaluateStepCondition(condition: string | boolean, context: Record<string, unknown>): boolean {
+    if (typeof condition === 'boolean') return condition;
+    return isTruthy(this.evaluateStepExpression(condition, context));
   }
 
+  // Retry per the step's policy. Thrown errors are retried unless `on` filters them out;
+  // HTTP-style outputs with ok: false are retried only when they match retry.on.status,
+  // and the last response is returned once attempts run out. Nothing is retried once
+  // `signal` (the run's or branch's) is aborted, and an abort ends the wait between attempts.
+  // A wait that would run past `deadline` (the run's timeout) gives up straight away.
   private async executeWithRetry<T>(
     fn: () => Promise<T>,
-    attempts: number,
-    delay: number
+    policy: RetryPolicy | undefined,
+    log: (message: string) => void,
+    signal?: AbortSignal,
+    deadline?: number
   ): Promise<T> {
-    let lastError: Error | undefined;
+    if (!policy) return fn();
+    const attempts = policy.attempts;
 
-    for (let i = 0; i < attempts; i++) {
+    for (let attempt = 1; ; attempt++) {
+      let failure: RetryableFailure;
+      let outcome: { result: T } | { error: Error };
       try {
-        return await fn();
+        const result = await fn();
+        const httpFailure = policy.on?.status ? describeHttpOutput(result) : null;
+        if (!httpFailure || attempt >= attempts || !shouldRetry(policy, httpFailure)) {
+          return result;
+        }
+        failure = httpFailure;
+        outcome = { result };
       } catch (err) {
-        lastError = err instanceof Error ? err : new Error(String(err));
-        if (i < attempts - 1) {
-          await new Promise((resolve) => setTimeout(resolve, delay * (i + 1)));
+        const error = err instanceof Error ? err : new Error(String(err));
+        failure = describeError(err);
+        const cancelled = signal?.aborted || err instanceof RunCancelledError || err instanceof BranchCancelledError;
+        if (cancelled || attempt >= attempts || !shouldRetry(policy, failure)) {
+          throw error;
         }
+        outcome = { error };
+      }
+
+      const wait = computeRetryDelay(policy, attempt, failure.retryAfterMs);
+      if (deadline !== undefined && Date.now() + wait >= deadline) {
+        log(`Attempt ${attempt}/${attempts} failed (${failure.message}); waiting ${wait}ms would pass the workflow timeout, so not retrying`);
+        if ('error' in outcome) throw outcome.error;
+        return outcome.result;
+      }
+      log(`Attempt ${attempt}/${attempts} failed (${failure.message}), retrying in ${wait}ms`);
+      let timer: NodeJS.Timeout | undefined;
+      const sleep = new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, wait);
+      });
+      try {
+        await (signal ? abortable(sleep, signal) : sleep);
+      } finally {
+        clearTimeout(timer);
       }
     }
+  }
 
-    throw lastError;
+  // Abort an in-flight run. Running steps are aborted, steps that haven't started are
+  // skipped, and the run finishes with status 'cancelled'. Returns false if the run isn't active.
+  cancel(runId: string, reason?: string): boolean {
+    const scope = this.abortScopes.get(runId);
+    if (!scope || scope.signal.aborted) return false;
+    scope.controller.abort(new RunCancelledError(reason));
+    return true;
   }
 
   getRun(id: string): WorkflowRun | undefined {
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  collectReferences,
+  evaluateExpression,
+  ExpressionError,
+  findTemplateExpressions,
+  isTruthy,
+  parseExpression,
+  replaceTemplateExpressions,
+} from './expression.js';
+
+describe('Expression language', () => {
+  const scope = {
+    trigger: { action: 'opened', count: '3', labels: ['bug', 'urgent'], draft: false },
+    steps: {
+      'fetch-stories': { data: [{ title: 'First' }, { title: 'Second' }] },
+      check: { status: 200, ok: true },
+    },
+    env: { NAME: 'World' },
+  };
+
+  it('should resolve dotted paths, hyphenated segments and indexes', () => {
+    expect(evaluateExpression('env.NAME', scope)).toBe('World');
+    expect(evaluateExpression('steps.fetch-stories.data[1].title', scope)).toBe('Second');
+    expect(evaluateExpression('steps.fetch-stories.data.0.title', scope)).toBe('First');
+    expect(evaluateExpression('trigger.labels[-1]', scope)).toBe('urgent');
+    expect(evaluateExpression('trigger.missing.deep', scope)).toBeUndefined();
+  });
+
+  it('should evaluate comparisons and boolean logic', () => {
+    expect(evaluateExpression("trigger.action == 'opened' && !trigger.draft", scope)).toBe(true);
+    expect(evaluateExpression('steps.check.status >= 400 || trigger.count > 2', scope)).toBe(true);
+    expect(evaluateExpression("'bug' in trigger.labels", scope)).toBe(true);
+    expect(evaluateExpression("'feature' not in trigger.labels", scope)).toBe(true);
+    expect(evaluateExpression('trigger.count == 3', scope)).toBe(true);
+    expect(evaluateExpression("trigger.draft ? 'draft' : 'ready'", scope)).toBe('ready');
+  });
+
+  it('should evaluate arithmetic and string concatenation', () => {
+    expect(evaluateExpression('steps.check.status / 100 + 1', scope)).toBe(3);
+    expect(evaluateExpression("'Hello, ' + env.NAME", scope)).toBe('Hello, World');
+    expect(evaluateExpression('length(trigger.labels) - 1', scope)).toBe(1);
+  });
+
+  it('should call helper functions directly and through filters', () => {
+    expect(evaluateExpression('trigger.labels | length', scope)).toBe(2);
+    expect(evaluateExpression("join(trigger.labels, ' / ')", scope)).toBe('bug / urgent');
+    expect(evaluateExpression('env.NAME | upper', scope)).toBe('WORLD');
+    expect(evaluateExpression("trigger.missing | default('n/a')", scope)).toBe('n/a');
+    expect(evaluateExpression('steps.check | json', scope)).toBe('{"status":200,"ok":true}');
+    expect(evaluateExpression("pluck(steps.fetch-stories.data, 'title') | join", scope)).toBe('First, Second');
+  });
+
+  it('should not expose prototypes or allow method calls', () => {
+    expect(evaluateExpression('env.constructor', scope)).toBeUndefined();
+    expect(evaluateExpression('env.__proto__', scope)).toBeUndefined();
+    expect(evaluateExpression('env.NAME.toString', scope)).toBeUndefined();
+    expect(() => parseExpression('env.NAME.toUpperCase()')).toThrow(ExpressionError);
+    expect(() => parseExpression('process(1)')).toThrow('Unknown function "process"');
+  });
+
+  it('should report syntax errors', () => {
+    expect(() => parseExpression("trigger.action == 'opened")).toThrow('Unterminated string');
+    expect(() => parseExpression('trigger.action ==')).toThrow(ExpressionError);
+    expect(() => parseExpression('(1 + 2')).toThrow('Expected ")"');
+  });
+
+  it('should treat "false", "0" and empty arrays as falsy', () => {
+    expect(isTruthy('false')).toBe(false);
+    expect(isTruthy('0')).toBe(false);
+    expect(isTruthy([])).toBe(false);
+    expect(isTruthy('yes')).toBe(true);
+    expect(isTruthy({})).toBe(true);
+  });
+
+  it('should collect static references', () => {
+    const node = parseExpression("steps.fetch.items[0].id == trigger.id && length(memory.blocks.ctx) > 0");
+    expect(collectReferences(node)).toEqual([
+      ['steps', 'fetch', 'items', '0', 'id'],
+      ['trigger', 'id'],
+      ['memory', 'blocks', 'ctx'],
+    ]);
+
+    const dynamic = parseExpression('steps.fetch.items[trigger.index].id');
+    expect(collectReferences(dynamic)).toEqual([
+      ['trigger', 'index'],
+      ['steps', 'fetch', 'items'],
+    ]);
+  });
+
+  it('should find expressions inside templates', () => {
+    expect(findTemplateExpressions('Hi {{ env.NAME }}, you have {{ length(trigger.labels) }} labels')).toEqual([
+      'env.NAME',
+      'length(trigger.labels)',
+    ]);
+  });
+
+  it('should leave escaped placeholders as literal text', () => {
+    const template = 'Hi {{ env.NAME }}. Reply with \\{{#each items}}\\{{ this }}{{ "{{" }}/each}}';
+
+    expect(findTemplateExpressions(template)).toEqual(['env.NAME', '"{{"']);
+    expect(replaceTemplateExpressions(template, (expression) => String(evaluateExpression(expression, scope)))).toBe(
+      'Hi World. Reply with {{#each items}}{{ this }}{{/each}}'
+    );
+  });
+});
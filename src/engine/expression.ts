@@ -0,0 +1,740 @@
+/**
+ * Sandboxed expression language used inside `{{ }}` templates and step conditions.
+ *
+ * Expressions can read values from the interpolation context (trigger, steps, env, memory...),
+ * compare and combine them, and call a fixed set of helper functions. There is no access to
+ * prototypes, globals or methods on values, so workflow authors cannot escape the sandbox.
+ *
+ *   {{ steps.fetch.items | length }}
+ *   {{ trigger.action == 'opened' && !trigger.draft }}
+ *   {{ join(pluck(steps.issues.items, 'title'), ', ') | default('none') }}
+ *
+ * Path segments after a `.` may contain hyphens (`steps.fetch-stories.data`), so subtraction
+ * needs spaces around the operator (`a - 1`).
+ */
+
+export type ExpressionNode =
+  | { type: 'literal'; value: unknown }
+  | { type: 'identifier'; name: string }
+  | { type: 'member'; object: ExpressionNode; property: string }
+  | { type: 'index'; object: ExpressionNode; index: ExpressionNode }
+  | { type: 'array'; elements: ExpressionNode[] }
+  | { type: 'unary'; operator: '!' | '-'; argument: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'logical'; operator: '&&' | '||' | '??'; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+export class ExpressionError extends Error {
+  constructor(
+    message: string,
+    public expression: string,
+    public position?: number
+  ) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+type Token =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'string'; value: string; pos: number }
+  | { type: 'identifier'; value: string; pos: number }
+  | { type: 'operator'; value: string; pos: number }
+  | { type: 'eof'; pos: number };
+
+const OPERATORS = [
+  '===', '!==', '==', '!=', '<=', '>=', '&&', '||', '??',
+  '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '(', ')', '[', ']', ',', '.', '|',
+];
+
+// Properties that could reach the prototype chain are never readable
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+const MAX_CACHE_SIZE = 500;
+const parseCache = new Map<string, ExpressionNode>();
+
+// === Helper functions ===
+
+type ExpressionFunction = (...args: unknown[]) => unknown;
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'object') {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  }
+  return String(value);
+}
+
+function toArray(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value === null || value === undefined) return [];
+  return [value];
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+const FUNCTIONS: Record<string, ExpressionFunction> = {
+  length: (value) => {
+    if (typeof value === 'string' || Array.isArray(value)) return value.length;
+    if (value && typeof value === 'object') return Object.keys(value).length;
+    return 0;
+  },
+  join: (value, separator) => toArray(value).map(toText).join(separator === undefined ? ', ' : toText(separator)),
+  split: (value, separator) => toText(value).split(separator === undefined ? ',' : toText(separator)),
+  upper: (value) => toText(value).toUpperCase(),
+  lower: (value) => toText(value).toLowerCase(),
+  trim: (value) => toText(value).trim(),
+  replace: (value, search, replacement) => toText(value).split(toText(search)).join(toText(replacement)),
+  default: (value, fallback) => (isEmpty(value) ? fallback : value),
+  json: (value, indent) => JSON.stringify(value ?? null, null, typeof indent === 'number' ? indent : undefined),
+  fromJson: (value) => {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  },
+  contains: (haystack, needle) => {
+    if (Array.isArray(haystack)) return haystack.some((item) => looseEquals(item, needle));
+    if (haystack && typeof haystack === 'object') {
+      return Object.prototype.hasOwnProperty.call(haystack, toText(needle));
+    }
+    return toText(haystack).includes(toText(needle));
+  },
+  startsWith: (value, prefix) => toText(value).startsWith(toText(prefix)),
+  endsWith: (value, suffix) => toText(value).endsWith(toText(suffix)),
+  matches: (value, pattern, flags) => {
+    try {
+      return new RegExp(toText(pattern), flags === undefined ? '' : toText(flags)).test(toText(value));
+    } catch {
+      return false;
+    }
+  },
+  keys: (value) => (value && typeof value === 'object' ? Object.keys(value) : []),
+  values: (value) => (value && typeof value === 'object' ? Object.values(value) : []),
+  first: (value) => (typeof value === 'string' ? value[0] : toArray(value)[0]),
+  last: (value) => {
+    if (typeof value === 'string') return value[value.length - 1];
+    const items = toArray(value);
+    return items[items.length - 1];
+  },
+  slice: (value, start, end) => {
+    const from = start === undefined ? undefined : Number(start);
+    const to = end === undefined ? undefined : Number(end);
+    return typeof value === 'string' ? value.slice(from, to) : toArray(value).slice(from, to);
+  },
+  pluck: (value, key) => toArray(value).map((item) => getProperty(item, toText(key))),
+  number: (value) => Number(value),
+  string: (value) => toText(value),
+  boolean: (value) => isTruthy(value),
+  round: (value, digits) => {
+    const factor = Math.pow(10, digits === undefined ? 0 : Number(digits));
+    return Math.round(Number(value) * factor) / factor;
+  },
+  floor: (value) => Math.floor(Number(value)),
+  ceil: (value) => Math.ceil(Number(value)),
+  abs: (value) => Math.abs(Number(value)),
+  min: (...args) => Math.min(...args.flatMap(toArray).map(Number)),
+  max: (...args) => Math.max(...args.flatMap(toArray).map(Number)),
+};
+
+/**
+ * Names of the helper functions callable from expressions
+ */
+export function listExpressionFunctions(): string[] {
+  return Object.keys(FUNCTIONS);
+}
+
+// === Tokenizer ===
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    const previous = tokens[tokens.length - 1];
+
+    // Path segment after `.` - allows digits first and inner hyphens (steps.fetch-stories.0)
+    if (previous?.type === 'operator' && previous.value === '.') {
+      const segment = /^[A-Za-z0-9_$]+(?:-[A-Za-z0-9_$]+)*/.exec(source.slice(pos));
+      if (!segment) {
+        throw new ExpressionError(`Expected property name at position ${pos}`, source, pos);
+      }
+      tokens.push({ type: 'identifier', value: segment[0], pos });
+      pos += segment[0].length;
+      continue;
+    }
+
+    const number = /^\d+(?:\.\d+)?/.exec(source.slice(pos));
+    if (number) {
+      tokens.push({ type: 'number', value: parseFloat(number[0]), pos });
+      pos += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(pos));
+    if (identifier) {
+      tokens.push({ type: 'identifier', value: identifier[0], pos });
+      pos += identifier[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = pos;
+      let value = '';
+      pos++;
+      while (pos < source.length && source[pos] !== char) {
+        if (source[pos] === '\\' && pos + 1 < source.length) {
+          const escaped = source[pos + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          pos += 2;
+        } else {
+          value += source[pos];
+          pos++;
+        }
+      }
+      if (pos >= source.length) {
+        throw new ExpressionError(`Unterminated string starting at position ${start}`, source, start);
+      }
+      pos++;
+      tokens.push({ type: 'string', value, pos: start });
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, pos));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, pos });
+      pos += operator.length;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character "${char}" at position ${pos}`, source, pos);
+  }
+
+  tokens.push({ type: 'eof', pos });
+  return tokens;
+}
+
+// === Parser ===
+
+class Parser {
+  private tokens: Token[];
+  private current = 0;
+
+  constructor(private source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): ExpressionNode {
+    const node = this.parseConditional();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      this.fail(`Unexpected ${this.describe(next)}`, next);
+    }
+    return node;
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseNullish();
+    if (this.matchOperator('?')) {
+      const consequent = this.parseConditional();
+      this.expectOperator(':');
+      const alternate = this.parseConditional();
+      return { type: 'conditional', test, consequent, alternate };
+    }
+    return test;
+  }
+
+  private parseNullish(): ExpressionNode {
+    let left = this.parseOr();
+    while (this.matchOperator('??')) {
+      left = { type: 'logical', operator: '??', left, right: this.parseOr() };
+    }
+    return left;
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.matchOperator('||') || this.matchKeyword('or')) {
+      left = { type: 'logical', operator: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseEquality();
+    while (this.matchOperator('&&') || this.matchKeyword('and')) {
+      left = { type: 'logical', operator: '&&', left, right: this.parseEquality() };
+    }
+    return left;
+  }
+
+  private parseEquality(): ExpressionNode {
+    let left = this.parseRelational();
+    for (;;) {
+      const token = this.peek();
+      if (token.type !== 'operator' || !['==', '!=', '===', '!=='].includes(token.value)) break;
+      this.current++;
+      const operator = token.value.startsWith('!') ? '!=' : '==';
+      left = { type: 'binary', operator, left, right: this.parseRelational() };
+    }
+    return left;
+  }
+
+  private parseRelational(): ExpressionNode {
+    let left = this.parseAdditive();
+    for (;;) {
+      const token = this.peek();
+      if (token.type === 'operator' && ['<', '<=', '>', '>='].includes(token.value)) {
+        this.current++;
+        left = { type: 'binary', operator: token.value, left, right: this.parseAdditive() };
+      } else if (this.matchKeyword('in')) {
+        left = { type: 'binary', operator: 'in', left, right: this.parseAdditive() };
+      } else if (this.isKeyword(this.peek(), 'not') && this.isKeyword(this.peek(1), 'in')) {
+        this.current += 2;
+        const inNode: ExpressionNode = { type: 'binary', operator: 'in', left, right: this.parseAdditive() };
+        left = { type: 'unary', operator: '!', argument: inNode };
+      } else {
+        break;
+      }
+    }
+    return left;
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    for (;;) {
+      const token = this.peek();
+      if (token.type !== 'operator' || (token.value !== '+' && token.value !== '-')) break;
+      this.current++;
+      left = { type: 'binary', operator: token.value, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    for (;;) {
+      const token = this.peek();
+      if (token.type !== 'operator' || !['*', '/', '%'].includes(token.value)) break;
+      this.current++;
+      left = { type: 'binary', operator: token.value, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.matchOperator('!') || this.matchKeyword('not')) {
+      return { type: 'unary', operator: '!', argument: this.parseUnary() };
+    }
+    if (this.matchOperator('-')) {
+      return { type: 'unary', operator: '-', argument: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+    for (;;) {
+      if (this.matchOperator('.')) {
+        const property = this.next();
+        if (property.type !== 'identifier') {
+          this.fail('Expected property name after "."', property);
+        }
+        node = { type: 'member', object: node, property: property.value };
+      } else if (this.matchOperator('[')) {
+        const index = this.parseConditional();
+        this.expectOperator(']');
+        node = { type: 'index', object: node, index };
+      } else if (this.matchOperator('|')) {
+        // Filter syntax: `value | join(', ')` is sugar for `join(value, ', ')`
+        const name = this.next();
+        if (name.type !== 'identifier') {
+          this.fail('Expected function name after "|"', name);
+        }
+        const args = this.checkOperator('(') ? this.parseArguments() : [];
+        node = this.makeCall(name, [node, ...args]);
+      } else if (this.checkOperator('(')) {
+        this.fail('Only built-in functions can be called', this.peek());
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+
+      case 'identifier': {
+        if (token.value === 'true') return { type: 'literal', value: true };
+        if (token.value === 'false') return { type: 'literal', value: false };
+        if (token.value === 'null') return { type: 'literal', value: null };
+        if (token.value === 'undefined') return { type: 'literal', value: undefined };
+        if (this.checkOperator('(')) {
+          return this.makeCall(token, this.parseArguments());
+        }
+        return { type: 'identifier', name: token.value };
+      }
+
+      case 'operator': {
+        if (token.value === '(') {
+          const node = this.parseConditional();
+          this.expectOperator(')');
+          return node;
+        }
+        if (token.value === '[') {
+          const elements: ExpressionNode[] = [];
+          if (!this.matchOperator(']')) {
+            do {
+              elements.push(this.parseConditional());
+            } while (this.matchOperator(','));
+            this.expectOperator(']');
+          }
+          return { type: 'array', elements };
+        }
+        break;
+      }
+    }
+
+    return this.fail(`Unexpected ${this.describe(token)}`, token);
+  }
+
+  private parseArguments(): ExpressionNode[] {
+    this.expectOperator('(');
+    const args: ExpressionNode[] = [];
+    if (this.matchOperator(')')) return args;
+    do {
+      args.push(this.parseConditional());
+    } while (this.matchOperator(','));
+    this.expectOperator(')');
+    return args;
+  }
+
+  private makeCall(name: Token & { type: 'identifier' }, args: ExpressionNode[]): ExpressionNode {
+    if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, name.value)) {
+      this.fail(`Unknown function "${name.value}"`, name);
+    }
+    return { type: 'call', name: name.value, args };
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.current + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.current++;
+    return token;
+  }
+
+  private checkOperator(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && token.value === value;
+  }
+
+  private matchOperator(value: string): boolean {
+    if (!this.checkOperator(value)) return false;
+    this.current++;
+    return true;
+  }
+
+  private isKeyword(token: Token, keyword: string): boolean {
+    return token.type === 'identifier' && token.value === keyword;
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    if (!this.isKeyword(this.peek(), keyword)) return false;
+    this.current++;
+    return true;
+  }
+
+  private expectOperator(value: string): void {
+    if (!this.matchOperator(value)) {
+      this.fail(`Expected "${value}" but found ${this.describe(this.peek())}`, this.peek());
+    }
+  }
+
+  private describe(token: Token): string {
+    if (token.type === 'eof') return 'end of expression';
+    return `"${String(token.value)}" at position ${token.pos}`;
+  }
+
+  private fail(message: string, token: Token): never {
+    throw new ExpressionError(message, this.source, token.pos);
+  }
+}
+
+/**
+ * Parse an expression into an AST. Results are cached by source text.
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const cached = parseCache.get(source);
+  if (cached) return cached;
+
+  if (source.trim() === '') {
+    throw new ExpressionError('Empty expression', source, 0);
+  }
+
+  const node = new Parser(source).parse();
+  if (parseCache.size >= MAX_CACHE_SIZE) {
+    parseCache.clear();
+  }
+  parseCache.set(source, node);
+  return node;
+}
+
+// === Evaluator ===
+
+function getProperty(value: unknown, key: string | number): unknown {
+  if (value === null || value === undefined) return undefined;
+  if (typeof key === 'string' && BLOCKED_PROPERTIES.has(key)) return undefined;
+
+  if (typeof value === 'string' || Array.isArray(value)) {
+    if (key === 'length') return value.length;
+    const index = typeof key === 'number' ? key : /^-?\d+$/.test(key) ? parseInt(key, 10) : NaN;
+    if (Number.isNaN(index)) return undefined;
+    // Negative indexes count from the end (items[-1])
+    return value[index < 0 ? value.length + index : index];
+  }
+
+  if (typeof value === 'object') {
+    const name = String(key);
+    return Object.prototype.hasOwnProperty.call(value, name)
+      ? (value as Record<string, unknown>)[name]
+      : undefined;
+  }
+
+  return undefined;
+}
+
+function looseEquals(left: unknown, right: unknown): boolean {
+  if (left === right) return true;
+  if (left === null || left === undefined || right === null || right === undefined) {
+    return (left === null || left === undefined) && (right === null || right === undefined);
+  }
+  if (typeof left === 'object' || typeof right === 'object') {
+    return toText(left) === toText(right);
+  }
+  // Allow "42" == 42 and "true" == true, which is common with string trigger data
+  return String(left) === String(right);
+}
+
+function compare(left: unknown, right: unknown): number {
+  const leftNumber = typeof left === 'number' ? left : Number(left);
+  const rightNumber = typeof right === 'number' ? right : Number(right);
+  if (
+    left !== '' && right !== '' && left !== null && right !== null &&
+    !Number.isNaN(leftNumber) && !Number.isNaN(rightNumber)
+  ) {
+    return leftNumber - rightNumber;
+  }
+  return toText(left).localeCompare(toText(right));
+}
+
+/**
+ * Truthiness used by conditions. Besides the usual falsy values, the strings
+ * "false" and "0" and empty arrays are treated as false.
+ */
+export function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed !== '' && trimmed !== 'false' && trimmed !== '0';
+  }
+  if (typeof value === 'number') return value !== 0 && !Number.isNaN(value);
+  return Boolean(value);
+}
+
+function evaluateNode(node: ExpressionNode, scope: Record<string, unknown>): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'identifier':
+      return getProperty(scope, node.name);
+
+    case 'member':
+      return getProperty(evaluateNode(node.object, scope), node.property);
+
+    case 'index': {
+      const index = evaluateNode(node.index, scope);
+      if (typeof index !== 'string' && typeof index !== 'number') return undefined;
+      return getProperty(evaluateNode(node.object, scope), index);
+    }
+
+    case 'array':
+      return node.elements.map((element) => evaluateNode(element, scope));
+
+    case 'unary': {
+      const argument = evaluateNode(node.argument, scope);
+      return node.operator === '!' ? !isTruthy(argument) : -Number(argument);
+    }
+
+    case 'logical': {
+      const left = evaluateNode(node.left, scope);
+      if (node.operator === '&&') return isTruthy(left) ? evaluateNode(node.right, scope) : left;
+      if (node.operator === '||') return isTruthy(left) ? left : evaluateNode(node.right, scope);
+      return left === null || left === undefined ? evaluateNode(node.right, scope) : left;
+    }
+
+    case 'conditional':
+      return isTruthy(evaluateNode(node.test, scope))
+        ? evaluateNode(node.consequent, scope)
+        : evaluateNode(node.alternate, scope);
+
+    case 'call': {
+      const args = node.args.map((arg) => evaluateNode(arg, scope));
+      return FUNCTIONS[node.name](...args);
+    }
+
+    case 'binary': {
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+      switch (node.operator) {
+        case '==': return looseEquals(left, right);
+        case '!=': return !looseEquals(left, right);
+        case '<': return compare(left, right) < 0;
+        case '<=': return compare(left, right) <= 0;
+        case '>': return compare(left, right) > 0;
+        case '>=': return compare(left, right) >= 0;
+        case 'in': return FUNCTIONS.contains(right, left);
+        case '+':
+          if (Array.isArray(left) && Array.isArray(right)) return [...left, ...right];
+          if (typeof left === 'number' && typeof right === 'number') return left + right;
+          if (typeof left === 'string' || typeof right === 'string') return toText(left) + toText(right);
+          return Number(left) + Number(right);
+        case '-': return Number(left) - Number(right);
+        case '*': return Number(left) * Number(right);
+        case '/': return Number(left) / Number(right);
+        case '%': return Number(left) % Number(right);
+      }
+      throw new ExpressionError(`Unknown operator "${node.operator}"`, '');
+    }
+  }
+}
+
+/**
+ * Evaluate an expression (source text or parsed AST) against a scope of variables
+ */
+export function evaluateExpression(expression: string | ExpressionNode, scope: Record<string, unknown>): unknown {
+  const node = typeof expression === 'string' ? parseExpression(expression) : expression;
+  return evaluateNode(node, scope);
+}
+
+// A `{{ }}` placeholder; one preceded by a backslash, `\{{ text }}`, is literal text
+const TEMPLATE_PATTERN = /(\\?)\{\{([\s\S]+?)\}\}/g;
+
+/**
+ * Return the expressions inside every `{{ }}` placeholder of a template string, skipping escaped ones
+ */
+export function findTemplateExpressions(template: string): string[] {
+  const expressions: string[] = [];
+  for (const match of template.matchAll(TEMPLATE_PATTERN)) {
+    if (!match[1]) expressions.push(match[2].trim());
+  }
+  return expressions;
+}
+
+/**
+ * If the template is exactly one `{{ expr }}` placeholder, return its expression
+ */
+export function matchSingleExpression(template: string): string | null {
+  const match = /^\s*\{\{((?:(?!\}\})[\s\S])+)\}\}\s*$/.exec(template);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Replace every `{{ expr }}` placeholder with the result of `render(expr)`; `\{{ text }}` becomes `{{ text }}`
+ */
+export function replaceTemplateExpressions(template: string, render: (expression: string) => string): string {
+  return template.replace(TEMPLATE_PATTERN, (_, escape: string, expression: string) =>
+    escape ? `{{${expression}}}` : render(expression.trim())
+  );
+}
+
+/**
+ * Collect the static variable paths an expression reads, e.g. `steps.fetch.items[0]`
+ * yields `['steps', 'fetch', 'items', '0']`. Dynamic indexes end the path.
+ */
+export function collectReferences(node: ExpressionNode): string[][] {
+  const references: string[][] = [];
+
+  const visit = (current: ExpressionNode): void => {
+    switch (current.type) {
+      case 'identifier':
+      case 'member':
+      case 'index': {
+        const path: string[] = [];
+        let cursor: ExpressionNode = current;
+        for (;;) {
+          if (cursor.type === 'member') {
+            path.unshift(cursor.property);
+            cursor = cursor.object;
+          } else if (cursor.type === 'index') {
+            if (cursor.index.type === 'literal') {
+              path.unshift(String(cursor.index.value));
+            } else {
+              // Path is only known up to the dynamic index
+              path.length = 0;
+              visit(cursor.index);
+            }
+            cursor = cursor.object;
+          } else {
+            break;
+          }
+        }
+        if (cursor.type === 'identifier') {
+          references.push([cursor.name, ...path]);
+        } else {
+          visit(cursor);
+        }
+        break;
+      }
+      case 'array':
+        current.elements.forEach(visit);
+        break;
+      case 'unary':
+        visit(current.argument);
+        break;
+      case 'binary':
+      case 'logical':
+        visit(current.left);
+        visit(current.right);
+        break;
+      case 'conditional':
+        visit(current.test);
+        visit(current.consequent);
+        visit(current.alternate);
+        break;
+      case 'call':
+        current.args.forEach(visit);
+        break;
+      case 'literal':
+        break;
+    }
+  };
+
+  visit(node);
+  return references;
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { resolveWorkflowInputs, WorkflowInputError } from './inputs.js';
+import type { WorkflowInput } from '../types/index.js';
+
+describe('resolveWorkflowInputs', () => {
+  const inputs: WorkflowInput[] = [
+    { name: 'repo', type: 'string', required: true },
+    { name: 'limit', type: 'number', default: 10 },
+    { name: 'dryRun', type: 'boolean', default: false },
+    { name: 'env', type: 'string', enum: ['staging', 'production'], default: 'staging' },
+    { name: 'labels', type: 'array' },
+  ];
+
+  it('should apply defaults and pass through undeclared keys', () => {
+    expect(resolveWorkflowInputs(inputs, { repo: 'weavr', extra: 1 })).toEqual({
+      repo: 'weavr',
+      limit: 10,
+      dryRun: false,
+      env: 'staging',
+      extra: 1,
+    });
+  });
+
+  it('should coerce string values to the declared types', () => {
+    const resolved = resolveWorkflowInputs(inputs, {
+      repo: 'weavr',
+      limit: '25',
+      dryRun: 'true',
+      labels: '["bug"]',
+    });
+    expect(resolved).toMatchObject({ limit: 25, dryRun: true, labels: ['bug'] });
+  });
+
+  it('should report every invalid input', () => {
+    try {
+      resolveWorkflowInputs(inputs, { limit: 'many', env: 'dev', labels: '{}' });
+      expect.fail('Expected resolveWorkflowInputs to throw');
+    } catch (err) {
+      expect(err).toBeInstanceOf(WorkflowInputError);
+      expect((err as WorkflowInputError).issues).toEqual([
+        'Missing required input "repo"',
+        'Input "limit" must be a number',
+        'Input "env" must be one of: staging, production',
+        'Input "labels" must be an array',
+      ]);
+    }
+  });
+
+  it('should reject non-object data', () => {
+    expect(() => resolveWorkflowInputs(inputs, 'weavr')).toThrow('Workflow inputs must be an object');
+  });
+});
@@ -0,0 +1,111 @@
+import type { WorkflowInput } from '../types/index.js';
+
+export class WorkflowInputError extends Error {
+  constructor(message: string, public issues: string[]) {
+    super(message);
+    this.name = 'WorkflowInputError';
+  }
+}
+
+/**
+ * Validates run data against a workflow's declared inputs.
+ * Defaults are applied and string values (from the CLI or forms) are coerced
+ * to the declared type; keys that aren't declared are passed through as-is.
+ */
+export function resolveWorkflowInputs(
+  definitions: WorkflowInput[],
+  data: unknown
+): Record<string, unknown> {
+  if (data !== undefined && data !== null && (typeof data !== 'object' || Array.isArray(data))) {
+    throw new WorkflowInputError('Workflow inputs must be an object', ['Workflow inputs must be an object']);
+  }
+
+  const resolved: Record<string, unknown> = { ...(data as Record<string, unknown> | undefined) };
+  const issues: string[] = [];
+
+  for (const definition of definitions) {
+    let value = resolved[definition.name];
+    if (value === undefined || value === '') {
+      value = definition.default;
+    }
+
+    if (value === undefined || value === null) {
+      if (definition.required) {
+        issues.push(`Missing required input "${definition.name}"`);
+      }
+      delete resolved[definition.name];
+      continue;
+    }
+
+    try {
+      resolved[definition.name] = coerceWorkflowInput(definition, value);
+    } catch (err) {
+      issues.push(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new WorkflowInputError(`Invalid workflow inputs: ${issues.join('; ')}`, issues);
+  }
+  return resolved;
+}
+
+/**
+ * Converts a single value to the input's declared type and checks its enum
+ */
+export function coerceWorkflowInput(definition: WorkflowInput, value: unknown): unknown {
+  const coerced = coerceToType(definition, value);
+
+  if (definition.enum && !definition.enum.some((option) => option === coerced)) {
+    throw new Error(
+      `Input "${definition.name}" must be one of: ${definition.enum.map((option) => String(option)).join(', ')}`
+    );
+  }
+  return coerced;
+}
+
+function coerceToType(definition: WorkflowInput, value: unknown): unknown {
+  const { name, type } = definition;
+
+  switch (type) {
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || Number.isNaN(number)) {
+        throw new Error(`Input "${name}" must be a number`);
+      }
+      return number;
+    }
+
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      if (value === 'true') return true;
+      if (value === 'false') return false;
+      throw new Error(`Input "${name}" must be a boolean`);
+    }
+
+    case 'object':
+    case 'array': {
+      let parsed = value;
+      if (typeof value === 'string') {
+        try {
+          parsed = JSON.parse(value);
+        } catch {
+          throw new Error(`Input "${name}" must be ${type === 'array' ? 'an array' : 'an object'} (invalid JSON)`);
+        }
+      }
+      const isArray = Array.isArray(parsed);
+      if (type === 'array' ? !isArray : (isArray || parsed === null || typeof parsed !== 'object')) {
+        throw new Error(`Input "${name}" must be ${type === 'array' ? 'an array' : 'an object'}`);
+      }
+      return parsed;
+    }
+
+    default: {
+      if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+      if (typeof value !== 'string') {
+        throw new Error(`Input "${name}" must be a string`);
+      }
+      return value;
+    }
+  }
+}
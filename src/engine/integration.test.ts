@@ -298,6 +298,65 @@ steps:
       expect(attempts).toBe(3);
     });
 
+    it('should only retry failures matching retry.on', async () => {
+      const yaml = `
+name: retry-filter-test
+trigger:
+  type: manual
+steps:
+  - id: fetch
+    action: test.fetch
+    retry:
+      attempts: 3
+      delay: 10
+      backoff: exponential
+      on:
+        status: [429, "5xx"]
+  - id: auth
+    action: test.auth
+    needs: [fetch]
+    retry:
+      attempts: 3
+      delay: 10
+      on:
+        status: [429]
+`;
+      const workflow = parseWorkflow(yaml);
+      const statuses = [503, 429, 200];
+      let fetchCalls = 0;
+      let authCalls = 0;
+      registerMockPlugin({
+        name: 'test',
+        version: '1.0.0',
+        description: 'Test plugin',
+        actions: [
+          {
+            name: 'fetch',
+            description: 'Returns an HTTP-style response',
+            execute: async () => {
+              const status = statuses[fetchCalls++];
+              return { ok: status < 400, status, headers: {}, data: null };
+            },
+          },
+          {
+            name: 'auth',
+            description: 'Throws a non-retryable error',
+            execute: async () => {
+              authCalls++;
+              throw Object.assign(new Error('Unauthorized'), { status: 401 });
+            },
+          },
+        ],
+      });
+
+      const result = await executor.execute(workflow);
+
+      expect(fetchCalls).toBe(3);
+      expect(result.steps.get('fetch')?.output).toMatchObject({ ok: true, status: 200 });
+      expect(authCalls).toBe(1);
+      expect(result.steps.get('auth')?.status).toBe('failed');
+    });
+
     it('should timeout long-running steps', async () => {
       const yaml = `
 name: timeout-test
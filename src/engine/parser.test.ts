@@ -97,4 +97,31 @@ steps:
     expect(result.valid).toBe(false);
     expect(result.errors).toBeDefined();
   });
+
+  it('should transform error handler steps', () => {
+    const yaml = `
+name: handlers
+steps:
+  - id: fetch
+    action: http.get
+    with:
+      url: https://example.com
+    on_error:
+      - id: alert
+        action: slack.post
+        with:
+          text: "Fetch failed: {{ error.message }}"
+on_failure:
+  - id: page
+    action: log
+    with:
+      message: Run failed
+`;
+
+    const workflow = parser.parse(yaml);
+
+    expect(workflow.steps[0].on_error?.[0].config).toEqual({ text: 'Fetch failed: {{ error.message }}' });
+    expect(workflow.on_failure?.[0].config).toEqual({ message: 'Run failed' });
+    expect(workflow.on_failure?.[0].depends_on).toEqual([]);
+  });
 });
@@ -14,44 +14,46 @@ export class WorkflowParser {
   private transform(raw: Record<string, unknown>): Record<string, unknown> {
     const result = { ...raw };
 
-    // Transform 'with' -> 'config' in steps
+    // Transform 'with' -> 'config' in steps and error handlers
     if (Array.isArray(raw.steps)) {
       result.steps = raw.steps.map((step: Record<string, unknown>) => {
-        const s = { ...step };
-        // Convert 'with' to 'config'
-        if ('with' in s) {
-          s.config = s.with;
-          delete s.with;
-        }
-        // Convert 'needs' to 'depends_on'
-        if ('needs' in s) {
-          s.depends_on = s.needs;
-          delete s.needs;
+        const s = this.transformStep(step);
+        if (Array.isArray(s.on_error)) {
+          s.on_error = s.on_error.map((handler: Record<string, unknown>) => this.transformStep(handler));
         }
         return s;
       });
     }
+    if (Array.isArray(raw.on_failure)) {
+      result.on_failure = raw.on_failure.map((step: Record<string, unknown>) => this.transformStep(step));
+    }
 
     // Transform trigger
     if (raw.trigger && typeof raw.trigger === 'object') {
-      const trigger = raw.trigger as Record<string, unknown>;
-      if ('with' in trigger) {
-        result.triggers = [{
-          type: trigger.type,
-          config: trigger.with,
-        }];
-      } else {
-        result.triggers = [{
-          type: trigger.type,
-          config: trigger.config,
-        }];
-      }
+      // Keep the type and trigger-level options (priority, debounce, ...) next to the config
+      const { with: withConfig, config, ...options } = raw.trigger as Record<string, unknown>;
+      result.triggers = [{ ...options, config: withConfig ?? config }];
       delete result.trigger;
     }
 
     return result;
   }
 
+  private transformStep(step: Record<string, unknown>): Record<string, unknown> {
+    const s = { ...step };
+    // Convert 'with' to 'config'
+    if ('with' in s) {
+      s.config = s.with;
+      delete s.with;
+    }
+    // Convert 'needs' to 'depends_on'
+    if ('needs' in s) {
+      s.depends_on = s.needs;
+      delete s.needs;
+    }
+    return s;
+  }
+
   validate(workflow: unknown): { valid: boolean; errors?: string[] } {
     const result = WorkflowSchema.safeParse(workflow);
 
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import type { Workflow } from '../types/index.js';
+import { findPolicyViolations, privilegedActionsUsed, stepActions } from './policy.js';
+
+describe('workflow action policy', () => {
+  it('should treat an ai.agent step with the shell tool as using shell.exec', () => {
+    expect(stepActions({ id: 'a', action: 'ai.agent', config: { task: 'x' }, depends_on: [] })).toEqual(['ai.agent', 'shell.exec']);
+    expect(stepActions({ id: 'a', action: 'ai.agent', config: { tools: ['web_search', 'shell'] }, depends_on: [] })).toEqual(['ai.agent', 'shell.exec']);
+    expect(stepActions({ id: 'a', action: 'ai.agent', config: { tools: ['web_search'] }, depends_on: [] })).toEqual(['ai.agent']);
+    expect(stepActions({ id: 'a', action: 'ai.agent', config: { tools: [' shell'] }, depends_on: [] })).toEqual(['ai.agent', 'shell.exec']);
+    expect(stepActions({ id: 'a', action: 'ai.agent', config: { tools: ['ALL '] }, depends_on: [] })).toEqual(['ai.agent', 'shell.exec']);
+    expect(stepActions({ id: 'a', action: 'ai.agent', config: { tools: ["{{ 'shell' }}"] }, depends_on: [] })).toEqual(['ai.agent', 'shell.exec']);
+    expect(stepActions({ id: 'a', action: 'transform', config: { template: 'x' }, depends_on: [] })).toEqual([]);
+  });
+
+  it('should report privileged actions and steps outside the policy, including handlers', () => {
+    const workflow: Workflow = {
+      name: 'cleanup',
+      policy: { actions: ['http.*', 'filesystem.delete'] },
+      steps: [
+        { id: 'fetch', action: 'http.request', config: {}, depends_on: [] },
+        {
+          id: 'remove',
+          action: 'filesystem.delete',
+          config: {},
+          depends_on: ['fetch'],
+          on_error: [{ id: 'alert', action: 'slack.post', config: {} }],
+        },
+      ],
+      on_failure: [{ id: 'debug', action: 'shell.exec', config: {} }],
+    };
+
+    expect(findPolicyViolations(workflow)).toEqual([
+      { stepId: 'alert', action: 'slack.post' },
+      { stepId: 'debug', action: 'shell.exec' },
+    ]);
+    expect(privilegedActionsUsed(workflow).map((use) => use.stepId)).toEqual(['remove', 'debug']);
+  });
+});
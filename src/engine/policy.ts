@@ -0,0 +1,83 @@
+import type { HandlerStep, Step, Workflow } from '../types/index.js';
+
+// Actions that can run arbitrary commands or destroy data. Only admins may deploy workflows that use them.
+export const PRIVILEGED_ACTIONS = ['shell.*', 'filesystem.delete'];
+
+// Executor built-ins don't reach plugins, so a policy never has to list them
+const BUILTIN_ACTIONS = new Set(['transform', 'log', 'delay', 'condition', 'workflow.call', 'approval.request', 'join']);
+
+// ai.agent tool names that give the agent a shell (it gets every tool when `tools` isn't set)
+const AGENT_SHELL_TOOLS = new Set(['shell', 'shell_exec', 'all']);
+
+export class PolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PolicyError';
+  }
+}
+
+export interface StepActionUse {
+  stepId: string;
+  action: string;
+}
+
+// `*` matches everything, `plugin.*` matches every action of a plugin, anything else must match exactly
+export function matchesActionPattern(action: string, pattern: string): boolean {
+  if (pattern === '*') return true;
+  if (pattern.endsWith('.*')) return action.startsWith(pattern.slice(0, -1));
+  return action === pattern;
+}
+
+export function isPrivilegedAction(action: string): boolean {
+  return PRIVILEGED_ACTIONS.some((pattern) => matchesActionPattern(action, pattern));
+}
+
+// A `tools` value that's only known at run time is assumed to include the shell
+function agentHasShell(tools: unknown): boolean {
+  if (tools === undefined || tools === null) return true;
+  if (typeof tools === 'string') {
+    return tools.includes('{{') || tools.split(',').some((tool) => AGENT_SHELL_TOOLS.has(tool.trim().toLowerCase()));
+  }
+  if (!Array.isArray(tools)) return true;
+  return tools.some((tool) => {
+    const name = String(tool).trim().toLowerCase();
+    return typeof tool !== 'string' || name.includes('{{') || AGENT_SHELL_TOOLS.has(name);
+  });
+}
+
+// The plugin actions a step can reach; an ai.agent step with the shell tool also counts as using `shell.exec`
+export function stepActions(step: Step | HandlerStep): string[] {
+  if (BUILTIN_ACTIONS.has(step.action)) return [];
+  if (step.action === 'ai.agent' && agentHasShell(step.config?.tools)) return ['ai.agent', 'shell.exec'];
+  return [step.action];
+}
+
+// Every step, on_error handler and on_failure handler in the workflow, with the actions it uses
+export function workflowActions(workflow: Workflow): StepActionUse[] {
+  const steps: Array<Step | HandlerStep> = [
+    ...workflow.steps.flatMap((step) => [step, ...(step.on_error ?? [])]),
+    ...(workflow.on_failure ?? []),
+  ];
+  return steps.flatMap((step) => stepActions(step).map((action) => ({ stepId: step.id, action })));
+}
+
+export function privilegedActionsUsed(workflow: Workflow): StepActionUse[] {
+  return workflowActions(workflow).filter((use) => isPrivilegedAction(use.action));
+}
+
+// Without a policy a workflow may use any action
+export function isActionAllowed(workflow: Workflow, action: string): boolean {
+  const allowed = workflow.policy?.actions;
+  return !allowed || allowed.some((pattern) => matchesActionPattern(action, pattern));
+}
+
+export function findPolicyViolations(workflow: Workflow): StepActionUse[] {
+  return workflowActions(workflow).filter((use) => !isActionAllowed(workflow, use.action));
+}
+
+export function assertStepAllowed(workflow: Workflow, step: Step | HandlerStep): void {
+  const denied = stepActions(step).find((action) => !isActionAllowed(workflow, action));
+  if (denied) {
+    throw new PolicyError(`Action "${denied}" is not allowed by the policy of workflow "${workflow.name}"`);
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeRetryDelay,
+  describeError,
+  describeHttpOutput,
+  parseRetryAfter,
+  shouldRetry,
+  type RetryPolicy,
+} from './retry.js';
+
+const policy = (overrides: Partial<RetryPolicy> = {}): RetryPolicy => ({
+  attempts: 3,
+  delay: 1000,
+  backoff: 'linear',
+  ...overrides,
+});
+
+describe('computeRetryDelay', () => {
+  it('should grow linearly by default and exponentially when asked', () => {
+    expect([1, 2, 3].map((n) => computeRetryDelay(policy(), n))).toEqual([1000, 2000, 3000]);
+    expect([1, 2, 3].map((n) => computeRetryDelay(policy({ backoff: 'exponential' }), n))).toEqual([1000, 2000, 4000]);
+  });
+
+  it('should cap, jitter and honor Retry-After', () => {
+    const capped = policy({ backoff: 'exponential', max_delay: 3000 });
+    expect(computeRetryDelay(capped, 5)).toBe(3000);
+    expect(computeRetryDelay({ ...capped, jitter: true }, 5, undefined, () => 0)).toBe(1500);
+    expect(computeRetryDelay({ ...capped, jitter: true }, 5, undefined, () => 1)).toBe(3000);
+    expect(computeRetryDelay(policy(), 1, 10_000)).toBe(10_000);
+    expect(computeRetryDelay(capped, 1, 60 * 60 * 1000)).toBe(3000);
+  });
+});
+
+describe('shouldRetry', () => {
+  it('should retry every error when no filters are given', () => {
+    expect(shouldRetry(policy(), describeError(new Error('boom')))).toBe(true);
+  });
+
+  it('should match status codes, timeouts and message patterns', () => {
+    const filtered = policy({ on: { status: [429, '5xx'], timeout: true, message: 'ECONNRESET' } });
+
+    expect(shouldRetry(filtered, describeError(Object.assign(new Error('x'), { status: 503 })))).toBe(true);
+    expect(shouldRetry(filtered, describeError(Object.assign(new Error('x'), { statusCode: 429 })))).toBe(true);
+    expect(shouldRetry(filtered, describeError(Object.assign(new Error('x'), { status: 404 })))).toBe(false);
+    expect(shouldRetry(filtered, describeError(new Error('Request timed out after 100ms')))).toBe(true);
+    expect(shouldRetry(filtered, describeError(new Error('read ECONNRESET')))).toBe(true);
+    expect(shouldRetry(filtered, describeError(new Error('Invalid token')))).toBe(false);
+  });
+});
+
+describe('describeHttpOutput', () => {
+  it('should describe failed responses and ignore everything else', () => {
+    expect(describeHttpOutput({ ok: true, status: 200 })).toBeNull();
+    expect(describeHttpOutput('text')).toBeNull();
+    expect(describeHttpOutput({ ok: false, status: 429, statusText: 'Too Many Requests', headers: { 'retry-after': '2' } }))
+      .toEqual({ message: 'HTTP 429 Too Many Requests', status: 429, timedOut: false, retryAfterMs: 2000 });
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should read headers and rate limit messages', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(undefined, 'Please try again in 938ms')).toBe(938);
+    expect(parseRetryAfter(undefined, 'Please try again in 1.5s')).toBe(1500);
+    expect(parseRetryAfter(undefined, 'nothing here')).toBe(0);
+  });
+});
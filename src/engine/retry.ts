@@ -0,0 +1,130 @@
+import type { Step } from '../types/index.js';
+
+export type RetryPolicy = NonNullable<Step['retry']>;
+
+// What the retry loop knows about a failed attempt
+export interface RetryableFailure {
+  message: string;
+  status?: number;
+  timedOut: boolean;
+  retryAfterMs?: number;
+}
+
+const TIMEOUT_PATTERN = /timed out|timeout/i;
+
+// Describe a thrown error. Plugins can attach `status` (or `statusCode`) and
+// `retryAfterMs` to their errors so retry.on.status and rate limits apply.
+export function describeError(err: unknown): RetryableFailure {
+  const message = err instanceof Error ? err.message : String(err);
+  const fields = (typeof err === 'object' && err !== null ? err : {}) as Record<string, unknown>;
+  const status = typeof fields.status === 'number'
+    ? fields.status
+    : typeof fields.statusCode === 'number' ? fields.statusCode : undefined;
+  const name = err instanceof Error ? err.name : '';
+
+  return {
+    message,
+    status,
+    timedOut: name === 'AbortError' || name === 'TimeoutError' || TIMEOUT_PATTERN.test(message),
+    retryAfterMs: typeof fields.retryAfterMs === 'number'
+      ? fields.retryAfterMs
+      : parseRetryAfter(undefined, message) || undefined,
+  };
+}
+
+// Describe an HTTP-style action output ({ ok: false, status, headers }), as returned
+// by http.request for non-2xx responses. Returns null for anything else.
+export function describeHttpOutput(output: unknown): RetryableFailure | null {
+  if (typeof output !== 'object' || output === null) return null;
+  const { ok, status, statusText, headers } = output as Record<string, unknown>;
+  if (ok !== false || typeof status !== 'number') return null;
+
+  const retryAfter = typeof headers === 'object' && headers !== null
+    ? (headers as Record<string, unknown>)['retry-after']
+    : undefined;
+
+  return {
+    message: `HTTP ${status}${statusText ? ` ${statusText}` : ''}`,
+    status,
+    timedOut: false,
+    retryAfterMs: parseRetryAfter(typeof retryAfter === 'string' ? retryAfter : undefined) || undefined,
+  };
+}
+
+// Match a status against patterns like 429 or "5xx"
+export function matchesStatus(patterns: Array<number | string>, status: number): boolean {
+  return patterns.some((pattern) => {
+    if (typeof pattern === 'number') return pattern === status;
+    const match = pattern.match(/^([1-5])xx$/i);
+    return match ? Math.floor(status / 100) === Number(match[1]) : Number(pattern) === status;
+  });
+}
+
+// Without `on`, every thrown error is retried. With it, a failure is retried
+// when it matches any of the listed filters.
+export function shouldRetry(policy: RetryPolicy, failure: RetryableFailure): boolean {
+  const filters = policy.on;
+  if (!filters) return true;
+
+  if (filters.status && failure.status !== undefined && matchesStatus(filters.status, failure.status)) {
+    return true;
+  }
+  if (filters.timeout && failure.timedOut) {
+    return true;
+  }
+  if (filters.message) {
+    try {
+      if (new RegExp(filters.message, 'i').test(failure.message)) return true;
+    } catch {
+      // Invalid patterns are reported by the validator; treat them as no match here
+    }
+  }
+  return false;
+}
+
+// Delay before retry number `attempt` (1-based). Linear backoff waits delay * attempt,
+// exponential doubles each time. max_delay caps it, jitter picks a value in
+// [delay / 2, delay], and a server-provided Retry-After is never undercut, up to max_delay.
+export function computeRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number {
+  let delay = policy.backoff === 'exponential'
+    ? policy.delay * Math.pow(2, attempt - 1)
+    : policy.delay * attempt;
+
+  if (policy.max_delay !== undefined) {
+    delay = Math.min(delay, policy.max_delay);
+  }
+  if (policy.jitter) {
+    delay = delay / 2 + random() * (delay / 2);
+  }
+  if (retryAfterMs) {
+    // Rate limit resets can be an hour away; max_delay still bounds the wait
+    delay = Math.max(delay, policy.max_delay !== undefined ? Math.min(retryAfterMs, policy.max_delay) : retryAfterMs);
+  }
+  return Math.round(delay);
+}
+
+// Parse a Retry-After header (seconds or HTTP date) or a rate limit message
+// ("Please try again in 938ms") into milliseconds. Returns 0 when neither is present.
+export function parseRetryAfter(header?: string | null, message?: string): number {
+  if (header) {
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  if (message) {
+    const msMatch = message.match(/try again in (\d+)ms/i);
+    if (msMatch) return parseInt(msMatch[1], 10);
+
+    const secMatch = message.match(/try again in (\d+(?:\.\d+)?)\s*(?:s|sec|seconds)\b/i);
+    if (secMatch) return parseFloat(secMatch[1]) * 1000;
+  }
+
+  return 0;
+}
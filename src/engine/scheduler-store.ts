@@ -13,16 +13,69 @@ export interface QueuedRun {
   scheduledFor?: string | null;
 }
 
+// Depth and wait time of one named queue
+export interface QueueStats {
+  queue: string;
+  queued: number; // Due to run now; retries waiting for their backoff aren't counted
+  delayed: number; // Retries waiting for their backoff
+  running: number;
+  oldestWaitMs: number | null; // How long the longest-waiting due run has been queued
+  avgWaitMs: number | null; // Average queue time of runs claimed in the last hour
+}
+
+// A queue row left in 'running' by a gateway process that stopped mid-run
+export interface OrphanedRun extends QueuedRun {
+  startedAt: number;
+}
+
+// Output of a step that completed before the gateway stopped
+export interface RunCheckpoint {
+  id: string;
+  output?: unknown;
+  completedAt: number;
+}
+
+// A step output stored under a step's `cache:` key
+export interface StepCacheEntry {
+  key: string; // sha256 of the step action and rendered cache key
+  workflowName: string; // Workflow and step that stored the entry
+  stepId: string;
+  action: string;
+  createdAt: number;
+  expiresAt: number | null; // null when the step set no ttl
+  hits: number;
+  size: number; // Bytes of serialized output
+  output?: unknown; // Only included when a single entry is fetched
+}
+
+export interface StepCacheListOptions {
+  workflowName?: string;
+  limit?: number;
+}
+
+export interface StepIterationRecord {
+  index: number;
+  status: string;
+  duration?: number;
+  error?: string;
+  output?: unknown;
+}
+
 export interface CompletedRun {
   id: string;
   workflowName: string;
-  status: 'success' | 'failed';
+  status: 'success' | 'failed' | 'cancelled';
   startedAt: number;
   completedAt: number;
   duration: number;
   error?: string;
   triggerType?: string;
   triggerData?: unknown;
+  parentRunId?: string; // Run whose workflow.call step started this one
+  parentStepId?: string;
+  outputs?: Record<string, unknown>;
+  workflowContent?: string; // YAML the run executed, used to resume it
+  resumedFrom?: string; // Failed run whose completed steps this run reused
   logs: Array<{
     timestamp: number;
     level: 'info' | 'error' | 'success';
@@ -35,9 +88,76 @@ export interface CompletedRun {
     duration?: number;
     error?: string;
     output?: unknown;
+    iterations?: StepIterationRecord[];
+    handlerFor?: string; // Set for on_error / on_failure handler steps
   }>;
 }
 
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+export type ApprovalVia = 'web' | 'link' | 'slack' | 'telegram' | 'timeout' | 'system';
+
+export interface ApprovalChannelRefs {
+  slack?: { channel: string; ts?: string };
+  telegram?: { chatId: string; messageId?: number };
+}
+
+export interface ApprovalRecord {
+  id: string;
+  runId: string;
+  stepId: string;
+  workflowName: string;
+  message: string;
+  status: ApprovalStatus;
+  approvers?: string[]; // Identities allowed to decide; anyone when unset
+  onTimeout: 'approve' | 'reject';
+  token: string; // Per-approval secret used to sign decision links
+  channels: ApprovalChannelRefs;
+  createdAt: number;
+  expiresAt?: number;
+  decidedAt?: number;
+  approver?: string;
+  comment?: string;
+  via?: ApprovalVia;
+  // What's needed to continue the run if the gateway restarts while it waits
+  resumeState?: {
+    workflowContent?: string;
+    triggerData?: unknown;
+    completedSteps: Array<{ id: string; output?: unknown }>;
+  };
+}
+
+export interface ApprovalListOptions {
+  status?: ApprovalStatus;
+  runId?: string;
+  limit?: number;
+}
+
+// An API token for the gateway; only a hash of the token itself is stored
+export interface ApiTokenRecord {
+  id: string;
+  name: string;
+  prefix: string; // First characters of the token, to tell tokens apart in listings
+  scopes: string[];
+  createdAt: number;
+  expiresAt: number | null;
+  lastUsedAt: number | null;
+  revokedAt: number | null;
+}
+
+// A stored secret, without its value
+export interface SecretRecord {
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A secret value as it's kept on disk: AES-256-GCM ciphertext with its IV and auth tag
+export interface EncryptedSecret extends SecretRecord {
+  ciphertext: Buffer;
+  iv: Buffer;
+  authTag: Buffer;
+}
+
 export interface TokenUsageEntry {
   timestamp: number;
   inputTokens: number;
@@ -51,7 +171,7 @@ export interface RunHistoryOptions {
   page?: number;
   limit?: number;
   days?: number;
-  status?: 'success' | 'failed';
+  status?: 'success' | 'failed' | 'cancelled';
   workflowName?: string;
 }
 
@@ -83,6 +203,57 @@ export interface ChatMessage {
   timestamp: number;
 }
 
+interface ApprovalRow {
+  id: string;
+  run_id: string;
+  step_id: string;
+  workflow_name: string;
+  message: string;
+  status: string;
+  approvers: string | null;
+  on_timeout: string;
+  token: string;
+  channels: string;
+  created_at: number;
+  expires_at: number | null;
+  decided_at: number | null;
+  approver: string | null;
+  comment: string | null;
+  via: string | null;
+  resume_state: string | null;
+}
+
+interface ApiTokenRow {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string;
+  created_at: number;
+  expires_at: number | null;
+  last_used_at: number | null;
+  revoked_at: number | null;
+}
+
+interface SecretRow {
+  name: string;
+  ciphertext: Buffer;
+  iv: Buffer;
+  auth_tag: Buffer;
+  created_at: number;
+  updated_at: number;
+}
+
+interface StepCacheRow {
+  key: string;
+  workflow_name: string;
+  step_id: string;
+  action: string;
+  created_at: number;
+  expires_at: number | null;
+  hits: number;
+  size: number | null;
+}
+
 interface EnqueueRunInput {
   id: string;
   workflowName: string;
@@ -90,6 +261,11 @@ interface EnqueueRunInput {
   triggerData: unknown;
   workflowContent: string;
   scheduledFor?: string | null;
+  concurrencyGroup?: string | null; // Runs sharing a group count toward concurrencyLimit together
+  concurrencyLimit?: number | null;
+  idempotencyKey?: string | null;
+  priority?: number; // Higher is claimed first (default 0)
+  queue?: string; // Default "default"
 }
 
 export class SchedulerStore {
@@ -218,20 +394,128 @@ export class SchedulerStore {
       );
 
       CREATE INDEX IF NOT EXISTS chat_messages_session_idx ON chat_messages (session_id, timestamp);
+
+      -- Approval gates that pause a run until someone decides
+      CREATE TABLE IF NOT EXISTS approvals (
+        id TEXT PRIMARY KEY,
+        run_id TEXT NOT NULL,
+        step_id TEXT NOT NULL,
+        workflow_name TEXT NOT NULL,
+        message TEXT NOT NULL,
+        status TEXT NOT NULL,
+        approvers TEXT,
+        on_timeout TEXT NOT NULL,
+        token TEXT NOT NULL,
+        channels TEXT NOT NULL DEFAULT '{}',
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER,
+        decided_at INTEGER,
+        approver TEXT,
+        comment TEXT,
+        via TEXT,
+        resume_state TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS approvals_status_idx ON approvals (status, created_at);
+      CREATE INDEX IF NOT EXISTS approvals_run_idx ON approvals (run_id);
+
+      -- Steps completed by runs still in progress, used to recover them after a restart
+      CREATE TABLE IF NOT EXISTS run_checkpoints (
+        run_id TEXT NOT NULL,
+        step_id TEXT NOT NULL,
+        output TEXT,
+        completed_at INTEGER NOT NULL,
+        PRIMARY KEY (run_id, step_id)
+      );
+
+      -- Step outputs reused across runs by steps with a cache key
+      CREATE TABLE IF NOT EXISTS step_cache (
+        key TEXT PRIMARY KEY,
+        workflow_name TEXT NOT NULL,
+        step_id TEXT NOT NULL,
+        action TEXT NOT NULL,
+        output TEXT,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER,
+        hits INTEGER NOT NULL DEFAULT 0
+      );
+
+      CREATE INDEX IF NOT EXISTS step_cache_workflow_idx ON step_cache (workflow_name, created_at);
+
+      -- Hashed API tokens for the gateway REST API and WebSocket
+      CREATE TABLE IF NOT EXISTS api_tokens (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        prefix TEXT NOT NULL,
+        scopes TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER,
+        last_used_at INTEGER,
+        revoked_at INTEGER
+      );
+
+      -- Web UI login sessions, each opened with an API token and ended when it's revoked
+      CREATE TABLE IF NOT EXISTS auth_sessions (
+        id_hash TEXT PRIMARY KEY,
+        token_id TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS auth_sessions_token_idx ON auth_sessions (token_id);
+
+      -- Encrypted secrets for workflows; the master key never touches the database
+      CREATE TABLE IF NOT EXISTS secrets (
+        name TEXT PRIMARY KEY,
+        ciphertext BLOB NOT NULL,
+        iv BLOB NOT NULL,
+        auth_tag BLOB NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `);
+
+    // Columns added after the initial schema
+    this.ensureColumn('run_steps', 'iterations', 'TEXT');
+    this.ensureColumn('run_steps', 'handler_for', 'TEXT');
+    this.ensureColumn('run_history', 'parent_run_id', 'TEXT');
+    this.ensureColumn('run_history', 'parent_step_id', 'TEXT');
+    this.ensureColumn('run_history', 'outputs', 'TEXT');
+    this.ensureColumn('run_history', 'workflow_content', 'TEXT');
+    this.ensureColumn('run_history', 'resumed_from', 'TEXT');
+    this.ensureColumn('runs', 'concurrency_group', 'TEXT');
+    this.ensureColumn('runs', 'concurrency_limit', 'INTEGER');
+    this.ensureColumn('runs', 'idempotency_key', 'TEXT');
+    this.ensureColumn('runs', 'priority', 'INTEGER NOT NULL DEFAULT 0');
+    this.ensureColumn('runs', 'queue', 'TEXT'); // NULL for runs that bypass the queue (manual runs)
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS runs_priority_idx ON runs (status, priority, created_at);
+      CREATE INDEX IF NOT EXISTS runs_concurrency_idx ON runs (concurrency_group, status);
+      CREATE INDEX IF NOT EXISTS runs_idempotency_idx ON runs (workflow_name, idempotency_key, created_at);
     `);
 
     // Enable foreign keys
     this.db.pragma('foreign_keys = ON');
   }
 
+  private ensureColumn(table: string, column: string, definition: string): void {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    if (!columns.some((c) => c.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
   enqueueRun(input: EnqueueRunInput): void {
     const now = Date.now();
     this.db
       .prepare(
         `INSERT INTO runs
-          (id, workflow_name, trigger_type, trigger_data, workflow_content, status, attempts, next_attempt_at, created_at, scheduled_for)
+          (id, workflow_name, trigger_type, trigger_data, workflow_content, status, attempts, next_attempt_at, created_at, scheduled_for,
+           concurrency_group, concurrency_limit, idempotency_key, priority, queue)
          VALUES
-          (@id, @workflowName, @triggerType, @triggerData, @workflowContent, 'queued', 0, @nextAttemptAt, @createdAt, @scheduledFor)`
+          (@id, @workflowName, @triggerType, @triggerData, @workflowContent, 'queued', 0, @nextAttemptAt, @createdAt, @scheduledFor,
+           @concurrencyGroup, @concurrencyLimit, @idempotencyKey, @priority, @queue)`
       )
       .run({
         id: input.id,
@@ -242,19 +526,96 @@ export class SchedulerStore {
         nextAttemptAt: now,
         createdAt: now,
         scheduledFor: input.scheduledFor ?? null,
+        concurrencyGroup: input.concurrencyGroup ?? null,
+        concurrencyLimit: input.concurrencyLimit ?? null,
+        idempotencyKey: input.idempotencyKey ?? null,
+        priority: input.priority ?? 0,
+        queue: input.queue ?? 'default',
       });
   }
 
-  claimNextRuns(limit: number): QueuedRun[] {
+  // Most recent run of the workflow with this key since `since`; cancelled runs don't count
+  findRunByIdempotencyKey(workflowName: string, key: string, since: number): string | null {
+    const row = this.db
+      .prepare(
+        `SELECT id FROM runs
+         WHERE workflow_name = ? AND idempotency_key = ? AND created_at >= ? AND status != 'cancelled'
+         ORDER BY created_at DESC
+         LIMIT 1`
+      )
+      .get(workflowName, key, since) as { id: string } | undefined;
+    return row?.id ?? null;
+  }
+
+  // Queued and running runs in a concurrency group, oldest first
+  getActiveRunsInGroup(group: string): Array<{ id: string; workflowName: string; status: 'queued' | 'running' }> {
+    const rows = this.db
+      .prepare(
+        `SELECT id, workflow_name, status FROM runs
+         WHERE concurrency_group = ? AND status IN ('queued', 'running')
+         ORDER BY created_at ASC`
+      )
+      .all(group) as Array<{ id: string; workflow_name: string; status: 'queued' | 'running' }>;
+    return rows.map((row) => ({ id: row.id, workflowName: row.workflow_name, status: row.status }));
+  }
+
+  // Claim due runs by priority, then age, keeping each named queue under its limit in `queueLimits`
+  claimNextRuns(limit: number, queueLimits: Record<string, number> = {}): QueuedRun[] {
     if (limit <= 0) return [];
     const now = Date.now();
 
+    // The limits are applied in SQL so a long backlog isn't loaded on every poll. Rows whose
+    // concurrency group or queue is full are dropped first, so they don't hold up runs behind them;
+    // then each queue and each group only offers as many runs, in order, as it has free slots.
     const selectStmt = this.db.prepare(
+      `WITH
+         running_groups AS (
+           SELECT concurrency_group, COUNT(*) AS running
+           FROM runs
+           WHERE status = 'running' AND concurrency_group IS NOT NULL
+           GROUP BY concurrency_group
+         ),
+         running_queues AS (
+           SELECT queue, COUNT(*) AS running
+           FROM runs
+           WHERE status = 'running' AND queue IS NOT NULL
+           GROUP BY queue
+         ),
+         due AS (
+           SELECT r.id, r.priority, r.created_at, r.rowid AS seq, r.concurrency_group,
+                  COALESCE(r.queue, 'default') AS queue_name,
+                  CASE WHEN r.concurrency_group IS NOT NULL
+                    THEN r.concurrency_limit - COALESCE(g.running, 0) END AS group_free,
+                  limits.value - COALESCE(q.running, 0) AS queue_free
+           FROM runs r
+           LEFT JOIN running_groups g ON g.concurrency_group = r.concurrency_group
+           LEFT JOIN running_queues q ON q.queue = COALESCE(r.queue, 'default')
+           LEFT JOIN json_each(@queueLimits) limits ON limits.key = COALESCE(r.queue, 'default')
+           WHERE r.status = 'queued' AND r.next_attempt_at <= @now
+         ),
+         queue_ranked AS (
+           SELECT *,
+                  ROW_NUMBER() OVER (PARTITION BY queue_name ORDER BY priority DESC, created_at ASC, seq ASC) AS queue_rank
+           FROM due
+           WHERE (group_free IS NULL OR group_free > 0) AND (queue_free IS NULL OR queue_free > 0)
+         ),
+         group_ranked AS (
+           SELECT *,
+                  ROW_NUMBER() OVER (PARTITION BY concurrency_group ORDER BY priority DESC, created_at ASC, seq ASC) AS group_rank
+           FROM queue_ranked
+           WHERE queue_free IS NULL OR queue_rank <= queue_free
+         )
+       SELECT id
+       FROM group_ranked
+       WHERE group_free IS NULL OR group_rank <= group_free
+       ORDER BY priority DESC, created_at ASC, seq ASC
+       LIMIT @take`
+    );
+
+    const rowStmt = this.db.prepare(
       `SELECT id, workflow_name, trigger_type, trigger_data, workflow_content, attempts, scheduled_for
        FROM runs
-       WHERE status = 'queued' AND next_attempt_at <= ?
-       ORDER BY created_at ASC
-       LIMIT ?`
+       WHERE id = ?`
     );
 
     const updateStmt = this.db.prepare(
@@ -264,27 +625,27 @@ export class SchedulerStore {
     );
 
     const claimTx = this.db.transaction((take: number) => {
-      const rows = selectStmt.all(now, take) as Array<{
-        id: string;
-        workflow_name: string;
-        trigger_type: string;
-        trigger_data: string;
-        workflow_content: string;
-        attempts: number;
-        scheduled_for: string | null;
-      }>;
+      const ids = selectStmt.all({ now, take, queueLimits: JSON.stringify(queueLimits) }) as Array<{ id: string }>;
 
       const claimed: QueuedRun[] = [];
-      for (const row of rows) {
-        const result = updateStmt.run(now, row.id);
-        if (result.changes === 0) continue;
+      for (const { id } of ids) {
+        if (updateStmt.run(now, id).changes === 0) continue;
+        const row = rowStmt.get(id) as {
+          id: string;
+          workflow_name: string;
+          trigger_type: string;
+          trigger_data: string;
+          workflow_content: string;
+          attempts: number;
+          scheduled_for: string | null;
+        };
         claimed.push({
           id: row.id,
           workflowName: row.workflow_name,
           triggerType: row.trigger_type,
           triggerData: JSON.parse(row.trigger_data),
           workflowContent: row.workflow_content,
-          attempts: row.attempts + 1,
+          attempts: row.attempts,
           scheduledFor: row.scheduled_for,
         });
       }
@@ -294,7 +655,28 @@ export class SchedulerStore {
     return claimTx(limit);
   }
 
-  markRunCompleted(id: string, status: 'completed' | 'failed', error?: string): void {
+  // Record a run that executes outside the queue (manual and resumed runs) so it's recovered like a claimed one
+  insertRunningRun(input: EnqueueRunInput): void {
+    const now = Date.now();
+    this.db
+      .prepare(
+        `INSERT INTO runs
+          (id, workflow_name, trigger_type, trigger_data, workflow_content, status, attempts, next_attempt_at, created_at, started_at, scheduled_for)
+         VALUES
+          (@id, @workflowName, @triggerType, @triggerData, @workflowContent, 'running', 1, @now, @now, @now, @scheduledFor)`
+      )
+      .run({
+        id: input.id,
+        workflowName: input.workflowName,
+        triggerType: input.triggerType,
+        triggerData: JSON.stringify(input.triggerData ?? {}),
+        workflowContent: input.workflowContent,
+        now,
+        scheduledFor: input.scheduledFor ?? null,
+      });
+  }
+
+  markRunCompleted(id: string, status: 'completed' | 'failed' | 'cancelled', error?: string): void {
     const now = Date.now();
     this.db
       .prepare(
@@ -303,6 +685,19 @@ export class SchedulerStore {
          WHERE id = ?`
       )
       .run(status, now, error ?? null, id);
+    this.clearRunCheckpoints(id);
+  }
+
+  // Finalize a run that hasn't been claimed yet. Returns false if it isn't queued.
+  cancelQueuedRun(id: string): boolean {
+    const result = this.db
+      .prepare(
+        `UPDATE runs
+         SET status = 'cancelled', completed_at = ?, error = 'Run cancelled'
+         WHERE id = ? AND status = 'queued'`
+      )
+      .run(Date.now(), id);
+    return result.changes > 0;
   }
 
   rescheduleRun(id: string, nextAttemptAt: number, error?: string): void {
@@ -313,6 +708,225 @@ export class SchedulerStore {
          WHERE id = ?`
       )
       .run(nextAttemptAt, error ?? null, id);
+    // A retry starts over, so last attempt's steps aren't reused
+    this.clearRunCheckpoints(id);
+  }
+
+  getQueueStats(): QueueStats[] {
+    const now = Date.now();
+    const rows = this.db
+      .prepare(
+        `SELECT
+           COALESCE(queue, 'default') AS queue,
+           SUM(CASE WHEN status = 'queued' AND next_attempt_at <= @now THEN 1 ELSE 0 END) AS queued,
+           SUM(CASE WHEN status = 'queued' AND next_attempt_at > @now THEN 1 ELSE 0 END) AS delayed,
+           SUM(CASE WHEN status = 'running' THEN 1 ELSE 0 END) AS running,
+           MIN(CASE WHEN status = 'queued' AND next_attempt_at <= @now THEN MAX(created_at, next_attempt_at) END) AS oldest_due_at,
+           AVG(CASE WHEN started_at >= @since THEN started_at - MAX(created_at, next_attempt_at) END) AS avg_wait
+         FROM runs
+         WHERE queue IS NOT NULL AND (status IN ('queued', 'running') OR started_at >= @since)
+         GROUP BY COALESCE(queue, 'default')
+         ORDER BY queue`
+      )
+      .all({ now, since: now - 60 * 60 * 1000 }) as Array<{
+        queue: string;
+        queued: number;
+        delayed: number;
+        running: number;
+        oldest_due_at: number | null;
+        avg_wait: number | null;
+      }>;
+
+    return rows.map((row) => ({
+      queue: row.queue,
+      queued: row.queued,
+      delayed: row.delayed,
+      running: row.running,
+      oldestWaitMs: row.oldest_due_at !== null ? now - row.oldest_due_at : null,
+      avgWaitMs: row.avg_wait !== null ? Math.round(row.avg_wait) : null,
+    }));
+  }
+
+  getRunStatus(id: string): string | null {
+    const row = this.db.prepare('SELECT status FROM runs WHERE id = ?').get(id) as { status: string } | undefined;
+    return row?.status ?? null;
+  }
+
+  // Runs claimed by a previous process that never finished. Call before claiming anything new.
+  getOrphanedRuns(): OrphanedRun[] {
+    const rows = this.db
+      .prepare(
+        `SELECT id, workflow_name, trigger_type, trigger_data, workflow_content, attempts, scheduled_for, started_at, created_at
+         FROM runs
+         WHERE status = 'running'
+         ORDER BY created_at ASC`
+      )
+      .all() as Array<{
+        id: string;
+        workflow_name: string;
+        trigger_type: string;
+        trigger_data: string;
+        workflow_content: string;
+        attempts: number;
+        scheduled_for: string | null;
+        started_at: number | null;
+        created_at: number;
+      }>;
+
+    return rows.map((row) => ({
+      id: row.id,
+      workflowName: row.workflow_name,
+      triggerType: row.trigger_type,
+      triggerData: JSON.parse(row.trigger_data),
+      workflowContent: row.workflow_content,
+      attempts: row.attempts,
+      scheduledFor: row.scheduled_for,
+      startedAt: row.started_at ?? row.created_at,
+    }));
+  }
+
+  // Put an orphaned run back in the queue; its checkpoints are kept unless the caller clears them
+  requeueRun(id: string): void {
+    this.db
+      .prepare(
+        `UPDATE runs
+         SET status = 'queued', next_attempt_at = ?, started_at = NULL
+         WHERE id = ? AND status = 'running'`
+      )
+      .run(Date.now(), id);
+  }
+
+  // Only runs tracked in the queue table are checkpointed; child runs and finished runs are ignored
+  saveRunCheckpoint(runId: string, stepId: string, output: unknown): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO run_checkpoints (run_id, step_id, output, completed_at)
+         SELECT ?, ?, ?, ?
+         WHERE EXISTS (SELECT 1 FROM runs WHERE id = ? AND status = 'running')`
+      )
+      .run(runId, stepId, output !== undefined ? JSON.stringify(output) : null, Date.now(), runId);
+  }
+
+  getRunCheckpoints(runId: string): RunCheckpoint[] {
+    const rows = this.db
+      .prepare(
+        `SELECT step_id, output, completed_at FROM run_checkpoints
+         WHERE run_id = ?
+         ORDER BY completed_at ASC, rowid ASC`
+      )
+      .all(runId) as Array<{ step_id: string; output: string | null; completed_at: number }>;
+
+    return rows.map((row) => ({
+      id: row.step_id,
+      output: row.output !== null ? JSON.parse(row.output) : undefined,
+      completedAt: row.completed_at,
+    }));
+  }
+
+  clearRunCheckpoints(runId: string): void {
+    this.db.prepare('DELETE FROM run_checkpoints WHERE run_id = ?').run(runId);
+  }
+
+  // === Step Cache Methods ===
+
+  // Returns null for missing and expired entries; a hit is counted on the entry
+  getCachedOutput(key: string): { output: unknown } | null {
+    const row = this.db
+      .prepare('SELECT output FROM step_cache WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)')
+      .get(key, Date.now()) as { output: string | null } | undefined;
+    if (!row) return null;
+
+    this.db.prepare('UPDATE step_cache SET hits = hits + 1 WHERE key = ?').run(key);
+    return { output: row.output !== null ? JSON.parse(row.output) : undefined };
+  }
+
+  saveCachedOutput(entry: {
+    key: string;
+    workflowName: string;
+    stepId: string;
+    action: string;
+    output: unknown;
+    ttl?: number; // ms; the entry never expires without one
+  }): void {
+    const now = Date.now();
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO step_cache (key, workflow_name, step_id, action, output, created_at, expires_at, hits)
+         VALUES (@key, @workflowName, @stepId, @action, @output, @createdAt, @expiresAt, 0)`
+      )
+      .run({
+        key: entry.key,
+        workflowName: entry.workflowName,
+        stepId: entry.stepId,
+        action: entry.action,
+        output: entry.output !== undefined ? JSON.stringify(entry.output) : null,
+        createdAt: now,
+        expiresAt: entry.ttl !== undefined ? now + entry.ttl : null,
+      });
+  }
+
+  listCacheEntries(options: StepCacheListOptions = {}): StepCacheEntry[] {
+    const params: Record<string, unknown> = { limit: options.limit ?? 100 };
+    let where = '';
+    if (options.workflowName) {
+      where = 'WHERE workflow_name = @workflowName';
+      params.workflowName = options.workflowName;
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT key, workflow_name, step_id, action, created_at, expires_at, hits, LENGTH(output) AS size
+         FROM step_cache ${where}
+         ORDER BY created_at DESC LIMIT @limit`
+      )
+      .all(params) as StepCacheRow[];
+    return rows.map((row) => this.toCacheEntry(row));
+  }
+
+  getCacheEntry(key: string): StepCacheEntry | null {
+    const row = this.db
+      .prepare(
+        `SELECT key, workflow_name, step_id, action, output, created_at, expires_at, hits, LENGTH(output) AS size
+         FROM step_cache WHERE key = ?`
+      )
+      .get(key) as (StepCacheRow & { output: string | null }) | undefined;
+    if (!row) return null;
+    return { ...this.toCacheEntry(row), output: row.output !== null ? JSON.parse(row.output) : undefined };
+  }
+
+  // Delete one entry, a workflow's entries, only expired ones, or everything. Returns how many were removed.
+  purgeCache(options: { key?: string; workflowName?: string; expiredOnly?: boolean } = {}): number {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = {};
+
+    if (options.key) {
+      conditions.push('key = @key');
+      params.key = options.key;
+    }
+    if (options.workflowName) {
+      conditions.push('workflow_name = @workflowName');
+      params.workflowName = options.workflowName;
+    }
+    if (options.expiredOnly) {
+      conditions.push('expires_at IS NOT NULL AND expires_at <= @now');
+      params.now = Date.now();
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return this.db.prepare(`DELETE FROM step_cache ${where}`).run(params).changes;
+  }
+
+  private toCacheEntry(row: StepCacheRow): StepCacheEntry {
+    return {
+      key: row.key,
+      workflowName: row.workflow_name,
+      stepId: row.step_id,
+      action: row.action,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at,
+      hits: row.hits,
+      size: row.size ?? 0,
+    };
   }
 
   upsertSchedule(
@@ -366,9 +980,11 @@ export class SchedulerStore {
       this.db
         .prepare(
           `INSERT OR REPLACE INTO run_history
-            (id, workflow_name, status, started_at, completed_at, duration, error, trigger_type, trigger_data, created_at)
+            (id, workflow_name, status, started_at, completed_at, duration, error, trigger_type, trigger_data,
+             parent_run_id, parent_step_id, outputs, workflow_content, resumed_from, created_at)
            VALUES
-            (@id, @workflowName, @status, @startedAt, @completedAt, @duration, @error, @triggerType, @triggerData, @createdAt)`
+            (@id, @workflowName, @status, @startedAt, @completedAt, @duration, @error, @triggerType, @triggerData,
+             @parentRunId, @parentStepId, @outputs, @workflowContent, @resumedFrom, @createdAt)`
         )
         .run({
           id: run.id,
@@ -380,6 +996,11 @@ export class SchedulerStore {
           error: run.error ?? null,
           triggerType: run.triggerType ?? null,
           triggerData: run.triggerData ? JSON.stringify(run.triggerData) : null,
+          parentRunId: run.parentRunId ?? null,
+          parentStepId: run.parentStepId ?? null,
+          outputs: run.outputs ? JSON.stringify(run.outputs) : null,
+          workflowContent: run.workflowContent ?? null,
+          resumedFrom: run.resumedFrom ?? null,
           createdAt: Date.now(),
         });
 
@@ -403,8 +1024,8 @@ export class SchedulerStore {
       // Insert steps
       if (run.steps.length > 0) {
         const insertStep = this.db.prepare(
-          `INSERT INTO run_steps (run_id, step_id, status, duration, error, output)
-           VALUES (@runId, @stepId, @status, @duration, @error, @output)`
+          `INSERT INTO run_steps (run_id, step_id, status, duration, error, output, iterations, handler_for)
+           VALUES (@runId, @stepId, @status, @duration, @error, @output, @iterations, @handlerFor)`
         );
         for (const step of run.steps) {
           insertStep.run({
@@ -413,7 +1034,10 @@ export class SchedulerStore {
             status: step.status,
             duration: step.duration ?? null,
             error: step.error ?? null,
-            output: step.output ? JSON.stringify(step.output) : null,
+            // Keep falsy outputs like 0 or '' so resumed runs see the same values
+            output: step.output !== undefined ? JSON.stringify(step.output) : null,
+            iterations: step.iterations ? JSON.stringify(step.iterations) : null,
+            handlerFor: step.handlerFor ?? null,
           });
         }
       }
@@ -456,7 +1080,8 @@ export class SchedulerStore {
     // Get runs
     const rows = this.db
       .prepare(
-        `SELECT id, workflow_name, status, started_at, completed_at, duration, error, trigger_type, trigger_data
+        `SELECT id, workflow_name, status, started_at, completed_at, duration, error, trigger_type, trigger_data,
+                parent_run_id, parent_step_id
          FROM run_history
          WHERE ${whereClause}
          ORDER BY started_at DESC
@@ -472,18 +1097,22 @@ export class SchedulerStore {
       error: string | null;
       trigger_type: string | null;
       trigger_data: string | null;
+      parent_run_id: string | null;
+      parent_step_id: string | null;
     }>;
 
     const runs: CompletedRun[] = rows.map((row) => ({
       id: row.id,
       workflowName: row.workflow_name,
-      status: row.status as 'success' | 'failed',
+      status: row.status as CompletedRun['status'],
       startedAt: row.started_at,
       completedAt: row.completed_at,
       duration: row.duration,
       error: row.error ?? undefined,
       triggerType: row.trigger_type ?? undefined,
       triggerData: row.trigger_data ? JSON.parse(row.trigger_data) : undefined,
+      parentRunId: row.parent_run_id ?? undefined,
+      parentStepId: row.parent_step_id ?? undefined,
       logs: [], // Not loaded in list view
       steps: [], // Not loaded in list view
     }));
@@ -494,7 +1123,8 @@ export class SchedulerStore {
   getRunById(id: string): CompletedRun | null {
     const row = this.db
       .prepare(
-        `SELECT id, workflow_name, status, started_at, completed_at, duration, error, trigger_type, trigger_data
+        `SELECT id, workflow_name, status, started_at, completed_at, duration, error, trigger_type, trigger_data,
+                parent_run_id, parent_step_id, outputs, workflow_content, resumed_from
          FROM run_history
          WHERE id = ?`
       )
@@ -508,6 +1138,11 @@ export class SchedulerStore {
       error: string | null;
       trigger_type: string | null;
       trigger_data: string | null;
+      parent_run_id: string | null;
+      parent_step_id: string | null;
+      outputs: string | null;
+      workflow_content: string | null;
+      resumed_from: string | null;
     } | undefined;
 
     if (!row) return null;
@@ -530,7 +1165,7 @@ export class SchedulerStore {
     // Get steps
     const stepRows = this.db
       .prepare(
-        `SELECT step_id, status, duration, error, output
+        `SELECT step_id, status, duration, error, output, iterations, handler_for
          FROM run_steps
          WHERE run_id = ?`
       )
@@ -540,18 +1175,25 @@ export class SchedulerStore {
       duration: number | null;
       error: string | null;
       output: string | null;
+      iterations: string | null;
+      handler_for: string | null;
     }>;
 
     return {
       id: row.id,
       workflowName: row.workflow_name,
-      status: row.status as 'success' | 'failed',
+      status: row.status as CompletedRun['status'],
       startedAt: row.started_at,
       completedAt: row.completed_at,
       duration: row.duration,
       error: row.error ?? undefined,
       triggerType: row.trigger_type ?? undefined,
       triggerData: row.trigger_data ? JSON.parse(row.trigger_data) : undefined,
+      parentRunId: row.parent_run_id ?? undefined,
+      parentStepId: row.parent_step_id ?? undefined,
+      outputs: row.outputs ? JSON.parse(row.outputs) : undefined,
+      workflowContent: row.workflow_content ?? undefined,
+      resumedFrom: row.resumed_from ?? undefined,
       logs: logRows.map((log) => ({
         timestamp: log.timestamp,
         level: log.level as 'info' | 'error' | 'success',
@@ -564,10 +1206,290 @@ export class SchedulerStore {
         duration: step.duration ?? undefined,
         error: step.error ?? undefined,
         output: step.output ? JSON.parse(step.output) : undefined,
+        iterations: step.iterations ? JSON.parse(step.iterations) : undefined,
+        handlerFor: step.handler_for ?? undefined,
       })),
     };
   }
 
+  // === Approval Methods ===
+
+  saveApproval(approval: ApprovalRecord): void {
+    this.db
+      .prepare(
+        `INSERT INTO approvals (id, run_id, step_id, workflow_name, message, status, approvers, on_timeout, token,
+                                channels, created_at, expires_at, decided_at, approver, comment, via, resume_state)
+         VALUES (@id, @runId, @stepId, @workflowName, @message, @status, @approvers, @onTimeout, @token,
+                 @channels, @createdAt, @expiresAt, @decidedAt, @approver, @comment, @via, @resumeState)`
+      )
+      .run({
+        id: approval.id,
+        runId: approval.runId,
+        stepId: approval.stepId,
+        workflowName: approval.workflowName,
+        message: approval.message,
+        status: approval.status,
+        approvers: approval.approvers ? JSON.stringify(approval.approvers) : null,
+        onTimeout: approval.onTimeout,
+        token: approval.token,
+        channels: JSON.stringify(approval.channels),
+        createdAt: approval.createdAt,
+        expiresAt: approval.expiresAt ?? null,
+        decidedAt: approval.decidedAt ?? null,
+        approver: approval.approver ?? null,
+        comment: approval.comment ?? null,
+        via: approval.via ?? null,
+        resumeState: approval.resumeState ? JSON.stringify(approval.resumeState) : null,
+      });
+  }
+
+  getApproval(id: string): ApprovalRecord | null {
+    const row = this.db.prepare('SELECT * FROM approvals WHERE id = ?').get(id) as ApprovalRow | undefined;
+    return row ? this.toApprovalRecord(row) : null;
+  }
+
+  listApprovals(options: ApprovalListOptions = {}): ApprovalRecord[] {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = { limit: options.limit ?? 100 };
+
+    if (options.status) {
+      conditions.push('status = @status');
+      params.status = options.status;
+    }
+    if (options.runId) {
+      conditions.push('run_id = @runId');
+      params.runId = options.runId;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM approvals ${where} ORDER BY created_at DESC LIMIT @limit`)
+      .all(params) as ApprovalRow[];
+    return rows.map((row) => this.toApprovalRecord(row));
+  }
+
+  // Record a decision. Returns false when the approval was already decided, so
+  // two approvers racing each other can't both win.
+  resolveApproval(
+    id: string,
+    decision: { status: Exclude<ApprovalStatus, 'pending'>; approver?: string; comment?: string; via: ApprovalVia }
+  ): boolean {
+    const result = this.db
+      .prepare(
+        `UPDATE approvals
+         SET status = @status, approver = @approver, comment = @comment, via = @via, decided_at = @decidedAt
+         WHERE id = @id AND status = 'pending'`
+      )
+      .run({
+        id,
+        status: decision.status,
+        approver: decision.approver ?? null,
+        comment: decision.comment ?? null,
+        via: decision.via,
+        decidedAt: Date.now(),
+      });
+    return result.changes > 0;
+  }
+
+  setApprovalChannels(id: string, channels: ApprovalChannelRefs): void {
+    this.db.prepare('UPDATE approvals SET channels = ? WHERE id = ?').run(JSON.stringify(channels), id);
+  }
+
+  private toApprovalRecord(row: ApprovalRow): ApprovalRecord {
+    return {
+      id: row.id,
+      runId: row.run_id,
+      stepId: row.step_id,
+      workflowName: row.workflow_name,
+      message: row.message,
+      status: row.status as ApprovalStatus,
+      approvers: row.approvers ? JSON.parse(row.approvers) : undefined,
+      onTimeout: row.on_timeout as ApprovalRecord['onTimeout'],
+      token: row.token,
+      channels: JSON.parse(row.channels),
+      createdAt: row.created_at,
+      expiresAt: row.expires_at ?? undefined,
+      decidedAt: row.decided_at ?? undefined,
+      approver: row.approver ?? undefined,
+      comment: row.comment ?? undefined,
+      via: (row.via as ApprovalVia | null) ?? undefined,
+      resumeState: row.resume_state ? JSON.parse(row.resume_state) : undefined,
+    };
+  }
+
+  // === API Token Methods ===
+
+  createApiToken(token: {
+    id: string;
+    name: string;
+    tokenHash: string;
+    prefix: string;
+    scopes: string[];
+    expiresAt?: number | null;
+  }): ApiTokenRecord {
+    const createdAt = Date.now();
+    this.db
+      .prepare(
+        `INSERT INTO api_tokens (id, name, token_hash, prefix, scopes, created_at, expires_at)
+         VALUES (@id, @name, @tokenHash, @prefix, @scopes, @createdAt, @expiresAt)`
+      )
+      .run({
+        id: token.id,
+        name: token.name,
+        tokenHash: token.tokenHash,
+        prefix: token.prefix,
+        scopes: JSON.stringify(token.scopes),
+        createdAt,
+        expiresAt: token.expiresAt ?? null,
+      });
+    return this.getApiToken(token.id)!;
+  }
+
+  getApiToken(id: string): ApiTokenRecord | null {
+    const row = this.db.prepare('SELECT * FROM api_tokens WHERE id = ?').get(id) as ApiTokenRow | undefined;
+    return row ? this.toApiToken(row) : null;
+  }
+
+  listApiTokens(options: { includeRevoked?: boolean } = {}): ApiTokenRecord[] {
+    const where = options.includeRevoked ? '' : 'WHERE revoked_at IS NULL';
+    const rows = this.db
+      .prepare(`SELECT * FROM api_tokens ${where} ORDER BY created_at DESC`)
+      .all() as ApiTokenRow[];
+    return rows.map((row) => this.toApiToken(row));
+  }
+
+  // A token that is neither revoked nor expired, looked up by the hash of its value
+  findActiveApiToken(tokenHash: string): ApiTokenRecord | null {
+    const row = this.db
+      .prepare(
+        `SELECT * FROM api_tokens
+         WHERE token_hash = ? AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ?)`
+      )
+      .get(tokenHash, Date.now()) as ApiTokenRow | undefined;
+    return row ? this.toApiToken(row) : null;
+  }
+
+  countActiveApiTokens(): number {
+    const row = this.db
+      .prepare('SELECT COUNT(*) AS count FROM api_tokens WHERE revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ?)')
+      .get(Date.now()) as { count: number };
+    return row.count;
+  }
+
+  // Written at most once a minute per token so busy clients don't cause a write per request
+  touchApiToken(id: string): void {
+    const now = Date.now();
+    this.db
+      .prepare('UPDATE api_tokens SET last_used_at = ? WHERE id = ? AND (last_used_at IS NULL OR last_used_at < ?)')
+      .run(now, id, now - 60_000);
+  }
+
+  // Revoking a token also ends the web sessions opened with it. Returns false if there was nothing to revoke.
+  revokeApiToken(id: string): boolean {
+    const result = this.db
+      .prepare('UPDATE api_tokens SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL')
+      .run(Date.now(), id);
+    this.db.prepare('DELETE FROM auth_sessions WHERE token_id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  createAuthSession(session: { idHash: string; tokenId: string; expiresAt: number }): void {
+    this.db
+      .prepare('INSERT INTO auth_sessions (id_hash, token_id, created_at, expires_at) VALUES (?, ?, ?, ?)')
+      .run(session.idHash, session.tokenId, Date.now(), session.expiresAt);
+  }
+
+  // The token behind a live session, as long as the token itself is still active
+  findAuthSession(idHash: string): ApiTokenRecord | null {
+    const now = Date.now();
+    const row = this.db
+      .prepare(
+        `SELECT t.* FROM auth_sessions s JOIN api_tokens t ON t.id = s.token_id
+         WHERE s.id_hash = ? AND s.expires_at > ?
+           AND t.revoked_at IS NULL AND (t.expires_at IS NULL OR t.expires_at > ?)`
+      )
+      .get(idHash, now, now) as ApiTokenRow | undefined;
+    return row ? this.toApiToken(row) : null;
+  }
+
+  deleteAuthSession(idHash: string): void {
+    this.db.prepare('DELETE FROM auth_sessions WHERE id_hash = ?').run(idHash);
+  }
+
+  private toApiToken(row: ApiTokenRow): ApiTokenRecord {
+    return {
+      id: row.id,
+      name: row.name,
+      prefix: row.prefix,
+      scopes: JSON.parse(row.scopes) as string[],
+      createdAt: row.created_at,
+      expiresAt: row.expires_at,
+      lastUsedAt: row.last_used_at,
+      revokedAt: row.revoked_at,
+    };
+  }
+
+  // === Secret Methods ===
+
+  // Insert or replace a secret's value, keeping when it was first created
+  saveSecret(secret: { name: string; ciphertext: Buffer; iv: Buffer; authTag: Buffer }): SecretRecord {
+    const now = Date.now();
+    this.db
+      .prepare(
+        `INSERT INTO secrets (name, ciphertext, iv, auth_tag, created_at, updated_at)
+         VALUES (@name, @ciphertext, @iv, @authTag, @now, @now)
+         ON CONFLICT(name) DO UPDATE SET
+           ciphertext = excluded.ciphertext,
+           iv = excluded.iv,
+           auth_tag = excluded.auth_tag,
+           updated_at = excluded.updated_at`
+      )
+      .run({ ...secret, now });
+    return this.toSecretRecord(this.db.prepare('SELECT * FROM secrets WHERE name = ?').get(secret.name) as SecretRow);
+  }
+
+  getEncryptedSecret(name: string): EncryptedSecret | null {
+    const row = this.db.prepare('SELECT * FROM secrets WHERE name = ?').get(name) as SecretRow | undefined;
+    return row ? this.toEncryptedSecret(row) : null;
+  }
+
+  listEncryptedSecrets(): EncryptedSecret[] {
+    const rows = this.db.prepare('SELECT * FROM secrets ORDER BY name').all() as SecretRow[];
+    return rows.map((row) => this.toEncryptedSecret(row));
+  }
+
+  listSecrets(): SecretRecord[] {
+    const rows = this.db
+      .prepare('SELECT name, created_at, updated_at FROM secrets ORDER BY name')
+      .all() as SecretRow[];
+    return rows.map((row) => this.toSecretRecord(row));
+  }
+
+  deleteSecret(name: string): boolean {
+    return this.db.prepare('DELETE FROM secrets WHERE name = ?').run(name).changes > 0;
+  }
+
+  // Changes whenever a secret is added, replaced or deleted, so callers can tell a cached copy is stale
+  getSecretsVersion(): string {
+    const row = this.db
+      .prepare('SELECT COUNT(*) AS count, MAX(updated_at) AS updated FROM secrets')
+      .get() as { count: number; updated: number | null };
+    return `${row.count}:${row.updated ?? 0}`;
+  }
+
+  private toSecretRecord(row: SecretRow): SecretRecord {
+    return { name: row.name, createdAt: row.created_at, updatedAt: row.updated_at };
+  }
+
+  private toEncryptedSecret(row: SecretRow): EncryptedSecret {
+    return {
+      ...this.toSecretRecord(row),
+      ciphertext: row.ciphertext,
+      iv: row.iv,
+      authTag: row.auth_tag,
+    };
+  }
+
   // === Token Usage Methods ===
 
   trackTokenUsage(entry: TokenUsageEntry): void {
@@ -639,6 +1561,14 @@ export class SchedulerStore {
       .prepare('DELETE FROM chat_sessions WHERE updated_at < ?')
       .run(cutoff);
 
+    // Pending approvals are kept however old they are; their runs are still waiting
+    this.db
+      .prepare("DELETE FROM approvals WHERE status != 'pending' AND decided_at < ?")
+      .run(cutoff);
+
+    this.purgeCache({ expiredOnly: true });
+    this.db.prepare('DELETE FROM auth_sessions WHERE expires_at < ?').run(Date.now());
+
     return {
       runsDeleted: runsResult.changes,
       tokenEntriesDeleted: tokensResult.changes,
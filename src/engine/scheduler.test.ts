@@ -0,0 +1,389 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { TriggerScheduler } from './scheduler.js';
+import { SchedulerStore } from './scheduler-store.js';
+import { PluginRegistry } from '../plugins/sdk/registry.js';
+
+const workflowYaml = (onRestart?: string) => `
+name: nightly
+${onRestart ? `on_restart: ${onRestart}` : ''}
+steps:
+  - id: fetch
+    action: test.fetch
+  - id: report
+    action: test.report
+    needs: [fetch]
+`;
+
+describe('TriggerScheduler restart recovery', () => {
+  let dir: string;
+  let storePath: string;
+  let scheduler: TriggerScheduler | undefined;
+
+  // Leave a run claimed with one checkpointed step, as if the gateway died mid-run
+  const interruptRun = (content: string) => {
+    const store = new SchedulerStore(storePath);
+    store.enqueueRun({
+      id: 'run-1',
+      workflowName: 'nightly',
+      triggerType: 'cron.schedule',
+      triggerData: { type: 'cron' },
+      workflowContent: content,
+    });
+    store.claimNextRuns(1);
+    store.saveRunCheckpoint('run-1', 'fetch', { rows: 3 });
+    store.close();
+  };
+
+  const startScheduler = (onExecuteWorkflow = vi.fn().mockResolvedValue({ status: 'completed' })) => {
+    const onRunRecovered = vi.fn();
+    const onWorkflowCompleted = vi.fn();
+    scheduler = new TriggerScheduler(dir, new PluginRegistry(), {
+      onExecuteWorkflow,
+      onRunRecovered,
+      onWorkflowCompleted,
+    }, { storePath, pollIntervalMs: 60_000 });
+    return { onExecuteWorkflow, onRunRecovered, onWorkflowCompleted, store: scheduler.store };
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'weavr-scheduler-'));
+    storePath = join(dir, 'scheduler.db');
+  });
+
+  afterEach(() => {
+    scheduler?.stopAll();
+    scheduler = undefined;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should resume from checkpointed steps with on_restart: resume', async () => {
+    interruptRun(workflowYaml('resume'));
+
+    const { onExecuteWorkflow, onRunRecovered, store } = startScheduler();
+
+    expect(onRunRecovered).toHaveBeenCalledWith('nightly', 'run-1', 'resume', 1);
+    await vi.waitFor(() => expect(store.getRunStatus('run-1')).toBe('completed'));
+    expect(onExecuteWorkflow).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'nightly' }),
+      { type: 'cron' },
+      'run-1',
+      expect.any(String),
+      expect.any(AbortSignal),
+      [{ id: 'fetch', output: { rows: 3 } }]
+    );
+    expect(store.getRunCheckpoints('run-1')).toEqual([]);
+  });
+
+  it('should start the run over with on_restart: restart', async () => {
+    interruptRun(workflowYaml('restart'));
+
+    const { onExecuteWorkflow, onRunRecovered, store } = startScheduler();
+
+    expect(onRunRecovered).toHaveBeenCalledWith('nightly', 'run-1', 'restart', 0);
+    await vi.waitFor(() => expect(store.getRunStatus('run-1')).toBe('completed'));
+    expect(onExecuteWorkflow.mock.calls[0][5]).toBeUndefined();
+  });
+
+  it('should fail the run and keep its completed steps by default', () => {
+    interruptRun(workflowYaml());
+
+    const { onExecuteWorkflow, onWorkflowCompleted, store } = startScheduler();
+
+    expect(onExecuteWorkflow).not.toHaveBeenCalled();
+    expect(onWorkflowCompleted).toHaveBeenCalledWith('nightly', 'run-1', 'failed', 'Gateway restarted while the run was in progress');
+    expect(store.getRunStatus('run-1')).toBe('failed');
+    expect(store.getRunById('run-1')).toMatchObject({
+      status: 'failed',
+      error: 'Gateway restarted while the run was in progress',
+      steps: [{ stepId: 'fetch', status: 'completed', output: { rows: 3 } }],
+    });
+  });
+
+  it('should only checkpoint completed steps of runs it tracks', () => {
+    const { store } = startScheduler();
+    scheduler!.trackRun({
+      id: 'manual-1',
+      workflowName: 'nightly',
+      triggerType: 'manual',
+      triggerData: {},
+      workflowContent: workflowYaml(),
+    });
+
+    scheduler!.checkpointStep('manual-1', 'fetch', { id: 'fetch', status: 'completed', output: 1 });
+    scheduler!.checkpointStep('manual-1', 'report', { id: 'report', status: 'failed' });
+    scheduler!.checkpointStep('manual-1', 'notify', { id: 'notify', status: 'completed', handlerFor: 'report' });
+    scheduler!.checkpointStep('child-1', 'fetch', { id: 'fetch', status: 'completed', output: 2 });
+    vi.spyOn(scheduler!.secrets, 'contains').mockImplementation((value) => value === 'Bearer key-123');
+    scheduler!.checkpointStep('manual-1', 'auth', { id: 'auth', status: 'completed', output: 'Bearer key-123' });
+
+    expect(store.getRunCheckpoints('manual-1').map((c) => c.id)).toEqual(['fetch']);
+    expect(store.getRunCheckpoints('child-1')).toEqual([]);
+
+    scheduler!.completeTrackedRun('manual-1', 'completed');
+    expect(store.getRunStatus('manual-1')).toBe('completed');
+    expect(store.getRunCheckpoints('manual-1')).toEqual([]);
+  });
+});
+
+describe('TriggerScheduler concurrency and deduplication', () => {
+  let dir: string;
+  let scheduler: TriggerScheduler | undefined;
+
+  const webhookWorkflow = (extra: string) => `
+name: hook
+${extra}
+triggers:
+  - type: http.webhook
+    config:
+      path: hook
+steps:
+  - id: handle
+    action: test.handle
+`;
+
+  // Runs stay in flight until released (or cancelled through their signal)
+  const startScheduler = async (extra: string) => {
+    const release = new Map<string, () => void>();
+    const onExecuteWorkflow = vi.fn((_workflow, _data, runId: string, _content, signal?: AbortSignal) =>
+      new Promise<{ status: 'completed' | 'cancelled' }>((resolve) => {
+        release.set(runId, () => resolve({ status: 'completed' }));
+        signal?.addEventListener('abort', () => resolve({ status: 'cancelled' }));
+      }));
+    const onWorkflowTriggered = vi.fn();
+    const onWorkflowCompleted = vi.fn();
+    scheduler = new TriggerScheduler(dir, new PluginRegistry(), {
+      onExecuteWorkflow,
+      onWorkflowTriggered,
+      onWorkflowCompleted,
+    }, { storePath: join(dir, 'scheduler.db'), pollIntervalMs: 10 });
+    await scheduler.scheduleWorkflow('hook', webhookWorkflow(extra));
+    return { onExecuteWorkflow, onWorkflowTriggered, onWorkflowCompleted, release, store: scheduler.store };
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'weavr-scheduler-'));
+  });
+
+  afterEach(() => {
+    scheduler?.stopAll();
+    scheduler = undefined;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should fold repeated deliveries with the same idempotency key into one run', async () => {
+    const { onWorkflowTriggered } = await startScheduler(`idempotency_key: "{{ trigger.data.body.id }}"`);
+
+    const first = await scheduler!.triggerWebhook('hook', { body: { id: 'evt_1' } });
+    const repeat = await scheduler!.triggerWebhook('hook', { body: { id: 'evt_1' } });
+    const other = await scheduler!.triggerWebhook('hook', { body: { id: 'evt_2' } });
+
+    expect(repeat.runIds).toEqual(first.runIds);
+    expect(other.runIds[0]).not.toBe(first.runIds[0]);
+    expect(onWorkflowTriggered).toHaveBeenCalledTimes(2);
+  });
+
+  it('should queue runs beyond the limit per concurrency key', async () => {
+    const { onExecuteWorkflow, release, store } = await startScheduler(`concurrency:
+  limit: 1
+  key: "{{ trigger.data.body.repo }}"`);
+
+    const a1 = (await scheduler!.triggerWebhook('hook', { body: { repo: 'a' } })).runIds[0];
+    const a2 = (await scheduler!.triggerWebhook('hook', { body: { repo: 'a' } })).runIds[0];
+    const b1 = (await scheduler!.triggerWebhook('hook', { body: { repo: 'b' } })).runIds[0];
+
+    await vi.waitFor(() => expect(onExecuteWorkflow).toHaveBeenCalledTimes(2));
+    expect(store.getRunStatus(a2)).toBe('queued');
+    expect(store.getRunStatus(b1)).toBe('running');
+
+    release.get(a1)!();
+    await vi.waitFor(() => expect(store.getRunStatus(a2)).toBe('running'));
+  });
+
+  it('should drop new runs while the limit is reached with policy skip', async () => {
+    const { onWorkflowTriggered } = await startScheduler(`concurrency:
+  policy: skip`);
+
+    const first = await scheduler!.triggerWebhook('hook', { body: {} });
+    const second = await scheduler!.triggerWebhook('hook', { body: {} });
+
+    expect(first.runIds).toHaveLength(1);
+    expect(second).toEqual({ triggered: [], runIds: [], runs: [] });
+    expect(onWorkflowTriggered).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cancel earlier runs with policy cancel-previous', async () => {
+    const { onExecuteWorkflow, onWorkflowCompleted, store } = await startScheduler(`concurrency:
+  policy: cancel-previous`);
+
+    const running = (await scheduler!.triggerWebhook('hook', { body: {} })).runIds[0];
+    await vi.waitFor(() => expect(onExecuteWorkflow).toHaveBeenCalledTimes(1));
+    const queued = (await scheduler!.triggerWebhook('hook', { body: {} })).runIds[0];
+    const latest = (await scheduler!.triggerWebhook('hook', { body: {} })).runIds[0];
+
+    expect(store.getRunStatus(queued)).toBe('cancelled');
+    expect(onWorkflowCompleted).toHaveBeenCalledWith('hook', queued, 'cancelled', 'Cancelled by a newer run');
+    await vi.waitFor(() => expect(store.getRunStatus(running)).toBe('cancelled'));
+    await vi.waitFor(() => expect(store.getRunStatus(latest)).toBe('running'));
+  });
+});
+
+describe('TriggerScheduler trigger filters', () => {
+  let dir: string;
+  let scheduler: TriggerScheduler;
+  let onWorkflowTriggered: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'weavr-scheduler-'));
+    onWorkflowTriggered = vi.fn();
+    scheduler = new TriggerScheduler(dir, new PluginRegistry(), {
+      onExecuteWorkflow: vi.fn().mockResolvedValue({ status: 'completed' }),
+      onWorkflowTriggered,
+    }, { storePath: join(dir, 'scheduler.db'), pollIntervalMs: 60_000 });
+  });
+
+  afterEach(() => {
+    scheduler.stopAll();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should only start webhook runs whose payload matches the filter', async () => {
+    await scheduler.scheduleWorkflow('invoices', `
+name: invoices
+triggers:
+  - type: http.webhook
+    filter: "contains(lower(trigger.data.body.subject), 'invoice')"
+    config:
+      path: mail
+steps:
+  - id: handle
+    action: test.handle
+`);
+
+    expect(await scheduler.triggerWebhook('mail', { body: { subject: 'Newsletter' } })).toEqual({ triggered: [], runIds: [], runs: [] });
+    expect((await scheduler.triggerWebhook('mail', { body: { subject: 'Invoice #42' } })).triggered).toEqual(['invoices']);
+    expect(onWorkflowTriggered).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pair each webhook run with the trigger that started it', async () => {
+    await scheduler.scheduleWorkflow('forms', `
+name: forms
+triggers:
+  - type: http.webhook
+    filter: "trigger.data.body.urgent == true"
+    config:
+      path: forms
+  - type: http.webhook
+    config:
+      path: forms
+      respond: sync
+steps:
+  - id: handle
+    action: test.handle
+`);
+
+    const { triggered, runIds, runs } = await scheduler.triggerWebhook('forms', { body: { urgent: false } });
+    expect(triggered).toEqual(['forms']);
+    expect(runs).toHaveLength(1);
+    expect(runs[0].trigger.triggerConfig.respond).toBe('sync');
+    expect(runs[0].runId).toBe(runIds[0]);
+  });
+
+  it('should apply the filter to GitHub events', async () => {
+    await scheduler.scheduleWorkflow('triage', `
+name: triage
+triggers:
+  - type: github.issue.opened
+    filter: "{{ 'bug' in trigger.issue.labels && trigger.repository == 'acme/api' }}"
+steps:
+  - id: handle
+    action: test.handle
+`);
+
+    const bug = await scheduler.triggerGitHubEvent('github.issue.opened', { repository: 'acme/api', issue: { labels: ['bug'] } });
+    const question = await scheduler.triggerGitHubEvent('github.issue.opened', { repository: 'acme/api', issue: { labels: ['question'] } });
+    const elsewhere = await scheduler.triggerGitHubEvent('github.issue.opened', { repository: 'acme/web', issue: { labels: ['bug'] } });
+
+    expect([bug, question, elsewhere].map((result) => result.triggered.length)).toEqual([1, 0, 0]);
+  });
+});
+
+describe('SchedulerStore priorities and queues', () => {
+  let store: SchedulerStore;
+
+  const enqueue = (
+    id: string,
+    options: { priority?: number; queue?: string; concurrencyGroup?: string; concurrencyLimit?: number } = {}
+  ) =>
+    store.enqueueRun({
+      id,
+      workflowName: id,
+      triggerType: 'http.webhook',
+      triggerData: {},
+      workflowContent: `name: ${id}`,
+      ...options,
+    });
+
+  beforeEach(() => {
+    store = new SchedulerStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('should claim higher priorities first, then the oldest run', () => {
+    enqueue('backlog-1');
+    enqueue('backlog-2');
+    enqueue('page', { priority: 10 });
+
+    expect(store.claimNextRuns(2).map((run) => run.id)).toEqual(['page', 'backlog-1']);
+  });
+
+  it('should keep each queue under its limit without holding up other queues', () => {
+    enqueue('watch-1', { queue: 'files' });
+    enqueue('watch-2', { queue: 'files' });
+    enqueue('watch-3', { queue: 'files' });
+    enqueue('alert', { queue: 'urgent' });
+
+    expect(store.claimNextRuns(4, { files: 1 }).map((run) => run.id)).toEqual(['watch-1', 'alert']);
+    expect(store.claimNextRuns(4, { files: 1 })).toEqual([]);
+
+    store.markRunCompleted('watch-1', 'completed');
+    expect(store.claimNextRuns(4, { files: 1 }).map((run) => run.id)).toEqual(['watch-2']);
+  });
+
+  it('should not let a run in a full queue hold up its concurrency group', () => {
+    enqueue('watch-1', { queue: 'files' });
+    enqueue('deploy-1', { queue: 'files', concurrencyGroup: 'deploy', concurrencyLimit: 1 });
+    enqueue('deploy-2', { concurrencyGroup: 'deploy', concurrencyLimit: 1 });
+    enqueue('deploy-3', { concurrencyGroup: 'deploy', concurrencyLimit: 1 });
+
+    expect(store.claimNextRuns(4, { files: 1 }).map((run) => run.id)).toEqual(['watch-1', 'deploy-2']);
+    expect(store.claimNextRuns(4, { files: 1 })).toEqual([]);
+
+    store.markRunCompleted('watch-1', 'completed');
+    store.markRunCompleted('deploy-2', 'completed');
+    const [claimed] = store.claimNextRuns(4, { files: 1 });
+    expect(claimed).toMatchObject({ id: 'deploy-1', workflowContent: 'name: deploy-1', attempts: 1 });
+  });
+
+  it('should report depth and wait time per queue', () => {
+    enqueue('watch-1', { queue: 'files' });
+    enqueue('watch-2', { queue: 'files' });
+    enqueue('alert', { queue: 'urgent' });
+    store.claimNextRuns(1, { files: 1 });
+    store.insertRunningRun({ id: 'manual', workflowName: 'manual', triggerType: 'manual', triggerData: {}, workflowContent: '' });
+
+    const stats = store.getQueueStats();
+    expect(stats.map(({ queue, queued, running }) => ({ queue, queued, running }))).toEqual([
+      { queue: 'files', queued: 1, running: 1 },
+      { queue: 'urgent', queued: 1, running: 0 },
+    ]);
+    expect(stats[0].oldestWaitMs).toBeGreaterThanOrEqual(0);
+    expect(stats[0].avgWaitMs).toBeGreaterThanOrEqual(0);
+    expect(stats[1].avgWaitMs).toBeNull();
+  });
+});
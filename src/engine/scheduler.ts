@@ -5,14 +5,29 @@ import { join } from 'node:path';
 import { homedir } from 'node:os';
 import { parse as parseYaml } from 'yaml';
 import { randomUUID } from 'node:crypto';
-import type { Workflow, WorkflowRun, WeavrConfig } from '../types/index.js';
+import type { StepResult, TriggerDelivery, Workflow, WorkflowRun, WeavrConfig } from '../types/index.js';
 import { parser } from './parser.js';
 
 const WEBHOOK_TRIGGER_TYPES = new Set(['http.webhook', 'email.inbound']);
-import { WorkflowExecutor } from './executor.js';
+import { WorkflowExecutor, type ResumedStep } from './executor.js';
 import type { PluginRegistry } from '../plugins/sdk/registry.js';
-import { TriggerManager } from './trigger-manager.js';
-import { SchedulerStore } from './scheduler-store.js';
+import { TriggerManager, matchesTriggerFilter } from './trigger-manager.js';
+import { SchedulerStore, type OrphanedRun, type QueueStats } from './scheduler-store.js';
+import { createSecretStore, type SecretStore } from './secrets.js';
+import { RunCancelledError } from './abort.js';
+import { evaluateExpression, replaceTemplateExpressions } from './expression.js';
+
+// How long an idempotency key is remembered when the workflow doesn't set idempotency_window
+const DEFAULT_IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Render a template outside of a run, e.g. a concurrency key or a webhook secret
+function renderTriggerTemplate(template: string, scope: Record<string, unknown>): string {
+  return replaceTemplateExpressions(template, (expression) => {
+    const value = evaluateExpression(expression, scope);
+    if (value === undefined || value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+}
 
 // Get global timezone from config or system default
 function getGlobalTimezone(): string {
@@ -41,17 +56,49 @@ export interface ScheduledWorkflow {
   cronJob?: Cron;
   workflowContent: string;
   sourcePath?: string;
+  priority?: number; // Priority and queue of runs from this trigger (the trigger's, else the workflow's)
+  queue?: string;
+  delivery?: TriggerDelivery; // Debounce, throttle or batch options of an event trigger
+  filter?: string; // Expression the trigger data must satisfy
+}
+
+interface TriggerEntry {
+  type: string;
+  config: Record<string, unknown>;
+  priority?: number;
+  queue?: string;
+  delivery: TriggerDelivery;
+  filter?: string;
 }
 
 export interface SchedulerEvents {
   onWorkflowTriggered?: (workflowName: string, runId: string) => void;
-  onWorkflowCompleted?: (workflowName: string, runId: string, status: 'success' | 'failed') => void;
+  onWorkflowCompleted?: (workflowName: string, runId: string, status: 'success' | 'failed' | 'cancelled', error?: string) => void;
   onExecuteWorkflow?: (
     workflow: Workflow,
     triggerData: unknown,
     runId: string,
-    workflowContent?: string
+    workflowContent?: string,
+    signal?: AbortSignal, // Aborted by cancelRun()
+    completedSteps?: ResumedStep[] // Checkpointed steps to reuse when continuing a run after a restart
   ) => Promise<WorkflowRun | void>;
+  // An unfinished run from before a restart was put back in the queue (called instead of onWorkflowTriggered)
+  onRunRecovered?: (workflowName: string, runId: string, policy: 'resume' | 'restart', reusedSteps: number) => void;
+}
+
+export type RestartPolicy = 'resume' | 'restart' | 'fail';
+
+// What happened to a triggered run: queued, folded into an earlier run with the same
+// idempotency key (runId is that run's id), or dropped by a `skip` concurrency policy
+export interface EnqueueResult {
+  status: 'queued' | 'duplicate' | 'skipped';
+  runId: string;
+}
+
+// A run started by one of a workflow's triggers
+export interface TriggeredRun {
+  trigger: ScheduledWorkflow;
+  runId: string;
 }
 
 export interface SchedulerOptions {
@@ -62,6 +109,7 @@ export interface SchedulerOptions {
   pollIntervalMs?: number;
   maxCatchUpRuns?: number;
   catchUpWindowMs?: number;
+  queueLimits?: Record<string, number>; // Max runs executing at once per named queue
 }
 
 export class TriggerScheduler {
@@ -71,7 +119,8 @@ export class TriggerScheduler {
   private events: SchedulerEvents;
   private triggerManager: TriggerManager;
   public readonly store: SchedulerStore;
-  private activeRuns = new Set<string>();
+  public readonly secrets: SecretStore;
+  private activeRuns = new Map<string, AbortController>();
   private pollIntervalId?: NodeJS.Timeout;
   private maxConcurrency: number;
   private maxAttempts: number;
@@ -79,6 +128,7 @@ export class TriggerScheduler {
   private pollIntervalMs: number;
   private maxCatchUpRuns: number;
   private catchUpWindowMs: number;
+  private queueLimits: Record<string, number>;
 
   constructor(
     workflowsDir: string,
@@ -88,29 +138,48 @@ export class TriggerScheduler {
   ) {
     this.workflowsDir = workflowsDir;
     this.events = events;
-    this.executor = new WorkflowExecutor({ registry });
+    this.executor = new WorkflowExecutor({
+      registry,
+      loadWorkflow: async (name) =>
+        parser.parse(await readFile(join(workflowsDir, `${name}.yaml`), 'utf-8')),
+      onStepComplete: (runId, stepId, result) => this.checkpointStep(runId, stepId, result),
+      stepCache: {
+        getCachedOutput: (key) => this.store.getCachedOutput(key),
+        saveCachedOutput: (entry) => this.store.saveCachedOutput(entry),
+      },
+      secrets: {
+        context: () => this.secrets.context(),
+        redact: (value) => this.secrets.redact(value),
+        contains: (value) => this.secrets.contains(value),
+      },
+    });
     this.store = new SchedulerStore(options.storePath);
+    this.secrets = createSecretStore(this.store);
     this.maxConcurrency = options.maxConcurrency ?? 4;
     this.maxAttempts = options.maxAttempts ?? 3;
     this.retryDelayMs = options.retryDelayMs ?? 5000;
     this.pollIntervalMs = options.pollIntervalMs ?? 1000;
     this.maxCatchUpRuns = options.maxCatchUpRuns ?? 10;
     this.catchUpWindowMs = options.catchUpWindowMs ?? 24 * 60 * 60 * 1000;
+    this.queueLimits = options.queueLimits ?? {};
 
     // Create TriggerManager for custom triggers (messaging, etc.)
     this.triggerManager = new TriggerManager(registry, workflowsDir, {
       onWorkflowTriggered: events.onWorkflowTriggered,
       onWorkflowCompleted: events.onWorkflowCompleted,
       onExecuteWorkflow: events.onExecuteWorkflow,
-      onEnqueueWorkflow: async (workflowName, workflowContent, triggerData, runId) => {
+      onEnqueueWorkflow: async (workflowName, workflowContent, triggerData, runId, subscriptionId) => {
         const triggerType =
           typeof (triggerData as { type?: unknown })?.type === 'string'
             ? ((triggerData as { type?: string }).type as string)
             : 'custom';
-        this.enqueueRun(workflowName, triggerType, triggerData, workflowContent, runId);
+        this.enqueueRun(workflowName, triggerType, triggerData, workflowContent, runId, {
+          trigger: this.scheduledWorkflows.get(subscriptionId),
+        });
       },
     });
 
+    this.recoverOrphanedRuns();
     this.startQueue();
   }
 
@@ -160,14 +229,20 @@ export class TriggerScheduler {
 
       let firstScheduled: ScheduledWorkflow | null = null;
       for (let index = 0; index < triggers.length; index += 1) {
-        const { type: triggerType, config: triggerConfig } = triggers[index];
+        const { type: triggerType, config: triggerConfig, priority, queue, delivery, filter } = triggers[index];
         const scheduled = await this.scheduleTrigger(
           name,
           triggerType,
           triggerConfig,
           yamlContent,
           sourcePath,
-          index
+          index,
+          {
+            priority: priority ?? (typeof raw.priority === 'number' ? raw.priority : undefined),
+            queue: queue ?? (typeof raw.queue === 'string' ? raw.queue : undefined),
+            delivery,
+            filter,
+          }
         );
         if (!firstScheduled) {
           firstScheduled = scheduled;
@@ -231,7 +306,9 @@ export class TriggerScheduler {
           scheduled.triggerType,
           scheduled.triggerConfig,
           scheduled.workflowContent,
-          scheduled.id
+          scheduled.id,
+          scheduled.delivery,
+          scheduled.filter
         );
       }
       updated = true;
@@ -245,16 +322,104 @@ export class TriggerScheduler {
     triggerData: unknown,
     yamlContent: string,
     runId: string,
-    scheduledFor?: string | null
-  ): void {
+    options: { scheduledFor?: string | null; trigger?: ScheduledWorkflow } = {}
+  ): EnqueueResult {
+    let workflow: Workflow | null = null;
+    try {
+      workflow = parser.parse(yamlContent);
+    } catch {
+      // Queued anyway; the run fails with the parse error when it executes
+    }
+    const scope = { trigger: triggerData, env: workflow?.env ?? {} };
+
+    let idempotencyKey: string | null = null;
+    if (workflow?.idempotency_key) {
+      idempotencyKey = this.renderKey(workflow.idempotency_key, scope, name) || null;
+      const since = Date.now() - (workflow.idempotency_window ?? DEFAULT_IDEMPOTENCY_WINDOW_MS);
+      const existing = idempotencyKey ? this.store.findRunByIdempotencyKey(name, idempotencyKey, since) : null;
+      if (existing) {
+        console.log(`[scheduler] Duplicate trigger for ${name} (key: ${idempotencyKey}); already handled by run ${existing}`);
+        return { status: 'duplicate', runId: existing };
+      }
+    }
+
+    const concurrency = workflow?.concurrency;
+    let concurrencyGroup: string | null = null;
+    if (concurrency) {
+      const key = concurrency.key ? this.renderKey(concurrency.key, scope, name) : '';
+      concurrencyGroup = key ? `${name}:${key}` : name;
+      const active = this.store.getActiveRunsInGroup(concurrencyGroup);
+
+      if (concurrency.policy === 'skip' && active.length >= concurrency.limit) {
+        console.log(`[scheduler] Skipped trigger for ${name}: ${active.length} run(s) already active in ${concurrencyGroup}`);
+        return { status: 'skipped', runId };
+      }
+      if (concurrency.policy === 'cancel-previous') {
+        for (const previous of active) {
+          if (this.cancelRun(previous.id) === 'queued') {
+            // Never claimed, so nothing else will report it finished
+            this.events.onWorkflowCompleted?.(previous.workflowName, previous.id, 'cancelled', 'Cancelled by a newer run');
+          }
+        }
+      }
+    }
+
     this.store.enqueueRun({
       id: runId,
       workflowName: name,
       triggerType,
       triggerData,
       workflowContent: yamlContent,
-      scheduledFor: scheduledFor ?? null,
+      scheduledFor: options.scheduledFor ?? null,
+      concurrencyGroup,
+      concurrencyLimit: concurrency?.limit ?? null,
+      idempotencyKey,
+      priority: options.trigger?.priority ?? workflow?.priority ?? 0,
+      queue: options.trigger?.queue ?? workflow?.queue ?? 'default',
     });
+    this.events.onWorkflowTriggered?.(name, runId);
+    return { status: 'queued', runId };
+  }
+
+  // A key that can't be rendered is treated as absent rather than blocking the trigger
+  private renderKey(template: string, scope: Record<string, unknown>, workflowName: string): string {
+    try {
+      return renderTriggerTemplate(template, scope);
+    } catch (err) {
+      console.error(`[scheduler] Could not render key "${template}" for ${workflowName}:`, err);
+      return '';
+    }
+  }
+
+  /**
+   * Record a run that executes outside the queue (manual and resumed runs) so its
+   * steps are checkpointed and it's recovered after a restart like a queued run.
+   */
+  trackRun(run: {
+    id: string;
+    workflowName: string;
+    triggerType: string;
+    triggerData: unknown;
+    workflowContent: string;
+  }): void {
+    this.store.insertRunningRun(run);
+  }
+
+  completeTrackedRun(runId: string, status: WorkflowRun['status'], error?: string): void {
+    const final = status === 'completed' || status === 'cancelled' ? status : 'failed';
+    this.store.markRunCompleted(runId, final, error);
+  }
+
+  // Persist a completed step so the run can continue from it if the gateway stops.
+  // Outputs holding secrets aren't written to disk; those steps run again on recovery.
+  checkpointStep(runId: string, stepId: string, result: StepResult): void {
+    if ((result.status !== 'completed' && result.status !== 'cached') || result.handlerFor) return;
+    if (this.secrets.contains(result.output)) return;
+    try {
+      this.store.saveRunCheckpoint(runId, stepId, result.output);
+    } catch (err) {
+      console.error(`[scheduler] Failed to checkpoint step ${stepId} of run ${runId}:`, err);
+    }
   }
 
   getScheduledWorkflows(): ScheduledWorkflow[] {
@@ -267,6 +432,17 @@ export class TriggerScheduler {
     return Array.from(this.scheduledWorkflows.values());
   }
 
+  // Depth and wait time per named queue, with each queue's configured limit
+  getQueueStats(): Array<QueueStats & { limit?: number }> {
+    const stats = this.store.getQueueStats();
+    for (const queue of Object.keys(this.queueLimits)) {
+      if (!stats.some((entry) => entry.queue === queue)) {
+        stats.push({ queue, queued: 0, delayed: 0, running: 0, oldestWaitMs: null, avgWaitMs: null });
+      }
+    }
+    return stats.map((entry) => ({ ...entry, limit: this.queueLimits[entry.queue] }));
+  }
+
   getWorkflowSchedule(name: string): ScheduledWorkflow | undefined {
     const scheduled = Array.from(this.scheduledWorkflows.values()).find((entry) => entry.name === name);
     if (scheduled?.cronJob && scheduled.status === 'active') {
@@ -275,47 +451,72 @@ export class TriggerScheduler {
     return scheduled;
   }
 
-  // For webhook triggers - called externally
-  async triggerWebhook(path: string, data: unknown): Promise<{ triggered: string[]; runIds: string[] }> {
-    const triggered: string[] = [];
-    const runIds: string[] = [];
-
-    for (const scheduled of this.scheduledWorkflows.values()) {
-      if (scheduled.status !== 'active') continue;
-      if (!WEBHOOK_TRIGGER_TYPES.has(scheduled.triggerType)) continue;
+  // Active webhook triggers listening on a path
+  getWebhookTriggers(path: string): ScheduledWorkflow[] {
+    return Array.from(this.scheduledWorkflows.values()).filter((scheduled) => {
+      if (scheduled.status !== 'active') return false;
+      if (!WEBHOOK_TRIGGER_TYPES.has(scheduled.triggerType)) return false;
 
       const defaultPath = scheduled.triggerType === 'email.inbound' ? 'email' : undefined;
       const webhookPath = (scheduled.triggerConfig.path as string | undefined) ?? defaultPath;
-      if (!webhookPath) continue;
-      if (webhookPath === path || webhookPath === `/${path}` || `/${webhookPath}` === path) {
-        try {
-          const runId = randomUUID();
+      if (!webhookPath) return false;
+      return webhookPath === path || webhookPath === `/${path}` || `/${webhookPath}` === path;
+    });
+  }
+
+  // Render a webhook trigger's verify.secret, which can read `secrets` and the workflow's `env`
+  renderWebhookSecret(scheduled: ScheduledWorkflow, template: string): string {
+    let env: Record<string, string> = {};
+    try {
+      env = parser.parse(scheduled.workflowContent).env ?? {};
+    } catch {
+      // Secrets alone are enough to render it
+    }
+    return renderTriggerTemplate(template, { secrets: this.secrets.context(), env });
+  }
+
+  // For webhook triggers - called externally
+  // `accept` lets the caller skip triggers, e.g. ones whose signature check the delivery failed
+  async triggerWebhook(
+    path: string,
+    data: unknown,
+    accept: (scheduled: ScheduledWorkflow) => boolean = () => true
+  ): Promise<{ triggered: string[]; runIds: string[]; runs: TriggeredRun[] }> {
+    const triggered: string[] = [];
+    const runIds: string[] = [];
+    const runs: TriggeredRun[] = [];
+
+    for (const scheduled of this.getWebhookTriggers(path)) {
+      if (!accept(scheduled)) continue;
+      try {
+        const triggerPayload = scheduled.triggerType === 'email.inbound'
+          ? {
+            type: 'email',
+            path,
+            provider: scheduled.triggerConfig.provider as string | undefined,
+            data,
+          }
+          : { type: 'webhook', path, data };
+        if (!matchesTriggerFilter(scheduled.filter, triggerPayload)) continue;
+        const result = this.enqueueRun(
+          scheduled.name,
+          scheduled.triggerType,
+          triggerPayload,
+          scheduled.workflowContent,
+          randomUUID(),
+          { trigger: scheduled }
+        );
+        if (result.status !== 'skipped') {
           triggered.push(scheduled.name);
-          runIds.push(runId);
-
-          this.events.onWorkflowTriggered?.(scheduled.name, runId);
-          const triggerPayload = scheduled.triggerType === 'email.inbound'
-            ? {
-              type: 'email',
-              path,
-              provider: scheduled.triggerConfig.provider as string | undefined,
-              data,
-            }
-            : { type: 'webhook', path, data };
-          this.enqueueRun(
-            scheduled.name,
-            scheduled.triggerType,
-            triggerPayload,
-            scheduled.workflowContent,
-            runId
-          );
-        } catch (err) {
-          console.error(`[scheduler] Failed to trigger webhook for ${scheduled.name}:`, err);
+          runIds.push(result.runId);
+          runs.push({ trigger: scheduled, runId: result.runId });
         }
+      } catch (err) {
+        console.error(`[scheduler] Failed to trigger webhook for ${scheduled.name}:`, err);
       }
     }
 
-    return { triggered, runIds };
+    return { triggered, runIds, runs };
   }
 
   // For GitHub webhook events - called from the GitHub webhook handler
@@ -352,20 +553,23 @@ export class TriggerScheduler {
         }
       }
 
-      const runId = randomUUID();
-      triggered.push(scheduled.name);
-      runIds.push(runId);
-
-      this.events.onWorkflowTriggered?.(scheduled.name, runId);
-      console.log(`[scheduler] GitHub event triggered workflow: ${scheduled.name} (run: ${runId})`);
+      const triggerPayload = { type: 'github', triggerType, ...data };
+      if (!matchesTriggerFilter(scheduled.filter, triggerPayload)) continue;
 
-      this.enqueueRun(
+      const result = this.enqueueRun(
         scheduled.name,
         triggerType,
-        { type: 'github', triggerType, ...data },
+        triggerPayload,
         scheduled.workflowContent,
-        runId
+        randomUUID(),
+        { trigger: scheduled }
       );
+      if (result.status === 'skipped') continue;
+      triggered.push(scheduled.name);
+      runIds.push(result.runId);
+      if (result.status === 'queued') {
+        console.log(`[scheduler] GitHub event triggered workflow: ${scheduled.name} (run: ${result.runId})`);
+      }
     }
 
     return { triggered, runIds };
@@ -388,24 +592,31 @@ export class TriggerScheduler {
     console.log('[scheduler] All workflows stopped');
   }
 
-  private extractTriggers(raw: Record<string, unknown>): Array<{ type: string; config: Record<string, unknown> }> {
-    const triggers: Array<{ type: string; config: Record<string, unknown> }> = [];
+  private extractTriggers(raw: Record<string, unknown>): TriggerEntry[] {
+    const toEntry = (entry: Record<string, unknown>): TriggerEntry => ({
+      type: entry.type as string,
+      config: (entry.with as Record<string, unknown>) ?? (entry.config as Record<string, unknown>) ?? {},
+      priority: typeof entry.priority === 'number' ? entry.priority : undefined,
+      queue: typeof entry.queue === 'string' ? entry.queue : undefined,
+      delivery: {
+        debounce: typeof entry.debounce === 'number' ? entry.debounce : undefined,
+        throttle: typeof entry.throttle === 'number' ? entry.throttle : undefined,
+        batch: entry.batch as TriggerDelivery['batch'],
+      },
+      filter: typeof entry.filter === 'string' ? entry.filter : undefined,
+    });
+
+    const triggers: TriggerEntry[] = [];
     const single = raw.trigger as Record<string, unknown> | undefined;
     if (single?.type) {
-      triggers.push({
-        type: single.type as string,
-        config: (single.with as Record<string, unknown>) ?? (single.config as Record<string, unknown>) ?? {},
-      });
+      triggers.push(toEntry(single));
     }
 
     const list = raw.triggers as Array<Record<string, unknown>> | undefined;
     if (Array.isArray(list)) {
       for (const entry of list) {
         if (!entry?.type) continue;
-        triggers.push({
-          type: entry.type as string,
-          config: (entry.with as Record<string, unknown>) ?? (entry.config as Record<string, unknown>) ?? {},
-        });
+        triggers.push(toEntry(entry));
       }
     }
 
@@ -422,7 +633,8 @@ export class TriggerScheduler {
     triggerConfig: Record<string, unknown>,
     yamlContent: string,
     sourcePath: string | undefined,
-    index: number
+    index: number,
+    routing: { priority?: number; queue?: string; delivery?: TriggerDelivery; filter?: string } = {}
   ): Promise<ScheduledWorkflow> {
     const id = this.scheduleKey(name, triggerType, index);
     const scheduled: ScheduledWorkflow = {
@@ -433,6 +645,7 @@ export class TriggerScheduler {
       status: 'active',
       workflowContent: yamlContent,
       sourcePath,
+      ...routing,
     };
 
     if (triggerType === 'cron.schedule') {
@@ -445,17 +658,18 @@ export class TriggerScheduler {
       } else {
         try {
           const cronJob = new Cron(expression, { timezone }, async () => {
-            const runId = randomUUID();
-            this.events.onWorkflowTriggered?.(name, runId);
             const scheduledFor = new Date().toISOString();
-            this.enqueueRun(
-              name,
-              triggerType,
-              { type: 'cron', expression, scheduledFor },
-              yamlContent,
-              runId,
-              scheduledFor
-            );
+            const triggerData = { type: 'cron', expression, scheduledFor };
+            if (matchesTriggerFilter(scheduled.filter, triggerData)) {
+              this.enqueueRun(
+                name,
+                triggerType,
+                triggerData,
+                yamlContent,
+                randomUUID(),
+                { scheduledFor, trigger: scheduled }
+              );
+            }
             this.store.setScheduleLastRun(id, Date.now());
           });
 
@@ -463,7 +677,7 @@ export class TriggerScheduler {
           scheduled.nextRun = cronJob.nextRun()?.toISOString();
 
           this.store.upsertSchedule(id, name, triggerType, expression, timezone);
-          this.catchUpCronRuns(id, cronJob, name, expression, yamlContent);
+          this.catchUpCronRuns(scheduled, cronJob, expression);
 
           console.log(`[scheduler] Cron scheduled: ${name} (${expression}) timezone: ${timezone} - next: ${scheduled.nextRun}`);
         } catch (err) {
@@ -472,7 +686,15 @@ export class TriggerScheduler {
         }
       }
     } else if (!WEBHOOK_TRIGGER_TYPES.has(triggerType)) {
-      const success = await this.triggerManager.setupTrigger(name, triggerType, triggerConfig, yamlContent, id);
+      const success = await this.triggerManager.setupTrigger(
+        name,
+        triggerType,
+        triggerConfig,
+        yamlContent,
+        id,
+        routing.delivery,
+        routing.filter
+      );
       if (success) {
         console.log(`[scheduler] Custom trigger set up: ${name} (${triggerType})`);
       } else {
@@ -484,14 +706,8 @@ export class TriggerScheduler {
     return scheduled;
   }
 
-  private catchUpCronRuns(
-    scheduleId: string,
-    cronJob: Cron,
-    workflowName: string,
-    expression: string,
-    yamlContent: string
-  ): void {
-    const lastRunAt = this.store.getScheduleLastRun(scheduleId);
+  private catchUpCronRuns(scheduled: ScheduledWorkflow, cronJob: Cron, expression: string): void {
+    const lastRunAt = this.store.getScheduleLastRun(scheduled.id);
     if (lastRunAt === null) return;
 
     const now = Date.now();
@@ -504,21 +720,95 @@ export class TriggerScheduler {
     if (dueRuns.length === 0) return;
 
     for (const runDate of dueRuns) {
-      const runId = randomUUID();
       const scheduledFor = runDate.toISOString();
-      this.events.onWorkflowTriggered?.(workflowName, runId);
+      const triggerData = { type: 'cron', expression, scheduledFor };
+      if (!matchesTriggerFilter(scheduled.filter, triggerData)) continue;
       this.enqueueRun(
-        workflowName,
+        scheduled.name,
         'cron.schedule',
-        { type: 'cron', expression, scheduledFor },
-        yamlContent,
-        runId,
-        scheduledFor
+        triggerData,
+        scheduled.workflowContent,
+        randomUUID(),
+        { scheduledFor, trigger: scheduled }
       );
     }
 
     const last = dueRuns[dueRuns.length - 1];
-    this.store.setScheduleLastRun(scheduleId, last.getTime());
+    this.store.setScheduleLastRun(scheduled.id, last.getTime());
+  }
+
+  // Runs left 'running' by a previous process are resumed, restarted or failed per their workflow's on_restart
+  private recoverOrphanedRuns(): void {
+    for (const run of this.store.getOrphanedRuns()) {
+      try {
+        this.recoverRun(run);
+      } catch (err) {
+        console.error(`[scheduler] Failed to recover run ${run.id}:`, err);
+      }
+    }
+  }
+
+  private recoverRun(run: OrphanedRun): void {
+    let policy: RestartPolicy = 'fail';
+    try {
+      policy = parser.parse(run.workflowContent).on_restart ?? 'fail';
+    } catch {
+      // A snapshot that no longer parses can't be executed again
+    }
+    // A run waiting on an approval.request was doing nothing but waiting, so it always picks up where it was
+    if (this.store.listApprovals({ runId: run.id, status: 'pending' }).length > 0) {
+      policy = 'resume';
+    }
+
+    if (policy === 'fail') {
+      this.failOrphanedRun(run);
+      return;
+    }
+
+    if (policy === 'restart') {
+      this.store.clearRunCheckpoints(run.id);
+    }
+    const reusedSteps = policy === 'resume' ? this.store.getRunCheckpoints(run.id).length : 0;
+    this.store.requeueRun(run.id);
+    if (this.events.onRunRecovered) {
+      this.events.onRunRecovered(run.workflowName, run.id, policy, reusedSteps);
+    } else {
+      this.events.onWorkflowTriggered?.(run.workflowName, run.id);
+    }
+    console.log(
+      policy === 'resume'
+        ? `[scheduler] Resuming run ${run.id} of ${run.workflowName} after restart (${reusedSteps} completed step(s))`
+        : `[scheduler] Restarting run ${run.id} of ${run.workflowName} after restart`
+    );
+  }
+
+  // Finalize the run and keep it in history with its completed steps, so it can still be resumed by hand
+  private failOrphanedRun(run: OrphanedRun): void {
+    const error = 'Gateway restarted while the run was in progress';
+    const checkpoints = this.store.getRunCheckpoints(run.id);
+    const now = Date.now();
+
+    this.store.markRunCompleted(run.id, 'failed', error);
+    this.store.saveCompletedRun({
+      id: run.id,
+      workflowName: run.workflowName,
+      status: 'failed',
+      startedAt: run.startedAt,
+      completedAt: now,
+      duration: now - run.startedAt,
+      error,
+      triggerType: run.triggerType,
+      triggerData: run.triggerData,
+      workflowContent: run.workflowContent,
+      logs: [{ timestamp: now, level: 'error', message: `Workflow failed: ${error}` }],
+      steps: checkpoints.map((checkpoint) => ({
+        stepId: checkpoint.id,
+        status: 'completed',
+        output: checkpoint.output,
+      })),
+    });
+    this.events.onWorkflowCompleted?.(run.workflowName, run.id, 'failed', error);
+    console.error(`[scheduler] Run ${run.id} of ${run.workflowName} failed: ${error}`);
   }
 
   private startQueue(): void {
@@ -533,15 +823,30 @@ export class TriggerScheduler {
     const available = this.maxConcurrency - this.activeRuns.size;
     if (available <= 0) return;
 
-    const runs = this.store.claimNextRuns(available);
+    const runs = this.store.claimNextRuns(available, this.queueLimits);
     for (const run of runs) {
-      this.activeRuns.add(run.id);
-      void this.executeRun(run).finally(() => {
+      const controller = new AbortController();
+      this.activeRuns.set(run.id, controller);
+      void this.executeRun(run, controller.signal).finally(() => {
         this.activeRuns.delete(run.id);
       });
     }
   }
 
+  /**
+   * Cancel a queued or running run. Queued runs are finalized immediately;
+   * running ones are aborted and finalized when the executor returns.
+   */
+  cancelRun(runId: string): 'queued' | 'running' | null {
+    const controller = this.activeRuns.get(runId);
+    if (controller) {
+      if (controller.signal.aborted) return null;
+      controller.abort(new RunCancelledError());
+      return 'running';
+    }
+    return this.store.cancelQueuedRun(runId) ? 'queued' : null;
+  }
+
   private async executeRun(run: {
     id: string;
     workflowName: string;
@@ -549,14 +854,30 @@ export class TriggerScheduler {
     triggerData: unknown;
     workflowContent: string;
     attempts: number;
-  }): Promise<void> {
+  }, signal: AbortSignal): Promise<void> {
     try {
       const workflow = parser.parse(run.workflowContent);
+      // Only runs recovered with on_restart: resume have checkpoints when they're claimed
+      const checkpoints = this.store.getRunCheckpoints(run.id);
+      const completedSteps = checkpoints.length > 0
+        ? checkpoints.map(({ id, output }) => ({ id, output }))
+        : undefined;
+
       const result = this.events.onExecuteWorkflow
-        ? await this.events.onExecuteWorkflow(workflow, run.triggerData, run.id, run.workflowContent)
-        : await this.executor.execute(workflow, run.triggerData, run.id);
+        ? await this.events.onExecuteWorkflow(workflow, run.triggerData, run.id, run.workflowContent, signal, completedSteps)
+        : completedSteps
+          ? await this.executor.resume(workflow, run.triggerData, completedSteps, run.id, signal)
+          : await this.executor.execute(workflow, run.triggerData, run.id, undefined, signal);
 
       const status = result?.status ?? 'completed';
+      if (status === 'cancelled' || signal.aborted) {
+        // Cancelled runs are final: no retry and no change to the schedule's last status
+        this.store.markRunCompleted(run.id, 'cancelled', result?.error ?? 'Run cancelled');
+        if (!this.events.onExecuteWorkflow) {
+          this.events.onWorkflowCompleted?.(run.workflowName, run.id, 'cancelled');
+        }
+        return;
+      }
       if (status === 'failed') {
         throw new Error(result?.error ?? 'Workflow failed');
       }
@@ -565,7 +886,7 @@ export class TriggerScheduler {
       this.markWorkflowCompletion(run.workflowName, run.id, 'success');
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : String(err);
-      if (run.attempts < this.maxAttempts) {
+      if (run.attempts < this.maxAttempts && !signal.aborted) {
         const delay = this.retryDelayMs * Math.pow(2, run.attempts - 1);
         this.store.rescheduleRun(run.id, Date.now() + delay, errorMessage);
       } else {
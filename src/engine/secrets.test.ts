@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomBytes } from 'node:crypto';
+import { SchedulerStore } from './scheduler-store.js';
+import { createSecretStore, hasRedactedSecrets, redactSecrets } from './secrets.js';
+
+describe('secrets', () => {
+  let store: SchedulerStore;
+
+  beforeEach(() => {
+    store = new SchedulerStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('should keep values encrypted at rest and decrypt them with the same master key', () => {
+    const masterKey = randomBytes(32);
+    const secrets = createSecretStore(store, { masterKey });
+
+    secrets.set('STRIPE_KEY', 'sk_live_abcdef');
+    expect(store.getEncryptedSecret('STRIPE_KEY')?.ciphertext.toString('utf8')).not.toContain('sk_live_abcdef');
+    expect(secrets.list().map((secret) => secret.name)).toEqual(['STRIPE_KEY']);
+    expect(secrets.get('STRIPE_KEY')).toBe('sk_live_abcdef');
+    expect(secrets.context().STRIPE_KEY).toBe('sk_live_abcdef');
+
+    const createdAt = secrets.list()[0].createdAt;
+    secrets.set('STRIPE_KEY', 'sk_live_rotated');
+    expect(secrets.get('STRIPE_KEY')).toBe('sk_live_rotated');
+    expect(secrets.list()[0].createdAt).toBe(createdAt);
+
+    const otherKey = createSecretStore(store, { masterKey: randomBytes(32) });
+    expect(() => otherKey.get('STRIPE_KEY')).toThrow('Could not decrypt secret "STRIPE_KEY"');
+    expect(otherKey.redact('sk_live_rotated')).toBe('sk_live_rotated');
+
+    expect(() => secrets.set('stripe-key', 'x')).toThrow('Invalid secret name');
+    expect(secrets.delete('STRIPE_KEY')).toBe(true);
+    expect(secrets.get('STRIPE_KEY')).toBeNull();
+  });
+
+  it('should cache decrypted values and pick up changes made by another process', () => {
+    vi.useFakeTimers();
+    try {
+      const masterKey = randomBytes(32);
+      const gateway = createSecretStore(store, { masterKey });
+      const cli = createSecretStore(store, { masterKey });
+      cli.set('TOKEN', 'first-value');
+      expect(gateway.redact('Bearer first-value')).toBe('Bearer [secret:TOKEN]');
+
+      const listed = vi.spyOn(store, 'listEncryptedSecrets');
+      gateway.redact('another log line');
+      expect(gateway.context().TOKEN).toBe('first-value');
+      expect(listed).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(10);
+      cli.set('TOKEN', 'second-value');
+      vi.advanceTimersByTime(1000);
+      expect(gateway.get('TOKEN')).toBe('second-value');
+      expect(listed).toHaveBeenCalledTimes(1);
+
+      gateway.delete('TOKEN');
+      expect(gateway.redact('second-value')).toBe('second-value');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should redact secret values anywhere in a value', () => {
+    const secrets = { TOKEN: 'abc123', LONG_TOKEN: 'abc123xyz', PIN: '42' };
+
+    expect(redactSecrets({
+      message: 'Bearer abc123xyz then abc123',
+      items: ['abc123', 42, null],
+      at: 'PIN 42',
+    }, secrets)).toEqual({
+      message: 'Bearer [secret:LONG_TOKEN] then [secret:TOKEN]',
+      items: ['[secret:TOKEN]', 42, null],
+      at: 'PIN 42',
+    });
+    expect(redactSecrets('no secrets here', {})).toBe('no secrets here');
+  });
+
+  it('should spot stored step outputs that had a secret redacted, so a resumed run executes them again', () => {
+    const output = redactSecrets({ headers: { authorization: 'Bearer abc123' }, status: 200 }, { TOKEN: 'abc123' });
+
+    expect(hasRedactedSecrets(output)).toBe(true);
+    expect(hasRedactedSecrets({ headers: {}, status: 200 })).toBe(false);
+    expect(hasRedactedSecrets(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,213 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { WEAVR_DIR } from '../config/index.js';
+import type { EncryptedSecret, SchedulerStore, SecretRecord } from './scheduler-store.js';
+
+export const MASTER_KEY_ENV = 'WEAVR_MASTER_KEY';
+export const MASTER_KEY_FILE = join(WEAVR_DIR, 'master.key');
+
+// Names have to work as `{{ secrets.NAME }}`
+export const SECRET_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Shorter values would blank out ordinary words in logs, so they aren't redacted
+export const MIN_REDACTED_LENGTH = 4;
+
+const ALGORITHM = 'aes-256-gcm';
+
+// How often the decrypted cache checks for changes made by another process, e.g. `weavr secret set`
+const CACHE_CHECK_INTERVAL = 1000;
+
+export class SecretsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretsError';
+  }
+}
+
+export function assertSecretName(name: string): void {
+  if (!SECRET_NAME_PATTERN.test(name)) {
+    throw new SecretsError(
+      `Invalid secret name "${name}". Use letters, digits and underscores, not starting with a digit`
+    );
+  }
+}
+
+// A master key is 32 bytes, written as hex or base64
+function parseMasterKey(text: string, source: string): Buffer {
+  const value = text.trim();
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+  if (key.length !== 32) {
+    throw new SecretsError(`${source} must hold a 32-byte key, hex or base64 encoded`);
+  }
+  return key;
+}
+
+// WEAVR_MASTER_KEY wins over the key file; the file is created (readable only by its owner) on first use
+export function loadMasterKey(keyFile = MASTER_KEY_FILE): Buffer {
+  const fromEnv = process.env[MASTER_KEY_ENV];
+  if (fromEnv) return parseMasterKey(fromEnv, MASTER_KEY_ENV);
+
+  try {
+    return parseMasterKey(readFileSync(keyFile, 'utf-8'), keyFile);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+  }
+
+  const key = randomBytes(32);
+  mkdirSync(dirname(keyFile), { recursive: true });
+  try {
+    writeFileSync(keyFile, `${key.toString('base64')}\n`, { mode: 0o600, flag: 'wx' });
+    return key;
+  } catch (err) {
+    // Another process created it first
+    if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+    return parseMasterKey(readFileSync(keyFile, 'utf-8'), keyFile);
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+// Replace every occurrence of a secret value in the strings of `value` with [secret:NAME]
+export function redactSecrets<T>(value: T, secrets: Record<string, string>): T {
+  const byValue = new Map<string, string>();
+  for (const [name, secret] of Object.entries(secrets)) {
+    if (secret.length >= MIN_REDACTED_LENGTH) byValue.set(secret, name);
+  }
+  if (byValue.size === 0) return value;
+
+  // Longest first, so a secret that contains another is replaced whole
+  const pattern = new RegExp(
+    [...byValue.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|'),
+    'g'
+  );
+
+  const visit = (item: unknown): unknown => {
+    if (typeof item === 'string') return item.replace(pattern, (match) => `[secret:${byValue.get(match)}]`);
+    if (Array.isArray(item)) return item.map(visit);
+    if (isPlainObject(item)) {
+      return Object.fromEntries(Object.entries(item).map(([key, entry]) => [key, visit(entry)]));
+    }
+    return item;
+  };
+  return visit(value) as T;
+}
+
+// Stored run data with a [secret:NAME] placeholder lost the real value, so it can't be reused as is
+export function hasRedactedSecrets(value: unknown): boolean {
+  return /\[secret:[A-Za-z_][A-Za-z0-9_]*\]/.test(JSON.stringify(value) ?? '');
+}
+
+export interface SecretStore {
+  list(): SecretRecord[];
+  get(name: string): string | null;
+  set(name: string, value: string): SecretRecord;
+  delete(name: string): boolean;
+  // The `secrets` interpolation variable
+  context(): Record<string, string>;
+  redact<T>(value: T): T;
+  // Whether a value holds a secret, e.g. a step output that shouldn't be persisted
+  contains(value: unknown): boolean;
+}
+
+export function createSecretStore(
+  store: SchedulerStore,
+  options: { masterKey?: Buffer; keyFile?: string } = {}
+): SecretStore {
+  // Loaded on first use, so a gateway without secrets never creates a key file
+  let masterKey = options.masterKey;
+  const key = (): Buffer => (masterKey ??= loadMasterKey(options.keyFile));
+
+  const decrypt = (secret: EncryptedSecret): string => {
+    const secretKey = key();
+    try {
+      const decipher = createDecipheriv(ALGORITHM, secretKey, secret.iv);
+      decipher.setAAD(Buffer.from(secret.name));
+      decipher.setAuthTag(secret.authTag);
+      return Buffer.concat([decipher.update(secret.ciphertext), decipher.final()]).toString('utf8');
+    } catch {
+      throw new SecretsError(`Could not decrypt secret "${secret.name}". Was it saved with a different master key?`);
+    }
+  };
+
+  // Decrypted values, kept in memory because redaction runs on every log line and broadcast.
+  // set() and delete() clear it; changes from other processes are picked up within a second.
+  // Values that can't be decrypted can't leak through a run either, so they're left out.
+  let cache: { names: Set<string>; values: Record<string, string>; version: string; checkedAt: number } | null = null;
+  const decrypted = () => {
+    const now = Date.now();
+    if (cache && now - cache.checkedAt < CACHE_CHECK_INTERVAL) return cache;
+    const version = store.getSecretsVersion();
+    if (cache?.version === version) {
+      cache.checkedAt = now;
+      return cache;
+    }
+
+    const names = new Set<string>();
+    const values: Record<string, string> = {};
+    for (const secret of store.listEncryptedSecrets()) {
+      names.add(secret.name);
+      try {
+        values[secret.name] = decrypt(secret);
+      } catch {
+        // Skipped
+      }
+    }
+    cache = { names, values, version, checkedAt: now };
+    return cache;
+  };
+
+  const get = (name: string): string | null => {
+    const { names, values } = decrypted();
+    if (Object.hasOwn(values, name)) return values[name];
+    if (!names.has(name)) return null;
+    // Stored but unreadable: decrypt again for the error
+    const secret = store.getEncryptedSecret(name);
+    return secret ? decrypt(secret) : null;
+  };
+
+  return {
+    list: () => store.listSecrets(),
+
+    get,
+
+    set(name, value) {
+      assertSecretName(name);
+      const iv = randomBytes(12);
+      const cipher = createCipheriv(ALGORITHM, key(), iv);
+      // Binding the name stops a ciphertext from being copied to another secret
+      cipher.setAAD(Buffer.from(name));
+      const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+      cache = null;
+      return store.saveSecret({ name, ciphertext, iv, authTag: cipher.getAuthTag() });
+    },
+
+    delete(name) {
+      cache = null;
+      return store.deleteSecret(name);
+    },
+
+    context() {
+      const context: Record<string, string> = {};
+      for (const name of decrypted().names) {
+        Object.defineProperty(context, name, {
+          enumerable: true,
+          get: () => get(name) ?? '',
+        });
+      }
+      return context;
+    },
+
+    redact: (value) => redactSecrets(value, decrypted().values),
+
+    contains: (value) => JSON.stringify(redactSecrets(value, decrypted().values)) !== JSON.stringify(value),
+  };
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createDeliveryGate } from './trigger-delivery.js';
+
+describe('createDeliveryGate', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should deliver every event when no options are set', () => {
+    const deliver = vi.fn();
+    const gate = createDeliveryGate({}, 'fs.watch', deliver);
+
+    gate.push({ path: 'a' });
+    gate.push({ path: 'b' });
+
+    expect(deliver.mock.calls).toEqual([[{ path: 'a' }], [{ path: 'b' }]]);
+  });
+
+  it('should deliver the last event once events stop with debounce', () => {
+    const deliver = vi.fn();
+    const gate = createDeliveryGate({ debounce: 100 }, 'fs.watch', deliver);
+
+    gate.push({ path: 'a' });
+    vi.advanceTimersByTime(60);
+    gate.push({ path: 'b' });
+    vi.advanceTimersByTime(60);
+    expect(deliver).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(40);
+    expect(deliver.mock.calls).toEqual([[{ path: 'b' }]]);
+  });
+
+  it('should drop events inside the window with throttle', () => {
+    const deliver = vi.fn();
+    const gate = createDeliveryGate({ throttle: 100 }, 'fs.watch', deliver);
+
+    gate.push({ path: 'a' });
+    gate.push({ path: 'b' });
+    vi.advanceTimersByTime(100);
+    gate.push({ path: 'c' });
+
+    expect(deliver.mock.calls).toEqual([[{ path: 'a' }], [{ path: 'c' }]]);
+  });
+
+  it('should collect events into one delivery per batch window', () => {
+    const deliver = vi.fn();
+    const gate = createDeliveryGate({ batch: { window: 100 } }, 'fs.watch', deliver);
+
+    gate.push({ path: 'a' });
+    vi.advanceTimersByTime(50);
+    gate.push({ path: 'b' });
+    vi.advanceTimersByTime(50);
+    gate.push({ path: 'c' });
+    vi.advanceTimersByTime(100);
+
+    expect(deliver.mock.calls).toEqual([
+      [{ type: 'fs.watch', events: [{ path: 'a' }, { path: 'b' }] }],
+      [{ type: 'fs.watch', events: [{ path: 'c' }] }],
+    ]);
+  });
+
+  it('should deliver a batch early once max events have arrived', () => {
+    const deliver = vi.fn();
+    const gate = createDeliveryGate({ batch: { window: 1000, max: 2 } }, 'chat.message', deliver);
+
+    gate.push({ text: 'a' });
+    gate.push({ text: 'b' });
+    gate.push({ text: 'c' });
+
+    expect(deliver.mock.calls).toEqual([[{ type: 'chat.message', events: [{ text: 'a' }, { text: 'b' }] }]]);
+    expect(gate.dispose()).toBe(1);
+    vi.advanceTimersByTime(1000);
+    expect(deliver).toHaveBeenCalledTimes(1);
+  });
+});
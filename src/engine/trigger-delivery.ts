@@ -0,0 +1,95 @@
+import type { TriggerDelivery } from '../types/index.js';
+
+export type TriggerEvent = Record<string, unknown>;
+
+// Sits between a trigger's emit() and the run it starts
+export interface DeliveryGate {
+  push(event: TriggerEvent): void;
+  dispose(): number; // Returns how many pending events were dropped
+}
+
+export function hasDeliveryOptions(options: TriggerDelivery): boolean {
+  return options.debounce !== undefined || options.throttle !== undefined || options.batch !== undefined;
+}
+
+/**
+ * Turn a burst of trigger events into fewer runs. `batch` wins over `debounce`, which
+ * wins over `throttle`; without any of them every event is delivered straight away.
+ */
+export function createDeliveryGate(
+  options: TriggerDelivery,
+  triggerType: string,
+  deliver: (data: TriggerEvent) => void
+): DeliveryGate {
+  if (options.batch) {
+    const { window, max } = options.batch;
+    let pending: TriggerEvent[] = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const flush = () => {
+      clearTimeout(timer);
+      timer = undefined;
+      const events = pending;
+      pending = [];
+      if (events.length > 0) deliver({ type: triggerType, events });
+    };
+
+    return {
+      push(event) {
+        pending.push(event);
+        if (max !== undefined && pending.length >= max) {
+          flush();
+        } else if (!timer) {
+          timer = setTimeout(flush, window);
+        }
+      },
+      dispose() {
+        clearTimeout(timer);
+        const dropped = pending.length;
+        pending = [];
+        return dropped;
+      },
+    };
+  }
+
+  if (options.debounce !== undefined) {
+    const wait = options.debounce;
+    let latest: TriggerEvent | undefined;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    return {
+      push(event) {
+        latest = event;
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          const data = latest!;
+          latest = undefined;
+          deliver(data);
+        }, wait);
+      },
+      dispose() {
+        clearTimeout(timer);
+        const dropped = latest ? 1 : 0;
+        latest = undefined;
+        return dropped;
+      },
+    };
+  }
+
+  if (options.throttle !== undefined) {
+    const interval = options.throttle;
+    let lastDeliveredAt = -Infinity;
+
+    return {
+      push(event) {
+        const now = Date.now();
+        if (now - lastDeliveredAt < interval) return;
+        lastDeliveredAt = now;
+        deliver(event);
+      },
+      dispose: () => 0,
+    };
+  }
+
+  return { push: deliver, dispose: () => 0 };
+}
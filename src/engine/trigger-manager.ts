@@ -2,8 +2,10 @@ import { readFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { randomUUID } from 'node:crypto';
 import type { PluginRegistry } from '../plugins/sdk/registry.js';
-import type { Workflow, WorkflowRun } from '../types/index.js';
+import type { TriggerDelivery, Workflow, WorkflowRun } from '../types/index.js';
 import { parser } from './parser.js';
+import { evaluateExpression, isTruthy, matchSingleExpression } from './expression.js';
+import { createDeliveryGate, hasDeliveryOptions, type DeliveryGate } from './trigger-delivery.js';
 
 export interface TriggerSubscription {
   id: string;
@@ -11,6 +13,7 @@ export interface TriggerSubscription {
   triggerType: string;
   config: Record<string, unknown>;
   cleanup: () => void;
+  gate?: DeliveryGate;
   status: 'connecting' | 'connected' | 'disconnected' | 'error';
   error?: string;
 }
@@ -28,10 +31,26 @@ export interface TriggerManagerEvents {
     workflowName: string,
     workflowContent: string,
     triggerData: unknown,
-    runId: string
+    runId: string,
+    subscriptionId: string
   ) => Promise<void>;
 }
 
+/**
+ * Check an event against a trigger's `filter:` expression, which reads the event as `trigger`.
+ * The expression may be bare or wrapped in {{ }}; one that can't be evaluated rejects the event.
+ */
+export function matchesTriggerFilter(filter: string | undefined, triggerData: Record<string, unknown>): boolean {
+  if (!filter) return true;
+  try {
+    const expression = matchSingleExpression(filter) ?? filter.trim();
+    return isTruthy(evaluateExpression(expression, { trigger: triggerData }));
+  } catch (err) {
+    console.error(`[trigger-manager] Invalid trigger filter "${filter}":`, err instanceof Error ? err.message : err);
+    return false;
+  }
+}
+
 // Track connection status by service type
 export type ServiceStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
 
@@ -56,7 +75,9 @@ export class TriggerManager {
     triggerType: string,
     config: Record<string, unknown>,
     yamlContent: string,
-    subscriptionId?: string
+    subscriptionId?: string,
+    delivery: TriggerDelivery = {},
+    filter?: string
   ): Promise<boolean> {
     const trigger = this.registry.getTrigger(triggerType);
     if (!trigger?.setup) {
@@ -72,18 +93,33 @@ export class TriggerManager {
 
     const id = subscriptionId ?? workflowName;
 
+    // Debounce, throttle or batch events before they become runs
+    const gate = hasDeliveryOptions(delivery)
+      ? createDeliveryGate(delivery, triggerType, (data) => {
+          void this.executeWorkflow(workflowName, yamlContent, { type: triggerType, ...data }, id);
+        })
+      : undefined;
+
     // Create emit function that will be called when trigger fires
     const emit = async (data: unknown) => {
       // Apply filters
       if (!this.matchesFilters(config, data)) {
         return;
       }
+      if (!matchesTriggerFilter(filter, { type: triggerType, ...data as Record<string, unknown> })) {
+        return;
+      }
+
+      if (gate) {
+        gate.push(data as Record<string, unknown>);
+        return;
+      }
 
       // Execute the workflow
       await this.executeWorkflow(workflowName, yamlContent, {
         type: triggerType,
         ...data as Record<string, unknown>,
-      });
+      }, id);
     };
 
     try {
@@ -97,6 +133,7 @@ export class TriggerManager {
         triggerType,
         config,
         cleanup,
+        gate,
         status: 'connected',
       });
 
@@ -146,6 +183,11 @@ export class TriggerManager {
         console.error(`[trigger-manager] Error during cleanup for ${subscription.workflowName}:`, err);
       }
 
+      const dropped = subscription.gate?.dispose() ?? 0;
+      if (dropped > 0) {
+        console.log(`[trigger-manager] Dropped ${dropped} pending event(s) for ${subscription.workflowName}`);
+      }
+
       this.subscriptions.delete(subscription.id);
       console.log(`[trigger-manager] Trigger stopped: ${subscription.workflowName}`);
     }
@@ -294,17 +336,18 @@ export class TriggerManager {
   private async executeWorkflow(
     workflowName: string,
     yamlContent: string,
-    triggerData: unknown
+    triggerData: unknown,
+    subscriptionId: string
   ): Promise<void> {
     const runId = randomUUID();
     console.log(`[trigger-manager] Triggering workflow: ${workflowName} (run: ${runId})`);
 
-    this.events.onWorkflowTriggered?.(workflowName, runId);
-
     try {
       if (this.events.onEnqueueWorkflow) {
-        await this.events.onEnqueueWorkflow(workflowName, yamlContent, triggerData, runId);
+        // The queue reports the run as triggered once it's accepted (it may be a duplicate or skipped)
+        await this.events.onEnqueueWorkflow(workflowName, yamlContent, triggerData, runId, subscriptionId);
       } else {
+        this.events.onWorkflowTriggered?.(workflowName, runId);
         const workflow = parser.parse(yamlContent);
         if (this.events.onExecuteWorkflow) {
           await this.events.onExecuteWorkflow(workflow, triggerData, runId, yamlContent);
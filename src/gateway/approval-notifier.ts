@@ -0,0 +1,240 @@
+import type { WeavrConfig } from '../types/index.js';
+import type { ApprovalChannelRefs, ApprovalRecord } from '../engine/scheduler-store.js';
+import type { DecideInput } from '../engine/approvals.js';
+import { onSlackInteraction, slackApi, type SlackBlockActionsPayload } from '../plugins/builtin/slack/index.js';
+import { onTelegramMessage, telegramApi, type TelegramMessage } from '../plugins/builtin/telegram/index.js';
+
+const APPROVE_ACTION = 'weavr_approval_approve';
+const REJECT_ACTION = 'weavr_approval_reject';
+const TELEGRAM_REPLY = /^\s*(approve|approved|yes|reject|rejected|no)\b[\s:,-]*(.*)$/is;
+
+export interface ApprovalNotifierOptions {
+  linkFor: (approval: ApprovalRecord, decision: 'approve' | 'reject') => string;
+  decide: (id: string, input: DecideInput) => void; // Throws when the decision is refused
+}
+
+export interface ApprovalNotifier {
+  notify(approval: ApprovalRecord): Promise<ApprovalChannelRefs>;
+  update(approval: ApprovalRecord): Promise<void>;
+  listen(pending: ApprovalRecord[]): Promise<void>;
+  dispose(): void;
+}
+
+// Sends approval requests to Slack and Telegram and turns button clicks and replies into decisions
+export function createApprovalNotifier(config: WeavrConfig, options: ApprovalNotifierOptions): ApprovalNotifier {
+  const slackToken = config.messaging?.slack?.botToken ?? process.env.SLACK_TOKEN;
+  const slackAppToken = config.messaging?.slack?.appToken ?? process.env.SLACK_APP_TOKEN;
+  const telegramToken = config.messaging?.telegram?.botToken ?? process.env.TELEGRAM_BOT_TOKEN;
+
+  // "chatId:messageId" of the request message -> approval id
+  const telegramMessages = new Map<string, string>();
+  const unsubscribers: Array<() => void> = [];
+  let slackListening: Promise<void> | null = null;
+  let telegramListening: Promise<void> | null = null;
+
+  const statusText = (approval: ApprovalRecord): string => {
+    if (approval.status === 'cancelled') return '⊘ Cancelled (the run stopped waiting)';
+    const verdict = approval.status === 'approved' ? '✅ Approved' : '❌ Rejected';
+    if (approval.via === 'timeout') return `⏱ Timed out: ${verdict.slice(2).toLowerCase()}`;
+    return `${verdict} by ${approval.approver ?? 'unknown'}${approval.comment ? `: ${approval.comment}` : ''}`;
+  };
+
+  const decideFromChannel = (id: string, input: DecideInput): string | null => {
+    try {
+      options.decide(id, input);
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  };
+
+  const handleSlackAction = (payload: SlackBlockActionsPayload) => {
+    for (const action of payload.actions) {
+      if (action.action_id !== APPROVE_ACTION && action.action_id !== REJECT_ACTION) continue;
+      if (!action.value) continue;
+      const error = decideFromChannel(action.value, {
+        approved: action.action_id === APPROVE_ACTION,
+        via: 'slack',
+        approver: payload.user.username ?? payload.user.name ?? payload.user.id,
+        identities: [payload.user.id, payload.user.name ?? ''],
+      });
+      if (error && slackToken && payload.channel) {
+        slackApi(slackToken, 'chat.postEphemeral', {
+          channel: payload.channel.id,
+          user: payload.user.id,
+          text: error,
+        }).catch((err) => console.error('[approvals] Failed to send Slack error:', err));
+      }
+    }
+  };
+
+  const handleTelegramMessage = (message: TelegramMessage) => {
+    const replyTo = message.reply_to_message;
+    if (!replyTo || !message.text) return;
+    const approvalId = telegramMessages.get(`${message.chat.id}:${replyTo.message_id}`);
+    if (!approvalId) return;
+
+    const match = message.text.match(TELEGRAM_REPLY);
+    if (!match) return;
+    const error = decideFromChannel(approvalId, {
+      approved: /^(approve|approved|yes)$/i.test(match[1]),
+      via: 'telegram',
+      approver: message.from.username ? `@${message.from.username}` : message.from.first_name,
+      identities: [String(message.from.id)],
+      comment: match[2].trim() || undefined,
+    });
+    if (error && telegramToken) {
+      telegramApi(telegramToken, 'sendMessage', {
+        chat_id: message.chat.id,
+        text: error,
+        reply_to_message_id: message.message_id,
+      }).catch((err) => console.error('[approvals] Failed to send Telegram error:', err));
+    } else if (!error) {
+      telegramMessages.delete(`${message.chat.id}:${replyTo.message_id}`);
+    }
+  };
+
+  const listenSlack = (): Promise<void> => {
+    if (!slackAppToken) return Promise.resolve();
+    slackListening ??= onSlackInteraction(slackAppToken, handleSlackAction)
+      .then((stop) => { unsubscribers.push(stop); })
+      .catch((err) => {
+        slackListening = null;
+        console.error('[approvals] Could not listen for Slack buttons:', err);
+      });
+    return slackListening;
+  };
+
+  const listenTelegram = (): Promise<void> => {
+    if (!telegramToken) return Promise.resolve();
+    telegramListening ??= onTelegramMessage(telegramToken, handleTelegramMessage)
+      .then((stop) => { unsubscribers.push(stop); })
+      .catch((err) => {
+        telegramListening = null;
+        console.error('[approvals] Could not listen for Telegram replies:', err);
+      });
+    return telegramListening;
+  };
+
+  const requestText = (approval: ApprovalRecord) =>
+    `Approval needed for workflow "${approval.workflowName}" (step ${approval.stepId})\n\n${approval.message}`;
+
+  const notifySlack = async (approval: ApprovalRecord, channel: string): Promise<ApprovalChannelRefs['slack']> => {
+    if (!slackToken) {
+      throw new Error('Slack bot token required for Slack approvals. Configure it in Settings or set SLACK_TOKEN.');
+    }
+    await listenSlack();
+
+    // Without Socket Mode, buttons open the signed links instead of posting back to the gateway
+    const button = (decision: 'approve' | 'reject') => ({
+      type: 'button',
+      text: { type: 'plain_text', text: decision === 'approve' ? 'Approve' : 'Reject' },
+      style: decision === 'approve' ? 'primary' : 'danger',
+      action_id: decision === 'approve' ? APPROVE_ACTION : REJECT_ACTION,
+      value: approval.id,
+      ...(slackListening ? {} : { url: options.linkFor(approval, decision) }),
+    });
+
+    const { data } = await slackApi(slackToken, 'chat.postMessage', {
+      channel,
+      text: requestText(approval),
+      blocks: [
+        { type: 'section', text: { type: 'mrkdwn', text: requestText(approval) } },
+        { type: 'actions', elements: [button('approve'), button('reject')] },
+      ],
+    });
+    const posted = data as { channel: string; ts: string };
+    return { channel: posted.channel, ts: posted.ts };
+  };
+
+  const notifyTelegram = async (approval: ApprovalRecord, chatId: string): Promise<ApprovalChannelRefs['telegram']> => {
+    if (!telegramToken) {
+      throw new Error('Telegram bot token required for Telegram approvals. Configure it in Settings.');
+    }
+    const chat = chatId || config.messaging?.telegram?.chatId;
+    if (!chat) {
+      throw new Error('Telegram approvals need a chatId in the step config or a default chat in Settings');
+    }
+    await listenTelegram();
+
+    const message = await telegramApi(telegramToken, 'sendMessage', {
+      chat_id: chat,
+      text: [
+        requestText(approval),
+        'Reply to this message with "approve" or "reject", optionally followed by a comment.',
+        `Approve: ${options.linkFor(approval, 'approve')}`,
+        `Reject: ${options.linkFor(approval, 'reject')}`,
+      ].join('\n\n'),
+    }) as { message_id: number; chat: { id: number } };
+
+    telegramMessages.set(`${message.chat.id}:${message.message_id}`, approval.id);
+    return { chatId: String(message.chat.id), messageId: message.message_id };
+  };
+
+  return {
+    async notify(approval) {
+      const refs: ApprovalChannelRefs = {};
+      const errors: string[] = [];
+
+      if (approval.channels.slack) {
+        try {
+          refs.slack = await notifySlack(approval, approval.channels.slack.channel);
+        } catch (err) {
+          errors.push(`Slack: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+      if (approval.channels.telegram) {
+        try {
+          refs.telegram = await notifyTelegram(approval, approval.channels.telegram.chatId);
+        } catch (err) {
+          errors.push(`Telegram: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+
+      if (errors.length > 0) {
+        console.error(`[approvals] Could not send approval ${approval.id}: ${errors.join('; ')}`);
+      }
+      return refs;
+    },
+
+    async update(approval) {
+      const text = `${requestText(approval)}\n\n${statusText(approval)}`;
+      const { slack, telegram } = approval.channels;
+
+      if (slack?.ts && slackToken) {
+        await slackApi(slackToken, 'chat.update', {
+          channel: slack.channel,
+          ts: slack.ts,
+          text,
+          blocks: [{ type: 'section', text: { type: 'mrkdwn', text } }],
+        }).catch((err) => console.error('[approvals] Failed to update Slack message:', err));
+      }
+      if (telegram?.messageId && telegramToken) {
+        telegramMessages.delete(`${telegram.chatId}:${telegram.messageId}`);
+        await telegramApi(telegramToken, 'sendMessage', {
+          chat_id: telegram.chatId,
+          text: statusText(approval),
+          reply_to_message_id: telegram.messageId,
+        }).catch((err) => console.error('[approvals] Failed to send Telegram update:', err));
+      }
+    },
+
+    // Pick up button clicks and replies for approvals sent before a restart
+    async listen(pending) {
+      for (const approval of pending) {
+        const telegram = approval.channels.telegram;
+        if (telegram?.messageId) {
+          telegramMessages.set(`${telegram.chatId}:${telegram.messageId}`, approval.id);
+        }
+      }
+      if (pending.some((approval) => approval.channels.slack?.ts)) await listenSlack();
+      if (pending.some((approval) => approval.channels.telegram?.messageId)) await listenTelegram();
+    },
+
+    dispose() {
+      for (const stop of unsubscribers.splice(0)) stop();
+      slackListening = null;
+      telegramListening = null;
+    },
+  };
+}
@@ -0,0 +1,194 @@
+import { createHash, randomBytes } from 'node:crypto';
+import type { ApiTokenRecord, SchedulerStore } from '../engine/scheduler-store.js';
+
+export const TOKEN_SCOPES = ['read', 'run', 'write', 'admin'] as const;
+export type TokenScope = typeof TOKEN_SCOPES[number];
+
+// Roles are named sets of scopes; each one can do everything the roles before it can
+export const ROLES = ['viewer', 'operator', 'author', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+export const ROLE_SCOPES: Record<Role, TokenScope[]> = {
+  viewer: ['read'], // Look at workflows, runs and approvals
+  operator: ['run'], // Also run, cancel and resume workflows, decide approvals and pause schedules
+  author: ['run', 'write'], // Also create, edit and deploy workflows that don't use privileged actions
+  admin: ['admin'], // Everything, including privileged actions, settings, secrets, MCP servers, tokens and memory previews
+};
+
+export const SESSION_COOKIE = 'weavr_session';
+export const DEFAULT_SESSION_TTL = 7 * 24 * 60 * 60 * 1000;
+// How often open WebSockets are checked against their token or session, so revoked ones get closed
+export const SOCKET_AUTH_CHECK_INTERVAL = 30 * 1000;
+
+const TOKEN_PREFIX = 'wvr_';
+
+// Who a request or WebSocket connection was authenticated as
+export interface AuthIdentity {
+  tokenId: string;
+  name: string;
+  scopes: TokenScope[];
+  role: Role | null; // The highest role the scopes cover; null if they don't cover one
+}
+
+// Headers that can carry credentials: a bearer token for the CLI and scripts, a session cookie for the web UI
+export interface AuthCredentials {
+  authorization?: string | null;
+  cookie?: string | null;
+  token?: string | null; // e.g. from a WebSocket URL's ?token=, for clients that can't set headers
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function parseScopes(value: string): TokenScope[] {
+  const scopes = value.split(',').map((scope) => scope.trim()).filter(Boolean);
+  const unknown = scopes.filter((scope) => !(TOKEN_SCOPES as readonly string[]).includes(scope));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown scope(s): ${unknown.join(', ')}. Use ${TOKEN_SCOPES.join(', ')}`);
+  }
+  if (scopes.length === 0) {
+    throw new Error('A token needs at least one scope');
+  }
+  return scopes as TokenScope[];
+}
+
+export function parseRole(value: string): Role {
+  if (!(ROLES as readonly string[]).includes(value)) {
+    throw new Error(`Unknown role: ${value}. Use ${ROLES.join(', ')}`);
+  }
+  return value as Role;
+}
+
+// admin grants everything; any scope grants read
+export function hasScope(granted: TokenScope[], required: TokenScope): boolean {
+  if (granted.includes('admin')) return true;
+  if (required === 'read') return granted.length > 0;
+  return granted.includes(required);
+}
+
+export function roleForScopes(scopes: TokenScope[]): Role | null {
+  const covered = ROLES.filter((role) => ROLE_SCOPES[role].every((scope) => hasScope(scopes, scope)));
+  return covered.length > 0 ? covered[covered.length - 1] : null;
+}
+
+// Routes that need something other than read for GET and write for everything else
+const ROUTE_SCOPES: Array<{ method?: string; pattern: RegExp; scope: TokenScope }> = [
+  { pattern: /^\/api\/config\/status$/, scope: 'read' },
+  { pattern: /^\/api\/(config|auth\/tokens|secrets|oauth|mcp)(\/|$)/, scope: 'admin' },
+  { method: 'POST', pattern: /^\/api\/messaging\/[^/]+\/(connect|disconnect)$/, scope: 'admin' },
+  // Memory previews read any file the gateway can, including config.yaml and master.key
+  { method: 'POST', pattern: /^\/api\/memory\/(test-source|preview)$/, scope: 'admin' },
+  { method: 'POST', pattern: /^\/api\/workflows\/validate$/, scope: 'read' },
+  { method: 'POST', pattern: /^\/api\/workflows\/[^/]+\/run$/, scope: 'run' },
+  { method: 'POST', pattern: /^\/api\/runs\/[^/]+\/(cancel|resume)$/, scope: 'run' },
+  { method: 'POST', pattern: /^\/api\/scheduler\/[^/]+\/(pause|resume)$/, scope: 'run' },
+  { method: 'POST', pattern: /^\/api\/approvals\/[^/]+\/decide$/, scope: 'run' },
+];
+
+// Login, logout and status have to work before there is a session
+const PUBLIC_ROUTES = /^\/api\/auth\/(login|logout|status)$/;
+
+// The scope an /api route needs, or null for routes outside the API and the login routes
+export function requiredScope(method: string, path: string): TokenScope | null {
+  if (!path.startsWith('/api/') || PUBLIC_ROUTES.test(path)) return null;
+
+  const route = ROUTE_SCOPES.find((r) => (!r.method || r.method === method) && r.pattern.test(path));
+  if (route) return route.scope;
+  return method === 'GET' || method === 'HEAD' ? 'read' : 'write';
+}
+
+export function isLoopbackAddress(address: string | undefined): boolean {
+  if (!address) return false;
+  return address === 'localhost' || address === '::1' || /^(::ffff:)?127\./.test(address);
+}
+
+export function readCookie(header: string | null | undefined, name: string): string | undefined {
+  for (const part of header?.split(';') ?? []) {
+    const index = part.indexOf('=');
+    if (index !== -1 && part.slice(0, index).trim() === name) {
+      return part.slice(index + 1).trim();
+    }
+  }
+  return undefined;
+}
+
+// Create a token and store its hash. The token itself is only ever returned here.
+export function createApiToken(
+  store: SchedulerStore,
+  options: { name: string; scopes: TokenScope[]; expiresInDays?: number }
+): { token: string; record: ApiTokenRecord } {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const record = store.createApiToken({
+    id: `tok_${randomBytes(6).toString('hex')}`,
+    name: options.name,
+    tokenHash: hashToken(token),
+    prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+    scopes: options.scopes,
+    expiresAt: options.expiresInDays !== undefined
+      ? Date.now() + options.expiresInDays * 24 * 60 * 60 * 1000
+      : null,
+  });
+  return { token, record };
+}
+
+export interface GatewayAuth {
+  // Auth is enforced once at least one active token exists; until then the gateway is localhost-only
+  enabled(): boolean;
+  authenticate(credentials: AuthCredentials): AuthIdentity | null;
+  // Exchange an API token for a session id to put in the session cookie
+  login(token: string): { sessionId: string; identity: AuthIdentity; expiresAt: number } | null;
+  logout(cookieHeader: string | null | undefined): void;
+}
+
+export function createGatewayAuth(
+  store: SchedulerStore,
+  options: { sessionTtl?: number } = {}
+): GatewayAuth {
+  const sessionTtl = options.sessionTtl ?? DEFAULT_SESSION_TTL;
+
+  const toIdentity = (record: ApiTokenRecord): AuthIdentity => {
+    store.touchApiToken(record.id);
+    const scopes = record.scopes.filter((scope): scope is TokenScope =>
+      (TOKEN_SCOPES as readonly string[]).includes(scope)
+    );
+    return { tokenId: record.id, name: record.name, scopes, role: roleForScopes(scopes) };
+  };
+
+  const findToken = (token: string): ApiTokenRecord | null =>
+    token.startsWith(TOKEN_PREFIX) ? store.findActiveApiToken(hashToken(token)) : null;
+
+  return {
+    enabled: () => store.countActiveApiTokens() > 0,
+
+    authenticate(credentials) {
+      const bearer = credentials.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1] ?? credentials.token;
+      if (bearer) {
+        const record = findToken(bearer);
+        return record ? toIdentity(record) : null;
+      }
+
+      const sessionId = readCookie(credentials.cookie, SESSION_COOKIE);
+      if (sessionId) {
+        const record = store.findAuthSession(hashToken(sessionId));
+        return record ? toIdentity(record) : null;
+      }
+      return null;
+    },
+
+    login(token) {
+      const record = findToken(token.trim());
+      if (!record) return null;
+
+      const sessionId = randomBytes(32).toString('base64url');
+      const expiresAt = Math.min(Date.now() + sessionTtl, record.expiresAt ?? Infinity);
+      store.createAuthSession({ idHash: hashToken(sessionId), tokenId: record.id, expiresAt });
+      return { sessionId, identity: toIdentity(record), expiresAt };
+    },
+
+    logout(cookieHeader) {
+      const sessionId = readCookie(cookieHeader, SESSION_COOKIE);
+      if (sessionId) store.deleteAuthSession(hashToken(sessionId));
+    },
+  };
+}
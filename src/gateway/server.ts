@@ -1,7 +1,9 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
+import { deleteCookie, setCookie } from 'hono/cookie';
 import { serve } from '@hono/node-server';
 import { serveStatic } from '@hono/node-server/serve-static';
-import type { Server } from 'node:http';
+import { getConnInfo } from '@hono/node-server/conninfo';
+import type { IncomingMessage, Server } from 'node:http';
 import { WebSocketServer, WebSocket } from 'ws';
 import { randomUUID } from 'node:crypto';
 import { writeFile, mkdir, readdir, readFile, access, unlink, stat } from 'node:fs/promises';
@@ -9,10 +11,31 @@ import { join, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { homedir } from 'node:os';
 import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
-import type { GatewayClient, GatewayMessage, WeavrConfig } from '../types/index.js';
-import { DEFAULT_CONFIG } from '../types/index.js';
-import { WorkflowExecutor } from '../engine/executor.js';
+import type { GatewayClient, GatewayMessage, WeavrConfig, Workflow } from '../types/index.js';
+import type { StepIterationRecord } from '../engine/scheduler-store.js';
+import { DEFAULT_CONFIG, WebhookResponseSchema, WebhookVerifySchema } from '../types/index.js';
+import { WorkflowExecutor, type ResumedStep } from '../engine/executor.js';
+import { ApprovalError, ApprovalManager, toPublicApproval, type ApprovalDecision } from '../engine/approvals.js';
+import type { ApprovalRecord } from '../engine/scheduler-store.js';
+import { createApprovalNotifier } from './approval-notifier.js';
+import {
+  createApiToken,
+  createGatewayAuth,
+  hasScope,
+  isLoopbackAddress,
+  parseRole,
+  parseScopes,
+  requiredScope,
+  ROLE_SCOPES,
+  SESSION_COOKIE,
+  SOCKET_AUTH_CHECK_INTERVAL,
+  type AuthCredentials,
+  type AuthIdentity,
+} from './auth.js';
+import { findPolicyViolations, privilegedActionsUsed } from '../engine/policy.js';
+import { assertSecretName, hasRedactedSecrets } from '../engine/secrets.js';
 import { parser } from '../engine/parser.js';
+import { resolveWorkflowInputs, WorkflowInputError } from '../engine/inputs.js';
 import { globalRegistry } from '../plugins/sdk/registry.js';
 import { TriggerScheduler } from '../engine/scheduler.js';
 import { initializePlugins, isPluginsInitialized, getGlobalMCPManager } from '../plugins/loader.js';
@@ -26,6 +49,8 @@ import {
   type PendingOAuthState,
 } from '../auth/openai-oauth.js';
 import { verifyWebhookSignature, parseWebhookEvent } from '../plugins/builtin/github/index.js';
+import { createWebhookVerifier } from './webhook-verification.js';
+import { DEFAULT_SYNC_TIMEOUT, renderWebhookResponse, type WebhookRunResult } from './webhook-response.js';
 import { createServer as createHttpServer } from 'node:http';
 import { getAllProviders, hasProviderCredentials } from '../models/registry.js';
 import { MCP_SERVER_CATALOG, type MCPServerConfig } from '../mcp/catalog.js';
@@ -39,22 +64,46 @@ export interface GatewayServer {
   getClients(): GatewayClient[];
 }
 
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 export function createGatewayServer(config: WeavrConfig): GatewayServer {
-  const app = new Hono();
+  // identity is unset for local requests while no API tokens exist
+  const app = new Hono<{ Variables: { identity?: AuthIdentity } }>();
   const clients = new Map<string, GatewayClient>();
   const runHistory: Array<{
     id: string;
     workflow: string;
-    status: 'running' | 'success' | 'failed';
+    status: 'running' | 'success' | 'failed' | 'cancelled';
     startedAt: string;
     completedAt?: string;
     duration?: number;
     error?: string;
+    parentRunId?: string;
+    parentStepId?: string;
+    outputs?: Record<string, unknown>;
+    triggerData?: unknown;
+    workflowContent?: string; // Snapshot of the YAML the run executed, kept for resuming
+    resumedFrom?: string;
     logs: Array<{ timestamp: string; level: 'info' | 'error' | 'success'; stepId?: string; message: string }>;
-    steps: Array<{ id: string; status: string; duration?: number; error?: string; output?: unknown }>;
+    steps: Array<{
+      id: string;
+      status: string;
+      duration?: number;
+      error?: string;
+      output?: unknown;
+      iterations?: StepIterationRecord[];
+      handlerFor?: string;
+    }>;
   }> = [];
 
-  // Helper to add log to run history
+  // Helper to add log to run history; secret values a step logged are redacted
   const addRunLog = (runId: string, level: 'info' | 'error' | 'success', message: string, stepId?: string) => {
     const entry = runHistory.find(r => r.id === runId);
     if (entry) {
@@ -62,17 +111,95 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
         timestamp: new Date().toISOString(),
         level,
         stepId,
-        message,
+        message: scheduler.secrets.redact(message),
       });
     }
   };
 
+  // Webhook requests with `respond: sync` waiting for their run to finish
+  const runWaiters = new Map<string, Array<() => void>>();
+  const notifyRunWaiters = (runId: string) => {
+    runWaiters.get(runId)?.forEach((resolve) => resolve());
+    runWaiters.delete(runId);
+  };
+
+  // A finished run from the in-memory history, or from the store once it has been pushed out
+  const findFinishedRun = (runId: string): WebhookRunResult | null => {
+    const entry = runHistory.find(r => r.id === runId);
+    const run = entry
+      ? { ...entry, steps: entry.steps.map(({ id, output }) => ({ stepId: id, output })) }
+      : scheduler.store.getRunById(runId);
+    if (!run || run.status === 'running') return null;
+    return {
+      id: runId,
+      status: run.status,
+      error: run.error,
+      trigger: run.triggerData,
+      outputs: run.outputs,
+      steps: Object.fromEntries(
+        run.steps.filter((step) => step.output !== undefined).map((step) => [step.stepId, step.output])
+      ),
+    };
+  };
+
+  // Resolves with the finished run, or null if it's still going after timeoutMs
+  const waitForRun = async (runId: string, timeoutMs: number): Promise<WebhookRunResult | null> => {
+    const finished = findFinishedRun(runId);
+    if (finished) return finished;
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        const remaining = (runWaiters.get(runId) ?? []).filter((waiter) => waiter !== onFinish);
+        if (remaining.length > 0) runWaiters.set(runId, remaining);
+        else runWaiters.delete(runId);
+        resolve();
+      }, timeoutMs);
+      const onFinish = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      runWaiters.set(runId, [...(runWaiters.get(runId) ?? []), onFinish]);
+    });
+    return findFinishedRun(runId);
+  };
+
   let httpServer: ReturnType<typeof serve> | null = null;
   let wss: WebSocketServer | null = null;
+  let socketAuthTimer: ReturnType<typeof setInterval> | null = null;
 
   // Create workflow executor
   const executor = new WorkflowExecutor({
     registry: globalRegistry,
+    loadWorkflow: async (name) => {
+      const filePath = await findWorkflowFile(name);
+      if (!filePath) {
+        throw new Error(`Workflow not found: ${name}`);
+      }
+      return parser.parse(await readFile(filePath, 'utf-8'));
+    },
+    onRunStart: (run) => {
+      // Child runs started by workflow.call have no history entry yet
+      if (!run.parent || runHistory.some(r => r.id === run.id)) return;
+      runHistory.unshift({
+        id: run.id,
+        workflow: run.workflowName,
+        status: 'running',
+        startedAt: run.startedAt.toISOString(),
+        parentRunId: run.parent.runId,
+        parentStepId: run.parent.stepId,
+        logs: [{
+          timestamp: new Date().toISOString(),
+          level: 'info',
+          message: `Called by step "${run.parent.stepId}" of run ${run.parent.runId}`,
+        }],
+        steps: [],
+      });
+      if (runHistory.length > 100) runHistory.pop();
+
+      broadcast('runs', {
+        type: 'workflow.started',
+        payload: { runId: run.id, workflow: run.workflowName, parentRunId: run.parent.runId },
+      });
+    },
     onStepStart: (runId, stepId) => {
       addRunLog(runId, 'info', `Starting step: ${stepId}`, stepId);
       broadcast('runs', {
@@ -80,6 +207,20 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
         payload: { runId, stepId },
       });
     },
+    requestApproval: (request, signal): Promise<ApprovalDecision> => approvals.request({
+      ...request,
+      workflowContent: runHistory.find(r => r.id === request.runId)?.workflowContent,
+    }, signal),
+    // The scheduler is created below; the executor only reaches it once a run starts
+    stepCache: {
+      getCachedOutput: (key): { output: unknown } | null => scheduler.store.getCachedOutput(key),
+      saveCachedOutput: (entry): void => scheduler.store.saveCachedOutput(entry),
+    },
+    secrets: {
+      context: (): Record<string, string> => scheduler.secrets.context(),
+      redact: <T>(value: T): T => scheduler.secrets.redact(value),
+      contains: (value): boolean => scheduler.secrets.contains(value),
+    },
     onLog: (runId, stepId, message) => {
       // Capture all logs from action execution (including tool calls)
       addRunLog(runId, 'info', message, stepId);
@@ -90,6 +231,7 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
       });
     },
     onStepComplete: (runId, stepId, result) => {
+      scheduler.checkpointStep(runId, stepId, result);
       if (result.status === 'completed') {
         addRunLog(runId, 'success', `Step completed in ${result.duration}ms`, stepId);
         // Log output summary
@@ -99,6 +241,8 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
             : JSON.stringify(result.output).slice(0, 200);
           addRunLog(runId, 'info', `Output: ${outputStr}${outputStr.length >= 200 ? '...' : ''}`, stepId);
         }
+      } else if (result.status === 'cached') {
+        addRunLog(runId, 'success', 'Step output reused from cache', stepId);
       } else if (result.status === 'failed') {
         addRunLog(runId, 'error', `Step failed: ${result.error}`, stepId);
       }
@@ -109,25 +253,37 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
     },
     onRunComplete: (run) => {
       // Update run history
+      const status = run.status === 'completed' ? 'success' : run.status === 'cancelled' ? 'cancelled' : 'failed';
       const historyEntry = runHistory.find(r => r.id === run.id);
       if (historyEntry) {
-        historyEntry.status = run.status === 'completed' ? 'success' : 'failed';
+        historyEntry.status = status;
         historyEntry.completedAt = run.completedAt?.toISOString();
         historyEntry.duration = run.completedAt && run.startedAt
           ? run.completedAt.getTime() - run.startedAt.getTime()
           : undefined;
-        historyEntry.error = run.error;
-        historyEntry.steps = Array.from(run.steps.entries()).map(([id, step]) => ({
+        historyEntry.error = scheduler.secrets.redact(run.error);
+        historyEntry.outputs = scheduler.secrets.redact(run.outputs);
+        historyEntry.steps = scheduler.secrets.redact(Array.from(run.steps.entries()).map(([id, step]) => ({
           id,
           status: step.status,
           duration: step.duration,
           error: step.error,
           output: step.output,
-        }));
+          iterations: step.iterations?.map((iteration) => ({
+            index: iteration.index,
+            status: iteration.status,
+            duration: iteration.duration,
+            error: iteration.error,
+            output: iteration.output,
+          })),
+          handlerFor: step.handlerFor,
+        })));
 
         // Add final log entry
         if (run.status === 'completed') {
           addRunLog(run.id, 'success', `Workflow completed successfully in ${historyEntry.duration}ms`);
+        } else if (run.status === 'cancelled') {
+          addRunLog(run.id, 'info', 'Workflow cancelled');
         } else {
           addRunLog(run.id, 'error', `Workflow failed: ${run.error}`);
         }
@@ -135,12 +291,13 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
         // Persist to SQLite (will be done after scheduler is created)
         persistCompletedRun(historyEntry);
       }
+      notifyRunWaiters(run.id);
       broadcast('runs', {
         type: 'workflow.completed',
         payload: {
           runId: run.id,
           workflow: run.workflowName,
-          status: run.status === 'completed' ? 'success' : 'failed',
+          status,
           error: run.error,
         },
       });
@@ -156,6 +313,14 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
   // Ensure workflows directory exists
   mkdir(workflowsDir, { recursive: true }).catch(() => {});
 
+  // Resolve a workflow name to its .yaml or .yml file
+  const findWorkflowFile = async (name: string): Promise<string | null> => {
+    const yamlPath = join(workflowsDir, `${name}.yaml`);
+    const ymlPath = join(workflowsDir, `${name}.yml`);
+    return (await stat(yamlPath).then(() => yamlPath).catch(() => null))
+      ?? (await stat(ymlPath).then(() => ymlPath).catch(() => null));
+  };
+
   // Create trigger scheduler
   const scheduler = new TriggerScheduler(workflowsDir, globalRegistry, {
     onWorkflowTriggered: (workflowName, runId) => {
@@ -180,16 +345,56 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
         payload: { runId, workflow: workflowName, trigger: 'scheduled' },
       });
     },
-    onWorkflowCompleted: (workflowName, runId, status) => {
+    onRunRecovered: (workflowName, runId, policy, reusedSteps) => {
+      runHistory.unshift({
+        id: runId,
+        workflow: workflowName,
+        status: 'running',
+        startedAt: new Date().toISOString(),
+        logs: [{
+          timestamp: new Date().toISOString(),
+          level: 'info',
+          message: policy === 'resume'
+            ? `Gateway restarted during the run; resuming with ${reusedSteps} completed step(s)`
+            : 'Gateway restarted during the run; starting it over',
+        }],
+        steps: [],
+      });
+      if (runHistory.length > 100) runHistory.pop();
+
+      broadcast('runs', {
+        type: 'workflow.started',
+        payload: { runId, workflow: workflowName, trigger: 'recovered' },
+      });
+    },
+    onWorkflowCompleted: (workflowName, runId, status, error) => {
+      // Runs finalized without reaching the executor, e.g. cancelled by a cancel-previous policy
+      const entry = runHistory.find(r => r.id === runId);
+      if (entry && entry.status === 'running') {
+        entry.status = status;
+        entry.error = error;
+        entry.completedAt = new Date().toISOString();
+        entry.duration = Date.now() - new Date(entry.startedAt).getTime();
+        addRunLog(runId, status === 'failed' ? 'error' : 'info', error ?? `Workflow ${status}`);
+        persistCompletedRun(entry);
+      }
+      notifyRunWaiters(runId);
       broadcast('runs', {
         type: 'workflow.completed',
-        payload: { runId, workflow: workflowName, status },
+        payload: { runId, workflow: workflowName, status, error },
       });
     },
     // Use server's executor for proper history tracking
-    onExecuteWorkflow: async (workflow, triggerData, runId) => {
+    onExecuteWorkflow: async (workflow, triggerData, runId, workflowContent, signal, completedSteps) => {
+      const entry = runHistory.find(r => r.id === runId);
+      if (entry) {
+        entry.triggerData = triggerData;
+        entry.workflowContent = workflowContent;
+      }
       try {
-        return await executor.execute(workflow, triggerData, runId);
+        return completedSteps
+          ? await executor.resume(workflow, triggerData, completedSteps, runId, signal)
+          : await executor.execute(workflow, triggerData, runId, undefined, signal);
       } catch (err) {
         console.error(`[scheduler] Execution error for ${workflow.name}:`, err);
         // Ensure the history entry is updated even if something unexpected happens
@@ -200,13 +405,20 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
           entry.completedAt = new Date().toISOString();
           addRunLog(runId, 'error', `Unexpected error: ${entry.error}`);
         }
+        notifyRunWaiters(runId);
         throw err;
       }
     },
   }, {
     storePath: config.scheduler?.dbPath,
+    queueLimits: Object.fromEntries(
+      Object.entries(config.scheduler?.queues ?? {}).map(([queue, options]) => [queue, options.concurrency])
+    ),
   });
 
+  // Signature checks for webhook triggers, remembering recent deliveries to reject replays
+  const webhookVerifier = createWebhookVerifier();
+
   // Load and start all scheduled workflows
   scheduler.loadAndScheduleAll().catch(err => {
     console.error('[gateway] Failed to load scheduled workflows:', err);
@@ -229,6 +441,67 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
     console.error('[gateway] Failed to set up token tracker:', err);
   });
 
+  // Links in Slack/Telegram messages point here; set server.publicUrl when the gateway sits behind a proxy
+  const publicUrl = (config.server.publicUrl
+    ?? `http://${config.server.host === '0.0.0.0' ? 'localhost' : config.server.host}:${config.server.port}`).replace(/\/$/, '');
+  const approvalLink = (approval: ApprovalRecord, decision: 'approve' | 'reject') =>
+    `${publicUrl}/approvals/${approval.id}?decision=${decision}&sig=${approvals.signature(approval, decision)}`;
+
+  // Approval gates: paused steps are persisted so they outlive a gateway restart
+  const approvals = new ApprovalManager(scheduler.store, {
+    onRequested: async (approval) => {
+      addRunLog(approval.runId, 'info', `Waiting for approval: ${approval.message}`, approval.stepId);
+      broadcast('runs', { type: 'approval.requested', payload: toPublicApproval(approval) });
+      return approvalNotifier.notify(approval);
+    },
+    onDecided: (approval) => {
+      broadcast('runs', { type: 'approval.decided', payload: toPublicApproval(approval) });
+      approvalNotifier.update(approval).catch(() => {});
+    },
+    // The run that asked is gone (the gateway restarted), so continue it as a resumed run
+    onOrphaned: (approval, decision) => {
+      // Recovered by the scheduler under the same id but hasn't reached the gate again yet
+      const queueStatus = scheduler.store.getRunStatus(approval.runId);
+      if (queueStatus === 'queued' || queueStatus === 'running') {
+        approvals.adopt(approval.runId, approval.stepId, approval.id);
+        return;
+      }
+
+      const state = approval.resumeState;
+      if (!state?.workflowContent) {
+        console.warn(`[approvals] Approval ${approval.id} was decided, but run ${approval.runId} is no longer active and can't be resumed`);
+        return;
+      }
+      let workflow: Workflow;
+      try {
+        workflow = parser.parse(state.workflowContent);
+      } catch (err) {
+        console.error(`[approvals] Can't resume run ${approval.runId}:`, err);
+        return;
+      }
+
+      const runId = randomUUID();
+      approvals.adopt(runId, approval.stepId, approval.id);
+      startResumedRun({
+        runId,
+        resumedFrom: approval.runId,
+        workflow,
+        content: state.workflowContent,
+        triggerData: state.triggerData,
+        completedSteps: state.completedSteps,
+        logs: [{
+          timestamp: new Date().toISOString(),
+          level: 'info',
+          message: `Approval for step "${approval.stepId}" was ${decision.approved ? 'approved' : 'rejected'} after run ${approval.runId} stopped; resuming it`,
+        }],
+      });
+    },
+  });
+  const approvalNotifier = createApprovalNotifier(config, {
+    linkFor: approvalLink,
+    decide: (id, input) => { approvals.decide(id, input); },
+  });
+
   // Helper to persist completed runs to SQLite
   const persistCompletedRun = (entry: typeof runHistory[0]) => {
     if (entry.status === 'running') return; // Only persist completed runs
@@ -236,30 +509,206 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
       scheduler.store.saveCompletedRun({
         id: entry.id,
         workflowName: entry.workflow,
-        status: entry.status as 'success' | 'failed',
+        status: entry.status,
         startedAt: new Date(entry.startedAt).getTime(),
         completedAt: entry.completedAt ? new Date(entry.completedAt).getTime() : Date.now(),
         duration: entry.duration ?? 0,
-        error: entry.error,
-        logs: entry.logs.map(log => ({
-          timestamp: new Date(log.timestamp).getTime(),
-          level: log.level,
-          stepId: log.stepId,
-          message: log.message,
-        })),
-        steps: entry.steps.map(step => ({
-          stepId: step.id,
-          status: step.status,
-          duration: step.duration,
-          error: step.error,
-          output: step.output,
-        })),
+        parentRunId: entry.parentRunId,
+        parentStepId: entry.parentStepId,
+        triggerData: entry.triggerData,
+        workflowContent: entry.workflowContent,
+        resumedFrom: entry.resumedFrom,
+        // Errors, outputs and logs can contain secret values the run was given
+        ...scheduler.secrets.redact({
+          error: entry.error,
+          outputs: entry.outputs,
+          logs: entry.logs.map(log => ({
+            timestamp: new Date(log.timestamp).getTime(),
+            level: log.level,
+            stepId: log.stepId,
+            message: log.message,
+          })),
+          steps: entry.steps.map(step => ({
+            stepId: step.id,
+            status: step.status,
+            duration: step.duration,
+            error: step.error,
+            output: step.output,
+            iterations: step.iterations,
+            handlerFor: step.handlerFor,
+          })),
+        }),
       });
     } catch (err) {
       console.error('[gateway] Failed to persist run:', err);
     }
   };
 
+  // Until the first API token is created the gateway only serves this machine
+  const auth = createGatewayAuth(scheduler.store);
+  const isLocalRequest = (c: Context): boolean => {
+    try {
+      return isLoopbackAddress(getConnInfo(c).remote.address);
+    } catch {
+      return false;
+    }
+  };
+
+  // Every /api route except login needs a token (or web session) with the route's scope
+  app.use('/api/*', async (c, next) => {
+    const scope = requiredScope(c.req.method, c.req.path);
+    if (!scope) return next();
+
+    if (!auth.enabled()) {
+      if (isLocalRequest(c)) return next();
+      return c.json({ error: 'No API tokens exist yet, so the gateway only accepts local requests. Create one with `weavr token create`.' }, 403);
+    }
+
+    const identity = auth.authenticate({ authorization: c.req.header('Authorization'), cookie: c.req.header('Cookie') });
+    if (!identity) {
+      return c.json({ error: 'Authentication required' }, 401);
+    }
+    if (!hasScope(identity.scopes, scope)) {
+      return c.json({ error: `Token "${identity.name}" does not have the ${scope} scope` }, 403);
+    }
+    c.set('identity', identity);
+    return next();
+  });
+
+  // Deploy-time policy check: steps must stay within the workflow's own policy, and only
+  // admins may deploy shell.* / filesystem.delete (or an ai.agent with the shell tool)
+  const checkWorkflowPolicy = (identity: AuthIdentity | undefined, content: string): { error: string; status: 400 | 403 } | null => {
+    let workflow: Workflow;
+    try {
+      workflow = parser.parse(content);
+    } catch {
+      return null; // Can't run either, so there's nothing to authorize yet
+    }
+
+    const violation = findPolicyViolations(workflow)[0];
+    if (violation) {
+      return { error: `Step "${violation.stepId}" uses "${violation.action}", which this workflow's policy doesn't allow`, status: 400 };
+    }
+
+    const privileged = privilegedActionsUsed(workflow);
+    if (privileged.length > 0 && identity && !hasScope(identity.scopes, 'admin')) {
+      const actions = [...new Set(privileged.map((use) => use.action))].join(', ');
+      return { error: `Only admins can deploy workflows that use ${actions} (step "${privileged[0].stepId}")`, status: 403 };
+    }
+    return null;
+  };
+
+  app.get('/api/auth/status', (c) => {
+    if (!auth.enabled()) {
+      return c.json({ authRequired: false, authenticated: isLocalRequest(c) });
+    }
+    const identity = auth.authenticate({ authorization: c.req.header('Authorization'), cookie: c.req.header('Cookie') });
+    return c.json({
+      authRequired: true,
+      authenticated: !!identity,
+      name: identity?.name,
+      role: identity?.role,
+      scopes: identity?.scopes,
+    });
+  });
+
+  // Web UI login: trade an API token for an HttpOnly session cookie
+  app.post('/api/auth/login', async (c) => {
+    const body = await c.req.json().catch(() => ({})) as { token?: unknown };
+    if (typeof body.token !== 'string' || !body.token.trim()) {
+      return c.json({ error: 'Missing token' }, 400);
+    }
+    const session = auth.login(body.token);
+    if (!session) {
+      return c.json({ error: 'Invalid, expired or revoked token' }, 401);
+    }
+    setCookie(c, SESSION_COOKIE, session.sessionId, {
+      httpOnly: true,
+      sameSite: 'Strict',
+      secure: new URL(c.req.url).protocol === 'https:',
+      path: '/',
+      expires: new Date(session.expiresAt),
+    });
+    return c.json({
+      authenticated: true,
+      name: session.identity.name,
+      role: session.identity.role,
+      scopes: session.identity.scopes,
+    });
+  });
+
+  app.post('/api/auth/logout', (c) => {
+    auth.logout(c.req.header('Cookie'));
+    deleteCookie(c, SESSION_COOKIE, { path: '/' });
+    return c.json({ success: true });
+  });
+
+  app.get('/api/auth/tokens', (c) => {
+    return c.json({ tokens: scheduler.store.listApiTokens({ includeRevoked: c.req.query('revoked') === 'true' }) });
+  });
+
+  // The token value is only in this response; the gateway keeps just its hash
+  app.post('/api/auth/tokens', async (c) => {
+    const body = await c.req.json().catch(() => ({})) as { name?: unknown; role?: unknown; scopes?: unknown; expiresInDays?: unknown };
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return c.json({ error: 'Missing name' }, 400);
+    }
+    if (body.expiresInDays !== undefined && (typeof body.expiresInDays !== 'number' || body.expiresInDays <= 0)) {
+      return c.json({ error: 'expiresInDays must be a positive number' }, 400);
+    }
+    try {
+      // Either a role or an explicit list of scopes
+      const scopes = body.scopes !== undefined
+        ? parseScopes(Array.isArray(body.scopes) ? body.scopes.join(',') : String(body.scopes))
+        : ROLE_SCOPES[parseRole(String(body.role ?? ''))];
+      const { token, record } = createApiToken(scheduler.store, {
+        name: body.name.trim(),
+        scopes,
+        expiresInDays: body.expiresInDays as number | undefined,
+      });
+      return c.json({ ...record, token }, 201);
+    } catch (err) {
+      return c.json({ error: err instanceof Error ? err.message : String(err) }, 400);
+    }
+  });
+
+  app.delete('/api/auth/tokens/:id', (c) => {
+    if (!scheduler.store.revokeApiToken(c.req.param('id'))) {
+      return c.json({ error: 'Token not found or already revoked' }, 404);
+    }
+    return c.json({ success: true });
+  });
+
+  // Secret values are write-only: the API lists names and never returns a value
+  app.get('/api/secrets', (c) => {
+    return c.json({ secrets: scheduler.secrets.list() });
+  });
+
+  app.put('/api/secrets/:name', async (c) => {
+    const name = c.req.param('name');
+    const body = await c.req.json().catch(() => ({})) as { value?: unknown };
+    if (typeof body.value !== 'string' || body.value === '') {
+      return c.json({ error: 'Missing value' }, 400);
+    }
+    try {
+      assertSecretName(name);
+    } catch (err) {
+      return c.json({ error: (err as Error).message }, 400);
+    }
+    try {
+      return c.json(scheduler.secrets.set(name, body.value));
+    } catch (err) {
+      return c.json({ error: err instanceof Error ? err.message : String(err) }, 500);
+    }
+  });
+
+  app.delete('/api/secrets/:name', (c) => {
+    if (!scheduler.secrets.delete(c.req.param('name'))) {
+      return c.json({ error: 'Secret not found' }, 404);
+    }
+    return c.json({ success: true });
+  });
+
   // API routes
   app.get('/api/workflows', async (c) => {
     try {
@@ -322,7 +771,19 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
     try {
       const filePath = join(workflowsDir, `${name}.yaml`);
       const content = await readFile(filePath, 'utf-8');
-      return c.json({ name, content });
+
+      // Expose the declared parameters so clients can build run forms
+      let inputs: unknown[] = [];
+      let outputs: string[] = [];
+      try {
+        const workflow = parser.parse(content);
+        inputs = workflow.inputs ?? [];
+        outputs = Object.keys(workflow.outputs ?? {});
+      } catch {
+        // Invalid workflows can still be opened in the editor
+      }
+
+      return c.json({ name, content, inputs, outputs });
     } catch {
       return c.json({ name, content: null, error: 'Workflow not found' }, 404);
     }
@@ -400,6 +861,12 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
         nullStr: '',
       });
 
+      // Saving deploys the workflow, so it has to pass the policy check first
+      const policyError = checkWorkflowPolicy(c.get('identity'), formattedYaml);
+      if (policyError) {
+        return c.json({ error: policyError.error, validationError: true }, policyError.status);
+      }
+
       // Sanitize name for filename
       const safeName = name.replace(/[^a-zA-Z0-9-_]/g, '-').toLowerCase();
       const filePath = join(workflowsDir, `${safeName}.yaml`);
@@ -475,10 +942,7 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
     const body = await c.req.json().catch(() => ({}));
 
     // Load workflow file
-    const yamlPath = join(workflowsDir, `${name}.yaml`);
-    const ymlPath = join(workflowsDir, `${name}.yml`);
-    const filePath = (await stat(yamlPath).then(() => yamlPath).catch(() => null))
-      ?? (await stat(ymlPath).then(() => ymlPath).catch(() => null));
+    const filePath = await findWorkflowFile(name);
     let content: string;
     try {
       if (!filePath) {
@@ -497,6 +961,19 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
       return c.json({ error: `Invalid workflow: ${err instanceof Error ? err.message : String(err)}` }, 400);
     }
 
+    // Validate declared inputs before starting the run
+    let runData = body.data;
+    if (workflow.inputs && workflow.inputs.length > 0) {
+      try {
+        runData = resolveWorkflowInputs(workflow.inputs, body.data);
+      } catch (err) {
+        if (err instanceof WorkflowInputError) {
+          return c.json({ error: err.message, issues: err.issues }, 400);
+        }
+        throw err;
+      }
+    }
+
     // Create run history entry
     const runId = randomUUID();
     const historyEntry = {
@@ -510,6 +987,8 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
         message: `Starting workflow: ${name}`,
       }],
       steps: [] as Array<{ id: string; status: string; duration?: number; error?: string; output?: unknown }>,
+      triggerData: runData,
+      workflowContent: content,
     };
     runHistory.unshift(historyEntry);
 
@@ -523,8 +1002,11 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
       payload: { runId, workflow: name, trigger: body },
     });
 
-    // Execute workflow asynchronously
-    executor.execute(workflow, body.data, runId).catch((err) => {
+    // Execute workflow asynchronously; tracking it in the queue table lets it survive a restart
+    scheduler.trackRun({ id: runId, workflowName: name, triggerType: 'manual', triggerData: runData, workflowContent: content });
+    executor.execute(workflow, runData, runId).then((run) => {
+      scheduler.completeTrackedRun(runId, run.status, run.error);
+    }).catch((err) => {
       console.error(`Workflow execution error: ${err}`);
       // Update history entry on error
       const entry = runHistory.find(r => r.id === runId);
@@ -533,6 +1015,7 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
         entry.error = err instanceof Error ? err.message : String(err);
         entry.completedAt = new Date().toISOString();
       }
+      scheduler.completeTrackedRun(runId, 'failed', entry?.error);
     });
 
     return c.json({ runId, status: 'running', message: `Workflow "${name}" started` });
@@ -542,7 +1025,7 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
     const page = parseInt(c.req.query('page') ?? '1', 10);
     const limit = parseInt(c.req.query('limit') ?? '20', 10);
     const days = c.req.query('days') ? parseInt(c.req.query('days')!, 10) : undefined;
-    const status = c.req.query('status') as 'success' | 'failed' | undefined;
+    const status = c.req.query('status') as 'success' | 'failed' | 'cancelled' | undefined;
     const workflowName = c.req.query('workflow') ?? undefined;
 
     // Get persisted runs from SQLite
@@ -558,6 +1041,8 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
         startedAt: r.startedAt,
         completedAt: r.completedAt,
         duration: r.duration,
+        parentRunId: r.parentRunId,
+        parentStepId: r.parentStepId,
       }));
 
     const persistedRuns = result.runs.map(r => ({
@@ -567,6 +1052,8 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
       startedAt: new Date(r.startedAt).toISOString(),
       completedAt: new Date(r.completedAt).toISOString(),
       duration: r.duration,
+      parentRunId: r.parentRunId,
+      parentStepId: r.parentStepId,
     }));
 
     // Combine: running runs first, then persisted runs
@@ -586,7 +1073,8 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
     // First check in-memory for running runs
     const memoryRun = runHistory.find(r => r.id === id);
     if (memoryRun) {
-      return c.json(memoryRun);
+      const { workflowContent: _workflowContent, triggerData: _triggerData, ...details } = memoryRun;
+      return c.json(details);
     }
 
     // Then check SQLite for completed runs
@@ -600,6 +1088,10 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
         completedAt: new Date(persistedRun.completedAt).toISOString(),
         duration: persistedRun.duration,
         error: persistedRun.error,
+        parentRunId: persistedRun.parentRunId,
+        parentStepId: persistedRun.parentStepId,
+        outputs: persistedRun.outputs,
+        resumedFrom: persistedRun.resumedFrom,
         logs: persistedRun.logs.map(log => ({
           timestamp: new Date(log.timestamp).toISOString(),
           level: log.level,
@@ -612,6 +1104,8 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
           duration: step.duration,
           error: step.error,
           output: step.output,
+          iterations: step.iterations,
+          handlerFor: step.handlerFor,
         })),
       });
     }
@@ -619,6 +1113,318 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
     return c.json({ error: 'Run not found' }, 404);
   });
 
+  app.post('/api/runs/:id/cancel', (c) => {
+    const id = c.req.param('id');
+
+    // Scheduler runs are cancelled through the queue; manual runs directly on the executor
+    const queueState = scheduler.cancelRun(id);
+    if (!queueState && !executor.cancel(id)) {
+      return c.json({ error: 'Run not found or already finished' }, 404);
+    }
+
+    // Queued runs never reach the executor, so finish their history entry here
+    const entry = runHistory.find(r => r.id === id);
+    if (queueState === 'queued' && entry && entry.status === 'running') {
+      entry.status = 'cancelled';
+      entry.error = 'Run cancelled';
+      entry.completedAt = new Date().toISOString();
+      entry.duration = Date.now() - new Date(entry.startedAt).getTime();
+      addRunLog(id, 'info', 'Workflow cancelled before it started');
+      persistCompletedRun(entry);
+      broadcast('runs', {
+        type: 'workflow.completed',
+        payload: { runId: id, workflow: entry.workflow, status: 'cancelled', error: entry.error },
+      });
+    }
+
+    return c.json({ success: true, runId: id, status: queueState === 'queued' ? 'cancelled' : 'cancelling' });
+  });
+
+  // Start a new run that continues `resumedFrom`, reusing the outputs of its completed steps
+  const startResumedRun = (options: {
+    runId?: string;
+    resumedFrom: string;
+    workflow: Workflow;
+    content: string;
+    triggerData: unknown;
+    completedSteps: ResumedStep[];
+    logs: typeof runHistory[0]['logs'];
+  }): string => {
+    const runId = options.runId ?? randomUUID();
+    runHistory.unshift({
+      id: runId,
+      workflow: options.workflow.name,
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      triggerData: options.triggerData,
+      workflowContent: options.content,
+      resumedFrom: options.resumedFrom,
+      logs: options.logs,
+      steps: [],
+    });
+    if (runHistory.length > 100) runHistory.pop();
+
+    broadcast('runs', {
+      type: 'workflow.started',
+      payload: { runId, workflow: options.workflow.name, resumedFrom: options.resumedFrom },
+    });
+
+    scheduler.trackRun({
+      id: runId,
+      workflowName: options.workflow.name,
+      triggerType: 'resume',
+      triggerData: options.triggerData,
+      workflowContent: options.content,
+    });
+    // Steps reused from the earlier run count as done if this one is recovered too
+    for (const step of options.completedSteps) {
+      if (!scheduler.secrets.contains(step.output)) {
+        scheduler.store.saveRunCheckpoint(runId, step.id, step.output);
+      }
+    }
+
+    executor.resume(options.workflow, options.triggerData, options.completedSteps, runId).then((run) => {
+      scheduler.completeTrackedRun(runId, run.status, run.error);
+    }).catch((err) => {
+      console.error(`Workflow execution error: ${err}`);
+      const entry = runHistory.find(r => r.id === runId);
+      if (entry) {
+        entry.status = 'failed';
+        entry.error = err instanceof Error ? err.message : String(err);
+        entry.completedAt = new Date().toISOString();
+      }
+      scheduler.completeTrackedRun(runId, 'failed', entry?.error);
+    });
+
+    return runId;
+  };
+
+  app.post('/api/runs/:id/resume', async (c) => {
+    const id = c.req.param('id');
+
+    if (runHistory.some(r => r.id === id && r.status === 'running')) {
+      return c.json({ error: 'Run is still running' }, 409);
+    }
+    const previous = scheduler.store.getRunById(id);
+    if (!previous) {
+      return c.json({ error: 'Run not found' }, 404);
+    }
+    if (previous.status !== 'failed' && previous.status !== 'cancelled') {
+      return c.json({ error: `Only failed or cancelled runs can be resumed (run is ${previous.status})` }, 400);
+    }
+    if (previous.parentRunId) {
+      return c.json({ error: `Sub-workflow runs can't be resumed on their own; resume run ${previous.parentRunId}` }, 400);
+    }
+
+    // Prefer the snapshot the run executed; older runs fall back to the current file
+    let content = previous.workflowContent;
+    const logs: Array<{ timestamp: string; level: 'info' | 'error' | 'success'; message: string }> = [];
+    if (!content) {
+      const filePath = await findWorkflowFile(previous.workflowName);
+      if (!filePath) {
+        return c.json({ error: `Workflow not found: ${previous.workflowName}` }, 404);
+      }
+      content = await readFile(filePath, 'utf-8');
+      logs.push({
+        timestamp: new Date().toISOString(),
+        level: 'info',
+        message: 'No workflow snapshot stored for the original run; using the current workflow file',
+      });
+    }
+
+    let workflow;
+    try {
+      workflow = parser.parse(content);
+    } catch (err) {
+      return c.json({ error: `Invalid workflow: ${err instanceof Error ? err.message : String(err)}` }, 400);
+    }
+
+    // Handler steps always rerun; only regular steps that completed are reused. Outputs were stored
+    // with secrets redacted, so steps whose output held one run again rather than pass on placeholders
+    const completedSteps = previous.steps
+      .filter(step => (step.status === 'completed' || step.status === 'cached') && !step.handlerFor)
+      .filter(step => !hasRedactedSecrets(step.output))
+      .map(step => ({ id: step.stepId, output: step.output }));
+
+    const runId = startResumedRun({
+      resumedFrom: id,
+      workflow,
+      content,
+      triggerData: previous.triggerData,
+      completedSteps,
+      logs: [
+        {
+          timestamp: new Date().toISOString(),
+          level: 'info',
+          message: `Resuming run ${id} (${completedSteps.length} completed step(s) reused)`,
+        },
+        ...logs,
+      ],
+    });
+
+    return c.json({
+      runId,
+      status: 'running',
+      resumedFrom: id,
+      reusedSteps: completedSteps.map(step => step.id),
+    });
+  });
+
+  // Approval gates
+  const approvalErrorStatus = (err: ApprovalError) =>
+    err.code === 'not_found' ? 404 : err.code === 'forbidden' ? 403 : 409;
+
+  app.get('/api/approvals', (c) => {
+    const status = c.req.query('status');
+    const list = scheduler.store.listApprovals({
+      status: status === 'pending' || status === 'approved' || status === 'rejected' || status === 'cancelled'
+        ? status
+        : undefined,
+      runId: c.req.query('runId'),
+    });
+    return c.json({ approvals: list.map(toPublicApproval) });
+  });
+
+  app.get('/api/approvals/:id', (c) => {
+    const approval = scheduler.store.getApproval(c.req.param('id'));
+    if (!approval) {
+      return c.json({ error: 'Approval not found' }, 404);
+    }
+    return c.json(toPublicApproval(approval));
+  });
+
+  app.post('/api/approvals/:id/decide', async (c) => {
+    const body = await c.req.json().catch(() => ({})) as { decision?: string; approver?: string; comment?: string };
+    if (body.decision !== 'approve' && body.decision !== 'reject') {
+      return c.json({ error: 'decision must be "approve" or "reject"' }, 400);
+    }
+    // The approver is the authenticated token; a typed name is only recorded while auth is off
+    // and never satisfies an `approvers` list
+    const identity = c.get('identity');
+    try {
+      const approval = approvals.decide(c.req.param('id'), {
+        approved: body.decision === 'approve',
+        via: 'web',
+        approver: identity?.name ?? (body.approver?.trim() || 'web'),
+        unverified: !identity,
+        comment: body.comment?.trim() || undefined,
+      });
+      return c.json(toPublicApproval(approval));
+    } catch (err) {
+      if (err instanceof ApprovalError) {
+        return c.json({ error: err.message }, approvalErrorStatus(err));
+      }
+      throw err;
+    }
+  });
+
+  // Signed links sent to chat. GET only shows a confirmation form so link
+  // previews can't decide on someone's behalf; the form POSTs back here.
+  const approvalPage = (title: string, body: string, color = '#fff') => `<!DOCTYPE html>
+<html>
+<head><title>${escapeHtml(title)}</title><meta name="viewport" content="width=device-width, initial-scale=1"></head>
+<body style="font-family: system-ui; display: flex; align-items: center; justify-content: center; min-height: 100vh; margin: 0; background: #1a1a1a; color: #fff;">
+  <div style="max-width: 480px; padding: 40px;">
+    <h1 style="color: ${color};">${escapeHtml(title)}</h1>
+    ${body}
+  </div>
+</body>
+</html>`;
+
+  const verifyApprovalLink = (id: string, decision: string | undefined, sig: string | undefined) => {
+    const approval = scheduler.store.getApproval(id);
+    if (!approval || (decision !== 'approve' && decision !== 'reject') || !sig
+        || !approvals.verifySignature(approval, decision, sig)) {
+      return null;
+    }
+    return { approval, decision: decision as 'approve' | 'reject' };
+  };
+
+  app.get('/approvals/:id', (c) => {
+    const link = verifyApprovalLink(c.req.param('id'), c.req.query('decision'), c.req.query('sig'));
+    if (!link) {
+      return c.html(approvalPage('Invalid link', '<p style="color: #999;">This approval link is invalid.</p>', '#ef4444'), 400);
+    }
+    const { approval, decision } = link;
+    if (approval.status !== 'pending') {
+      return c.html(approvalPage('Already decided', `<p style="color: #999;">This approval was already ${escapeHtml(approval.status)}${approval.approver ? ` by ${escapeHtml(approval.approver)}` : ''}.</p>`));
+    }
+
+    // Anyone holding the link could type an allowed name, so links can't decide restricted approvals
+    if (approval.approvers && approval.approvers.length > 0) {
+      return c.html(approvalPage('Approvers only', `<p style="color: #999;">Only ${escapeHtml(approval.approvers.join(', '))} can decide this approval. Use the Runs page, Slack or Telegram.</p>`, '#ef4444'), 403);
+    }
+
+    const verb = decision === 'approve' ? 'Approve' : 'Reject';
+    return c.html(approvalPage(`${verb} "${approval.workflowName}"?`, `
+    <p style="color: #999;">Step ${escapeHtml(approval.stepId)}</p>
+    <p style="white-space: pre-wrap;">${escapeHtml(approval.message)}</p>
+    <form method="post">
+      <input type="hidden" name="decision" value="${decision}">
+      <input type="hidden" name="sig" value="${escapeHtml(c.req.query('sig') ?? '')}">
+      <p><textarea name="comment" placeholder="Comment (optional)" style="width: 100%; padding: 8px;"></textarea></p>
+      <button type="submit" style="padding: 10px 20px; background: ${decision === 'approve' ? '#22c55e' : '#ef4444'}; color: #fff; border: none; border-radius: 6px; cursor: pointer;">${verb}</button>
+    </form>`));
+  });
+
+  app.post('/approvals/:id', async (c) => {
+    const form = await c.req.parseBody();
+    const field = (name: string) => typeof form[name] === 'string' ? (form[name] as string).trim() : undefined;
+    const link = verifyApprovalLink(c.req.param('id'), field('decision'), field('sig'));
+    if (!link) {
+      return c.html(approvalPage('Invalid link', '<p style="color: #999;">This approval link is invalid.</p>', '#ef4444'), 400);
+    }
+
+    try {
+      const approval = approvals.decide(link.approval.id, {
+        approved: link.decision === 'approve',
+        via: 'link',
+        approver: 'link',
+        unverified: true,
+        comment: field('comment') || undefined,
+      });
+      const approved = approval.status === 'approved';
+      return c.html(approvalPage(approved ? 'Approved' : 'Rejected', '<p style="color: #999;">Thanks, the workflow has been notified. You can close this window.</p>', approved ? '#22c55e' : '#ef4444'));
+    } catch (err) {
+      if (err instanceof ApprovalError) {
+        return c.html(approvalPage('Could not record decision', `<p style="color: #999;">${escapeHtml(err.message)}</p>`, '#ef4444'), approvalErrorStatus(err));
+      }
+      throw err;
+    }
+  });
+
+  // Step output cache
+  app.get('/api/cache', (c) => {
+    const limit = c.req.query('limit') ? parseInt(c.req.query('limit')!, 10) : undefined;
+    const entries = scheduler.store.listCacheEntries({ workflowName: c.req.query('workflow'), limit });
+    return c.json({ entries });
+  });
+
+  app.get('/api/cache/:key', (c) => {
+    const entry = scheduler.store.getCacheEntry(c.req.param('key'));
+    if (!entry) {
+      return c.json({ error: 'Cache entry not found' }, 404);
+    }
+    return c.json(entry);
+  });
+
+  app.delete('/api/cache/:key', (c) => {
+    const deleted = scheduler.store.purgeCache({ key: c.req.param('key') });
+    if (deleted === 0) {
+      return c.json({ error: 'Cache entry not found' }, 404);
+    }
+    return c.json({ success: true, deleted });
+  });
+
+  // Purge everything, one workflow's entries (?workflow=) or only expired ones (?expired=true)
+  app.delete('/api/cache', (c) => {
+    const deleted = scheduler.store.purgeCache({
+      workflowName: c.req.query('workflow'),
+      expiredOnly: c.req.query('expired') === 'true',
+    });
+    return c.json({ success: true, deleted });
+  });
+
   // Dashboard stats endpoint
   app.get('/api/stats', async (c) => {
     try {
@@ -692,21 +1498,25 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
         nextRun: w.nextRun,
         lastRun: w.lastRun,
         lastStatus: w.lastStatus,
+        priority: w.priority,
+        queue: w.queue,
       })),
+      queues: scheduler.getQueueStats(),
     });
   });
 
   app.post('/api/scheduler/:name/deploy', async (c) => {
     const name = c.req.param('name');
     try {
-      const yamlPath = join(workflowsDir, `${name}.yaml`);
-      const ymlPath = join(workflowsDir, `${name}.yml`);
-      const filePath = (await stat(yamlPath).then(() => yamlPath).catch(() => null))
-        ?? (await stat(ymlPath).then(() => ymlPath).catch(() => null));
+      const filePath = await findWorkflowFile(name);
       if (!filePath) {
         return c.json({ success: false, error: 'Workflow file not found' }, 404);
       }
       const content = await readFile(filePath, 'utf-8');
+      const policyError = checkWorkflowPolicy(c.get('identity'), content);
+      if (policyError) {
+        return c.json({ success: false, error: policyError.error }, policyError.status);
+      }
       const result = await scheduler.scheduleWorkflow(name, content, filePath);
 
       if (result) {
@@ -771,6 +1581,8 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
           apiKey: config.webSearch.apiKey ? '••••••••' : undefined,
           hasApiKey: Boolean(config.webSearch.apiKey),
         } : undefined,
+        githubWebhookSecret: config.githubWebhookSecret ? '••••••••' : undefined,
+        hasGithubWebhookSecret: Boolean(config.githubWebhookSecret),
         email: config.email ? {
           smtp: config.email.smtp ? {
             ...config.email.smtp,
@@ -803,8 +1615,14 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
             ...config.messaging.slack,
             botToken: config.messaging.slack.botToken ? '••••••••' : undefined,
             hasBotToken: Boolean(config.messaging.slack.botToken),
+            appToken: config.messaging.slack.appToken ? '••••••••' : undefined,
+            hasAppToken: Boolean(config.messaging.slack.appToken),
+          } : undefined,
+          whatsapp: config.messaging.whatsapp ? {
+            ...config.messaging.whatsapp,
+            accessToken: config.messaging.whatsapp.accessToken ? '••••••••' : undefined,
+            hasAccessToken: Boolean(config.messaging.whatsapp.accessToken),
           } : undefined,
-          whatsapp: config.messaging.whatsapp,
           imessage: config.messaging.imessage,
         } : undefined,
       };
@@ -906,9 +1724,31 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
           } else if (existingConfig.messaging?.slack?.botToken) {
             mergedConfig.messaging.slack.botToken = existingConfig.messaging.slack.botToken;
           }
+          if (newConfig.messaging.slack.appToken && newConfig.messaging.slack.appToken !== '••••••••') {
+            mergedConfig.messaging.slack.appToken = newConfig.messaging.slack.appToken;
+          } else if (existingConfig.messaging?.slack?.appToken) {
+            mergedConfig.messaging.slack.appToken = existingConfig.messaging.slack.appToken;
+          }
+        }
+        // WhatsApp: preserve existing access token if masked value is sent
+        if (newConfig.messaging.whatsapp) {
+          mergedConfig.messaging.whatsapp = {
+            ...existingConfig.messaging?.whatsapp,
+            ...newConfig.messaging.whatsapp,
+          };
+          if (newConfig.messaging.whatsapp.accessToken && newConfig.messaging.whatsapp.accessToken !== '••••••••') {
+            mergedConfig.messaging.whatsapp.accessToken = newConfig.messaging.whatsapp.accessToken;
+          } else if (existingConfig.messaging?.whatsapp?.accessToken) {
+            mergedConfig.messaging.whatsapp.accessToken = existingConfig.messaging.whatsapp.accessToken;
+          }
         }
       }
 
+      // GitHub webhook secret: preserve existing value if masked value is sent
+      if (newConfig.githubWebhookSecret === '••••••••') {
+        mergedConfig.githubWebhookSecret = existingConfig.githubWebhookSecret;
+      }
+
       // Handle email config - preserve SMTP password if masked value is sent
       if (newConfig.email) {
         mergedConfig.email = {
@@ -1755,7 +2595,7 @@ export function createGatewayServer(config: WeavrConfig): GatewayServer {
 | Trigger | Description | Fields | Output |
 |---------|-------------|--------|--------|
 | cron.schedule | Run on schedule | expression (cron), timezone | - |
-| http.webhook | HTTP endpoint | path, method | body, headers, query |
+| http.webhook | HTTP endpoint | path, method, verify, respond, response | body, headers, query |
 | github.push | Code pushed | repo, branch | commits, pusher, ref |
 | github.pull_request | PR events | repo, events | action, pull_request |
 | github.issue.opened | Issue created | repo | issue, repository |
@@ -3485,16 +4325,78 @@ steps:
   // Webhook receiver - triggers scheduled workflows
   app.post('/webhook/:source', async (c) => {
     const source = c.req.param('source');
-    const body = await c.req.json().catch(() => ({}));
+    const rawBody = await c.req.text();
+    let body: unknown = {};
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      // Not JSON; verification still uses the raw body
+    }
     const headers = Object.fromEntries(c.req.raw.headers);
 
+    // Triggers with `verify` only fire for deliveries that pass their signature check
+    const rejected = new Map<string, { status: 401 | 409 | 500; error: string }>();
+    const listeners = scheduler.getWebhookTriggers(source);
+    for (const scheduled of listeners) {
+      if (scheduled.triggerConfig.verify === undefined) continue;
+      const verify = WebhookVerifySchema.safeParse(scheduled.triggerConfig.verify);
+      let secret = '';
+      if (verify.success) {
+        try {
+          secret = scheduler.renderWebhookSecret(scheduled, verify.data.secret);
+        } catch (err) {
+          console.error(`[webhook] Could not render the verify secret of ${scheduled.name}:`, err);
+        }
+      }
+      // A misconfigured check fails closed, without telling the sender why
+      if (!verify.success || !secret) {
+        console.error(`[webhook] ${scheduled.name} has an invalid verify config or an empty secret; rejecting /webhook/${source}`);
+        rejected.set(scheduled.id, { status: 500, error: 'Webhook verification is misconfigured' });
+        continue;
+      }
+      const result = webhookVerifier.verify(verify.data, secret, { rawBody, headers, body }, scheduled.id);
+      if (!result.ok) {
+        console.log(`[webhook] Rejected delivery to /webhook/${source} for ${scheduled.name}: ${result.error}`);
+        rejected.set(scheduled.id, { status: result.status, error: result.error });
+      }
+    }
+
+    if (listeners.length > 0 && rejected.size === listeners.length) {
+      const [first] = rejected.values();
+      return c.json({ error: first.error }, first.status);
+    }
+
     broadcast('webhooks', {
       type: 'webhook.received',
       payload: { source, body, headers },
     });
 
     // Trigger any workflows listening for this webhook
-    const { triggered, runIds } = await scheduler.triggerWebhook(source, { body, headers });
+    const { triggered, runIds, runs } = await scheduler.triggerWebhook(
+      source,
+      { body, headers },
+      (scheduled) => !rejected.has(scheduled.id)
+    );
+
+    // The first `respond: sync` trigger that started a run answers with its result
+    const started = runs.find(({ trigger }) => trigger.triggerConfig.respond === 'sync');
+    if (started) {
+      const { trigger: sync, runId } = started;
+      const timeout = typeof sync.triggerConfig.timeout === 'number' ? sync.triggerConfig.timeout : DEFAULT_SYNC_TIMEOUT;
+      const run = await waitForRun(runId, timeout);
+      if (!run) {
+        return c.json({ received: true, triggered, runIds, runId, status: 'running' }, 202);
+      }
+      try {
+        const response = sync.triggerConfig.response === undefined
+          ? undefined
+          : WebhookResponseSchema.parse(sync.triggerConfig.response);
+        return renderWebhookResponse(response, run, parser.parse(sync.workflowContent).env ?? {});
+      } catch (err) {
+        console.error(`[webhook] Could not render the response of ${sync.name} for run ${runId}:`, err);
+        return c.json({ error: 'Could not render the webhook response', runId }, 500);
+      }
+    }
 
     return c.json({
       received: true,
@@ -3550,7 +4452,8 @@ steps:
       timestamp: message.timestamp ?? Date.now(),
     };
 
-    const data = JSON.stringify(fullMessage);
+    // Run events carry step logs and errors, which can contain secret values
+    const data = JSON.stringify(scheduler.secrets.redact(fullMessage));
 
     for (const client of clients.values()) {
       if (client.subscriptions.has(channel) || client.subscriptions.has('*')) {
@@ -3604,7 +4507,41 @@ steps:
     }
   }
 
-  function handleConnection(socket: WebSocket): void {
+  // Credentials each open socket connected with, checked again every SOCKET_AUTH_CHECK_INTERVAL
+  const socketCredentials = new Map<string, { credentials: AuthCredentials; remoteAddress?: string }>();
+
+  // Same rules as the REST API: a token or session cookie once tokens exist, local connections until then
+  function authorizeConnection(credentials: AuthCredentials, remoteAddress: string | undefined): boolean {
+    if (!auth.enabled()) {
+      return isLoopbackAddress(remoteAddress);
+    }
+    return auth.authenticate(credentials) !== null;
+  }
+
+  // Close sockets whose token was revoked or expired, or whose session ended, since they connected
+  function recheckConnections(): void {
+    for (const [clientId, { credentials, remoteAddress }] of socketCredentials) {
+      if (authorizeConnection(credentials, remoteAddress)) continue;
+      const client = clients.get(clientId);
+      clients.delete(clientId);
+      socketCredentials.delete(clientId);
+      (client?.socket as WebSocket | undefined)?.close(1008, 'Authentication expired');
+    }
+  }
+
+  function handleConnection(socket: WebSocket, request: IncomingMessage): void {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const credentials: AuthCredentials = {
+      authorization: request.headers.authorization,
+      cookie: request.headers.cookie,
+      token: url.searchParams.get('token'),
+    };
+    const remoteAddress = request.socket.remoteAddress;
+    if (!authorizeConnection(credentials, remoteAddress)) {
+      socket.close(1008, 'Authentication required');
+      return;
+    }
+
     const clientId = randomUUID();
     const client: GatewayClient = {
       id: clientId,
@@ -3613,6 +4550,7 @@ steps:
     };
 
     clients.set(clientId, client);
+    socketCredentials.set(clientId, { credentials, remoteAddress });
 
     socket.send(JSON.stringify({
       type: 'connected',
@@ -3637,11 +4575,13 @@ steps:
 
     socket.on('close', () => {
       clients.delete(clientId);
+      socketCredentials.delete(clientId);
     });
 
     socket.on('error', (err) => {
       console.error(`WebSocket error for client ${clientId}:`, err.message);
       clients.delete(clientId);
+      socketCredentials.delete(clientId);
     });
   }
 
@@ -3693,7 +4633,12 @@ steps:
 
   return {
     async start() {
-      const { port, host } = config.server;
+      const { port } = config.server;
+      let { host } = config.server;
+      if (!auth.enabled() && !isLoopbackAddress(host)) {
+        console.warn(`[gateway] No API tokens exist, so listening on localhost instead of ${host}. Create one with \`weavr token create\` and restart to accept remote connections.`);
+        host = 'localhost';
+      }
 
       httpServer = serve({
         fetch: app.fetch,
@@ -3706,6 +4651,7 @@ steps:
 
       wss = new WebSocketServer({ server: httpServer as Server });
       wss.on('connection', handleConnection);
+      socketAuthTimer = setInterval(recheckConnections, SOCKET_AUTH_CHECK_INTERVAL);
 
       console.log(`Gateway server running at http://${host}:${actualPort}`);
       console.log(`WebSocket available at ws://${host}:${actualPort}`);
@@ -3717,6 +4663,13 @@ steps:
       } catch (err) {
         console.error('[gateway] Plugin initialization failed:', err);
       }
+
+      // Approvals still pending from before a restart get their timeouts and chat listeners back
+      const pendingApprovals = approvals.restore();
+      if (pendingApprovals > 0) {
+        console.log(`[gateway] Restored ${pendingApprovals} pending approval(s)`);
+        approvalNotifier.listen(scheduler.store.listApprovals({ status: 'pending', limit: 1000 })).catch(() => {});
+      }
     },
 
     async stop() {
@@ -3725,7 +4678,11 @@ steps:
         socket.close();
       }
       clients.clear();
+      socketCredentials.clear();
+      if (socketAuthTimer) clearInterval(socketAuthTimer);
 
+      approvals.dispose();
+      approvalNotifier.dispose();
       wss?.close();
       httpServer?.close();
     },
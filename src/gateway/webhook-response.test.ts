@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { WebhookResponseSchema } from '../types/index.js';
+import { renderWebhookResponse, type WebhookRunResult } from './webhook-response.js';
+
+describe('webhook response', () => {
+  const run: WebhookRunResult = {
+    id: 'run-1',
+    status: 'success',
+    trigger: { type: 'webhook', path: 'slash', data: { body: { text: 'deploy api' } } },
+    outputs: { url: 'https://example.com/deploys/7' },
+    steps: { parse: { service: 'api' }, deploy: { id: 7 } },
+  };
+
+  it('should render status, headers and body from the finished run', async () => {
+    const response = renderWebhookResponse(WebhookResponseSchema.parse({
+      status: "{{ run.status == 'success' ? 201 : 500 }}",
+      headers: { 'X-Run-Id': '{{ run.id }}' },
+      body: {
+        text: '{{ env.PREFIX }} {{ steps.parse.service }} is deploying',
+        deploy: '{{ steps.deploy }}',
+        link: '{{ outputs.url }}',
+      },
+    }), run, { PREFIX: ':rocket:' });
+
+    expect(response.status).toBe(201);
+    expect(response.headers.get('x-run-id')).toBe('run-1');
+    expect(response.headers.get('content-type')).toBe('application/json');
+    expect(await response.json()).toEqual({
+      text: ':rocket: api is deploying',
+      deploy: { id: 7 },
+      link: 'https://example.com/deploys/7',
+    });
+
+    const text = renderWebhookResponse({ body: 'Got {{ trigger.data.body.text }}' }, run, {});
+    expect(text.headers.get('content-type')).toBe('text/plain; charset=utf-8');
+    expect(await text.text()).toBe('Got deploy api');
+  });
+
+  it('should default to the run result and reject invalid statuses', async () => {
+    const failed = renderWebhookResponse(undefined, { ...run, status: 'failed', error: 'Boom', outputs: undefined }, {});
+    expect(failed.status).toBe(500);
+    expect(await failed.json()).toEqual({ runId: 'run-1', status: 'failed', error: 'Boom' });
+
+    expect(renderWebhookResponse({ status: 204, body: 'ignored' }, run, {}).body).toBeNull();
+    expect(() => renderWebhookResponse({ status: '{{ steps.parse.service }}' }, run, {})).toThrow(
+      'Response status must be a number from 200 to 599, got "api"'
+    );
+  });
+});
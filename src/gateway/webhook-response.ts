@@ -0,0 +1,86 @@
+import type { WebhookResponse } from '../types/index.js';
+import { evaluateExpression, matchSingleExpression, replaceTemplateExpressions } from '../engine/expression.js';
+
+// How long a `respond: sync` webhook waits for its run before answering 202
+export const DEFAULT_SYNC_TIMEOUT = 30 * 1000;
+
+// Statuses that can't carry a body
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+
+// A finished run as a sync webhook sees it
+export interface WebhookRunResult {
+  id: string;
+  status: 'success' | 'failed' | 'cancelled';
+  error?: string;
+  trigger?: unknown;
+  outputs?: Record<string, unknown>;
+  steps: Record<string, unknown>; // Step id -> output
+}
+
+export class WebhookResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookResponseError';
+  }
+}
+
+function renderString(template: string, scope: Record<string, unknown>): string {
+  return replaceTemplateExpressions(template, (expression) => {
+    const value = evaluateExpression(expression, scope);
+    if (value === undefined || value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+}
+
+// Keeps the raw type when a string is exactly one {{ expr }}, like step config
+function renderValue(value: unknown, scope: Record<string, unknown>): unknown {
+  if (typeof value === 'string') {
+    const expression = matchSingleExpression(value);
+    return expression !== null ? evaluateExpression(expression, scope) : renderString(value, scope);
+  }
+  if (Array.isArray(value)) return value.map((item) => renderValue(item, scope));
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderValue(item, scope)]));
+  }
+  return value;
+}
+
+export function renderWebhookResponse(
+  response: WebhookResponse | undefined,
+  run: WebhookRunResult,
+  env: Record<string, string>
+): Response {
+  const scope = {
+    trigger: run.trigger,
+    env,
+    steps: run.steps,
+    outputs: run.outputs ?? {},
+    run: { id: run.id, status: run.status, error: run.error },
+  };
+
+  const renderedStatus = response?.status === undefined
+    ? (run.status === 'success' ? 200 : 500)
+    : renderValue(response.status, scope);
+  const status = Number(renderedStatus);
+  if (!Number.isInteger(status) || status < 200 || status > 599) {
+    throw new WebhookResponseError(`Response status must be a number from 200 to 599, got "${String(renderedStatus)}"`);
+  }
+
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(response?.headers ?? {})) {
+    headers.set(name, renderString(value, scope));
+  }
+
+  const body = response?.body === undefined
+    ? { runId: run.id, status: run.status, outputs: run.outputs, error: run.error }
+    : renderValue(response.body, scope);
+  if (NULL_BODY_STATUSES.has(status) || body === undefined || body === null) {
+    return new Response(null, { status, headers });
+  }
+  if (typeof body === 'string') {
+    if (!headers.has('content-type')) headers.set('content-type', 'text/plain; charset=utf-8');
+    return new Response(body, { status, headers });
+  }
+  if (!headers.has('content-type')) headers.set('content-type', 'application/json');
+  return new Response(JSON.stringify(body), { status, headers });
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'node:crypto';
+import { WebhookVerifySchema } from '../types/index.js';
+import { createWebhookVerifier } from './webhook-verification.js';
+
+const NOW = 1_760_000_000_000;
+const SECONDS = String(NOW / 1000);
+
+function hmac(algorithm: string, key: string | Buffer, payload: string, encoding: 'hex' | 'base64' = 'hex'): string {
+  return createHmac(algorithm, key).update(payload).digest(encoding);
+}
+
+describe('webhook verification', () => {
+  const rawBody = '{"id":"evt_1","type":"invoice.paid"}';
+  const body = JSON.parse(rawBody);
+
+  it('should verify the Stripe, Slack, Linear and Svix presets', () => {
+    const verifier = createWebhookVerifier({ now: () => NOW });
+    const check = (preset: string, secret: string, headers: Record<string, string>, requestBody = rawBody) =>
+      verifier.verify(
+        WebhookVerifySchema.parse({ preset, secret }),
+        secret,
+        { rawBody: requestBody, headers, body: JSON.parse(requestBody) },
+        preset
+      );
+
+    const stripe = hmac('sha256', 'whsec_stripe', `${SECONDS}.${rawBody}`);
+    expect(check('stripe', 'whsec_stripe', { 'stripe-signature': `t=${SECONDS},v1=deadbeef,v1=${stripe}` })).toEqual({ ok: true });
+    expect(check('stripe', 'other', { 'stripe-signature': `t=${SECONDS},v1=${stripe}` })).toMatchObject({ ok: false, status: 401 });
+
+    const slack = hmac('sha256', 'slack-secret', `v0:${SECONDS}:${rawBody}`);
+    expect(check('slack', 'slack-secret', {
+      'x-slack-signature': `v0=${slack}`,
+      'x-slack-request-timestamp': SECONDS,
+    })).toEqual({ ok: true });
+
+    const linearBody = JSON.stringify({ action: 'create', webhookTimestamp: NOW });
+    expect(check('linear', 'lin_wh', { 'linear-signature': hmac('sha256', 'lin_wh', linearBody) }, linearBody)).toEqual({ ok: true });
+
+    const key = Buffer.from('svix-signing-key').toString('base64');
+    const svix = hmac('sha256', Buffer.from(key, 'base64'), `msg_1.${SECONDS}.${rawBody}`, 'base64');
+    expect(check('svix', `whsec_${key}`, {
+      'svix-id': 'msg_1',
+      'svix-timestamp': SECONDS,
+      'svix-signature': `v1,bm90LWl0 v1,${svix}`,
+    })).toEqual({ ok: true });
+
+    expect(check('slack', 'slack-secret', {})).toEqual({ ok: false, status: 401, error: 'Missing X-Slack-Signature header' });
+  });
+
+  it('should check custom schemes, timestamp tolerance and replays', () => {
+    const verifier = createWebhookVerifier({ now: () => NOW });
+    const verify = WebhookVerifySchema.parse({
+      secret: 'shh',
+      header: 'X-Signature',
+      algorithm: 'sha512',
+      prefix: 'sha512=',
+      timestamp_header: 'X-Timestamp',
+      tolerance: 60_000,
+    });
+    const request = (timestamp: string) => ({
+      rawBody,
+      body,
+      headers: {
+        'x-signature': `sha512=${hmac('sha512', 'shh', `${timestamp}.${rawBody}`)}`,
+        'x-timestamp': timestamp,
+      },
+    });
+
+    expect(verifier.verify(verify, 'shh', request(SECONDS), 'orders')).toEqual({ ok: true });
+    expect(verifier.verify(verify, 'shh', request(SECONDS), 'orders')).toMatchObject({ ok: false, status: 409 });
+    // Replay protection is kept per trigger
+    expect(verifier.verify(verify, 'shh', request(SECONDS), 'billing')).toEqual({ ok: true });
+
+    const stale = String(NOW / 1000 - 120);
+    expect(verifier.verify(verify, 'shh', request(stale), 'orders')).toMatchObject({
+      ok: false,
+      status: 401,
+      error: 'Signature timestamp is outside the allowed tolerance',
+    });
+    expect(verifier.verify({ ...verify, tolerance: 0, replay: false }, 'shh', request(stale), 'orders')).toEqual({ ok: true });
+    expect(verifier.verify({ ...verify, tolerance: 0, replay: false }, 'shh', request(stale), 'orders')).toEqual({ ok: true });
+
+    const tampered = { ...request(SECONDS), rawBody: rawBody.replace('paid', 'void') };
+    expect(verifier.verify(verify, 'shh', tampered, 'payments')).toEqual({ ok: false, status: 401, error: 'Invalid signature' });
+
+    expect(WebhookVerifySchema.safeParse({ secret: 'shh' }).success).toBe(false);
+    expect(WebhookVerifySchema.safeParse({ secret: 'shh', header: 'X-Signature', payload: '{timestamp}:{body}' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,213 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { WebhookVerify } from '../types/index.js';
+
+export const DEFAULT_WEBHOOK_TOLERANCE = 5 * 60 * 1000;
+
+// How long a delivery without a signed timestamp is remembered for replay protection
+export const DEFAULT_REPLAY_WINDOW = 24 * 60 * 60 * 1000;
+
+export interface WebhookRequest {
+  rawBody: string;
+  headers: Record<string, string>; // Lower-cased names
+  body: unknown; // The parsed JSON body, if there is one
+}
+
+export type WebhookVerification =
+  | { ok: true }
+  | { ok: false; status: 401 | 409; error: string };
+
+// What a scheme reads from a delivery
+interface SignedDelivery {
+  signatures: string[]; // Candidates from the request; providers send several while a secret is rotated
+  payload: string; // The text the sender signed
+  timestamp?: number; // Send time in ms, for schemes that sign one
+  id: string; // Remembered for replay protection
+}
+
+interface SignatureScheme {
+  algorithm: WebhookVerify['algorithm'];
+  encoding: WebhookVerify['encoding'];
+  key(secret: string): Buffer;
+  // Returns why the delivery can't be checked when it lacks what the scheme needs
+  read(request: WebhookRequest): SignedDelivery | string;
+}
+
+const utf8Key = (secret: string): Buffer => Buffer.from(secret, 'utf8');
+
+// Providers send unix seconds, or ms in Linear's case
+function toMs(value: number): number {
+  return value < 1e12 ? value * 1000 : value;
+}
+
+function isTimestamp(value: string | undefined): value is string {
+  return value !== undefined && /^\d+$/.test(value);
+}
+
+// Split e.g. "t=1,v1=abc,v1=def" into [name, value] pairs
+function readPairs(header: string, separator: string, assignment: string): Array<[string, string]> {
+  return header.split(separator).filter(Boolean).map((part) => {
+    const index = part.indexOf(assignment);
+    return index === -1 ? [part.trim(), ''] : [part.slice(0, index).trim(), part.slice(index + 1).trim()];
+  });
+}
+
+const PRESETS: Record<NonNullable<WebhookVerify['preset']>, SignatureScheme> = {
+  // Stripe-Signature: t=<seconds>,v1=<hex>[,v1=<hex>], signing "<t>.<body>"
+  stripe: {
+    algorithm: 'sha256',
+    encoding: 'hex',
+    key: utf8Key,
+    read({ rawBody, headers }) {
+      const header = headers['stripe-signature'];
+      if (!header) return 'Missing Stripe-Signature header';
+      const pairs = readPairs(header, ',', '=');
+      const timestamp = pairs.find(([name]) => name === 't')?.[1];
+      const signatures = pairs.filter(([name]) => name === 'v1').map(([, value]) => value);
+      if (!isTimestamp(timestamp) || signatures.length === 0) return 'Malformed Stripe-Signature header';
+      return { signatures, payload: `${timestamp}.${rawBody}`, timestamp: toMs(Number(timestamp)), id: signatures[0] };
+    },
+  },
+
+  // X-Slack-Signature: v0=<hex> with X-Slack-Request-Timestamp, signing "v0:<timestamp>:<body>"
+  slack: {
+    algorithm: 'sha256',
+    encoding: 'hex',
+    key: utf8Key,
+    read({ rawBody, headers }) {
+      const signature = headers['x-slack-signature'];
+      const timestamp = headers['x-slack-request-timestamp'];
+      if (!signature?.startsWith('v0=')) return 'Missing X-Slack-Signature header';
+      if (!isTimestamp(timestamp)) return 'Missing X-Slack-Request-Timestamp header';
+      return {
+        signatures: [signature.slice(3)],
+        payload: `v0:${timestamp}:${rawBody}`,
+        timestamp: toMs(Number(timestamp)),
+        id: signature,
+      };
+    },
+  },
+
+  // Linear-Signature: <hex> of the body, which carries webhookTimestamp in ms
+  linear: {
+    algorithm: 'sha256',
+    encoding: 'hex',
+    key: utf8Key,
+    read({ rawBody, headers, body }) {
+      const signature = headers['linear-signature'];
+      if (!signature) return 'Missing Linear-Signature header';
+      const timestamp = (body as { webhookTimestamp?: unknown } | null)?.webhookTimestamp;
+      return {
+        signatures: [signature],
+        payload: rawBody,
+        timestamp: typeof timestamp === 'number' ? toMs(timestamp) : undefined,
+        id: signature,
+      };
+    },
+  },
+
+  // Svix and Standard Webhooks: <prefix>-id, -timestamp and -signature ("v1,<base64> ..."),
+  // signing "<id>.<timestamp>.<body>" with the base64 secret after "whsec_"
+  svix: {
+    algorithm: 'sha256',
+    encoding: 'base64',
+    key: (secret) => Buffer.from(secret.replace(/^whsec_/, ''), 'base64'),
+    read({ rawBody, headers }) {
+      const prefix = headers['svix-id'] ? 'svix' : 'webhook';
+      const id = headers[`${prefix}-id`];
+      const timestamp = headers[`${prefix}-timestamp`];
+      const header = headers[`${prefix}-signature`];
+      if (!id || !header) return 'Missing svix-id or svix-signature header';
+      if (!isTimestamp(timestamp)) return 'Missing svix-timestamp header';
+      const signatures = readPairs(header, ' ', ',').filter(([version]) => version === 'v1').map(([, value]) => value);
+      if (signatures.length === 0) return 'Malformed svix-signature header';
+      return { signatures, payload: `${id}.${timestamp}.${rawBody}`, timestamp: toMs(Number(timestamp)), id };
+    },
+  },
+};
+
+function customScheme(verify: WebhookVerify): SignatureScheme {
+  const header = verify.header!;
+  const payload = verify.payload ?? (verify.timestamp_header ? '{timestamp}.{body}' : '{body}');
+
+  return {
+    algorithm: verify.algorithm,
+    encoding: verify.encoding,
+    key: utf8Key,
+    read({ rawBody, headers }) {
+      let signature = headers[header.toLowerCase()];
+      if (!signature) return `Missing ${header} header`;
+      if (verify.prefix) {
+        if (!signature.startsWith(verify.prefix)) return `${header} doesn't start with "${verify.prefix}"`;
+        signature = signature.slice(verify.prefix.length);
+      }
+
+      let timestamp: string | undefined;
+      if (verify.timestamp_header) {
+        timestamp = headers[verify.timestamp_header.toLowerCase()];
+        if (!isTimestamp(timestamp)) return `Missing ${verify.timestamp_header} header`;
+      }
+
+      return {
+        signatures: [signature.trim()],
+        payload: payload.replace(/\{(body|timestamp)\}/g, (_match, name: string) => name === 'body' ? rawBody : timestamp ?? ''),
+        timestamp: timestamp !== undefined ? toMs(Number(timestamp)) : undefined,
+        id: signature,
+      };
+    },
+  };
+}
+
+function matchesSignature(scheme: SignatureScheme, secret: string, delivery: SignedDelivery): boolean {
+  const expected = Buffer.from(
+    createHmac(scheme.algorithm, scheme.key(secret)).update(delivery.payload, 'utf8').digest(scheme.encoding)
+  );
+  return delivery.signatures.some((signature) => {
+    const actual = Buffer.from(scheme.encoding === 'hex' ? signature.toLowerCase() : signature);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  });
+}
+
+export interface WebhookVerifier {
+  // `scope` keeps replay protection separate for each trigger sharing a path
+  verify(verify: WebhookVerify, secret: string, request: WebhookRequest, scope: string): WebhookVerification;
+}
+
+export function createWebhookVerifier(options: { now?: () => number } = {}): WebhookVerifier {
+  const now = options.now ?? Date.now;
+  const accepted = new Map<string, number>(); // Delivery key -> when it can be forgotten
+
+  return {
+    verify(verify, secret, request, scope) {
+      const scheme = verify.preset ? PRESETS[verify.preset] : customScheme(verify);
+      const delivery = scheme.read(request);
+      if (typeof delivery === 'string') {
+        return { ok: false, status: 401, error: delivery };
+      }
+      if (!matchesSignature(scheme, secret, delivery)) {
+        return { ok: false, status: 401, error: 'Invalid signature' };
+      }
+
+      // A tolerance of 0 turns the timestamp check off
+      const current = now();
+      const tolerance = verify.tolerance ?? DEFAULT_WEBHOOK_TOLERANCE;
+      const timestamped = delivery.timestamp !== undefined && tolerance > 0;
+      if (timestamped && Math.abs(current - delivery.timestamp!) > tolerance) {
+        return { ok: false, status: 401, error: 'Signature timestamp is outside the allowed tolerance' };
+      }
+
+      if (verify.replay !== false) {
+        for (const [key, forgetAt] of accepted) {
+          if (forgetAt <= current) accepted.delete(key);
+        }
+        const key = `${scope}:${delivery.id}`;
+        if (accepted.has(key)) {
+          return { ok: false, status: 409, error: 'Delivery was already received' };
+        }
+        // Once its timestamp is out of tolerance a replay is rejected anyway
+        accepted.set(key, timestamped ? delivery.timestamp! + tolerance : current + DEFAULT_REPLAY_WINDOW);
+      }
+
+      return { ok: true };
+    },
+  };
+}
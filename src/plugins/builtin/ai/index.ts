@@ -177,7 +177,9 @@ async function fetchWithTimeout(
     const timeout = setTimeout(() => controller.abort(), timeoutMs);
 
     try {
-      const response = await fetch(url, { ...options, signal: controller.signal });
+      // Also abort when the caller's signal (the step's) fires
+      const signal = options.signal ? AbortSignal.any([controller.signal, options.signal]) : controller.signal;
+      const response = await fetch(url, { ...options, signal });
       clearTimeout(timeout);
 
       // Check for rate limit errors (429) or server errors (5xx)
@@ -198,8 +200,11 @@ async function fetchWithTimeout(
           continue;
         }
 
-        // Max retries exceeded, throw with context
-        throw new Error(`API error after ${maxRetries} retries: ${response.status} - ${errorBody.slice(0, 200)}`);
+        // Max retries exceeded, throw with context (status and wait feed step-level retry policies)
+        throw Object.assign(
+          new Error(`API error after ${maxRetries} retries: ${response.status} - ${errorBody.slice(0, 200)}`),
+          { status: response.status, retryAfterMs: parseRetryAfter(response, errorBody) || undefined }
+        );
       }
 
       return response;
@@ -208,6 +213,9 @@ async function fetchWithTimeout(
       lastError = err as Error;
 
       // Don't retry on abort (timeout) or non-retryable errors
+      if (options.signal?.aborted) {
+        throw options.signal.reason;
+      }
       if ((err as Error).name === 'AbortError') {
         throw new Error(`Request timed out after ${timeoutMs}ms`);
       }
@@ -234,7 +242,7 @@ interface CLIResult {
   model: string;
 }
 
-async function executeClaudeCLI(prompt: string, system?: string): Promise<CLIResult> {
+async function executeClaudeCLI(prompt: string, system?: string, signal?: AbortSignal): Promise<CLIResult> {
   // Write prompt to temp file to handle special characters
   const tempFile = join(tmpdir(), `weavr-prompt-${Date.now()}.txt`);
   try {
@@ -249,6 +257,7 @@ async function executeClaudeCLI(prompt: string, system?: string): Promise<CLIRes
     const { stdout } = await execAsync(command, {
       timeout: 120000, // 2 minute timeout
       maxBuffer: 10 * 1024 * 1024, // 10MB buffer
+      signal,
     });
 
     return {
@@ -261,7 +270,7 @@ async function executeClaudeCLI(prompt: string, system?: string): Promise<CLIRes
   }
 }
 
-async function executeOllama(prompt: string, model = 'llama3.2', system?: string): Promise<CLIResult> {
+async function executeOllama(prompt: string, model = 'llama3.2', system?: string, signal?: AbortSignal): Promise<CLIResult> {
   const tempFile = join(tmpdir(), `weavr-prompt-${Date.now()}.txt`);
   try {
     writeFileSync(tempFile, prompt, 'utf-8');
@@ -275,6 +284,7 @@ async function executeOllama(prompt: string, model = 'llama3.2', system?: string
     const { stdout } = await execAsync(command, {
       timeout: 180000, // 3 minute timeout for local models
       maxBuffer: 10 * 1024 * 1024,
+      signal,
     });
 
     return {
@@ -287,7 +297,7 @@ async function executeOllama(prompt: string, model = 'llama3.2', system?: string
   }
 }
 
-async function executeLLMCLI(prompt: string, model?: string, system?: string): Promise<CLIResult> {
+async function executeLLMCLI(prompt: string, model?: string, system?: string, signal?: AbortSignal): Promise<CLIResult> {
   const tempFile = join(tmpdir(), `weavr-prompt-${Date.now()}.txt`);
   try {
     writeFileSync(tempFile, prompt, 'utf-8');
@@ -304,6 +314,7 @@ async function executeLLMCLI(prompt: string, model?: string, system?: string): P
     const { stdout } = await execAsync(command, {
       timeout: 120000,
       maxBuffer: 10 * 1024 * 1024,
+      signal,
     });
 
     return {
@@ -331,27 +342,27 @@ async function checkCLIAvailability(): Promise<{ claude: boolean; ollama: boolea
   };
 }
 
-async function executeCLI(prompt: string, config: AIConfig, system?: string): Promise<CLIResult> {
+async function executeCLI(prompt: string, config: AIConfig, system?: string, signal?: AbortSignal): Promise<CLIResult> {
   const cliProvider = config.cliProvider ?? 'auto';
   const cliModel = config.cliModel;
 
   if (cliProvider === 'claude') {
-    return executeClaudeCLI(prompt, system);
+    return executeClaudeCLI(prompt, system, signal);
   } else if (cliProvider === 'ollama') {
-    return executeOllama(prompt, cliModel ?? 'llama3.2', system);
+    return executeOllama(prompt, cliModel ?? 'llama3.2', system, signal);
   } else if (cliProvider === 'llm') {
-    return executeLLMCLI(prompt, cliModel, system);
+    return executeLLMCLI(prompt, cliModel, system, signal);
   }
 
   // Auto-detect available CLI
   const available = await checkCLIAvailability();
 
   if (available.claude) {
-    return executeClaudeCLI(prompt, system);
+    return executeClaudeCLI(prompt, system, signal);
   } else if (available.ollama) {
-    return executeOllama(prompt, cliModel ?? 'llama3.2', system);
+    return executeOllama(prompt, cliModel ?? 'llama3.2', system, signal);
   } else if (available.llm) {
-    return executeLLMCLI(prompt, cliModel, system);
+    return executeLLMCLI(prompt, cliModel, system, signal);
   }
 
   throw new Error('No CLI AI tool available. Install claude, ollama, or llm CLI.');
@@ -519,6 +530,7 @@ export default definePlugin({
           const model = config.model ?? getConfiguredModel() ?? 'claude-sonnet-4-20250514';
 
           const response = await fetchWithTimeout('https://api.anthropic.com/v1/messages', {
+            signal: ctx.signal,
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
@@ -565,6 +577,7 @@ export default definePlugin({
           messages.push({ role: 'user', content: config.prompt });
 
           const response = await fetchWithTimeout('https://api.openai.com/v1/chat/completions', {
+            signal: ctx.signal,
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
@@ -598,7 +611,7 @@ export default definePlugin({
           const globalConfig = getGlobalAIConfig();
           if (globalConfig.useCLI) {
             ctx.log('Using CLI-based AI (no API key configured)');
-            const result = await executeCLI(config.prompt, globalConfig, config.system);
+            const result = await executeCLI(config.prompt, globalConfig, config.system, ctx.signal);
             return result;
           }
           throw new Error('No AI API key found. Set ANTHROPIC_API_KEY or OPENAI_API_KEY, or enable CLI mode in config.');
@@ -634,6 +647,7 @@ Summary:`;
         if (anthropicKey) {
           ctx.log('Using Anthropic for summarization');
           const response = await fetchWithTimeout('https://api.anthropic.com/v1/messages', {
+            signal: ctx.signal,
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
@@ -666,6 +680,7 @@ Summary:`;
           const authToken = oauthToken ?? openaiKey;
           ctx.log(oauthToken ? 'Using OpenAI with OAuth for summarization' : 'Using OpenAI for summarization');
           const response = await fetchWithTimeout('https://api.openai.com/v1/chat/completions', {
+            signal: ctx.signal,
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
@@ -698,7 +713,7 @@ Summary:`;
         } else if (globalConfig.useCLI) {
           // Fallback to CLI-based AI
           ctx.log('Using CLI-based AI for summarization');
-          const result = await executeCLI(prompt, globalConfig, systemPrompt);
+          const result = await executeCLI(prompt, globalConfig, systemPrompt, ctx.signal);
           return { summary: result.text };
         } else {
           throw new Error('No AI API key found. Set ANTHROPIC_API_KEY or OPENAI_API_KEY, or enable CLI mode.');
@@ -736,6 +751,7 @@ Return ONLY valid JSON, no other text.`;
 
         if (anthropicKey) {
           const response = await fetchWithTimeout('https://api.anthropic.com/v1/messages', {
+            signal: ctx.signal,
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
@@ -758,6 +774,7 @@ Return ONLY valid JSON, no other text.`;
         } else if (oauthToken || openaiKey) {
           const authToken = oauthToken ?? openaiKey;
           const response = await fetchWithTimeout('https://api.openai.com/v1/chat/completions', {
+            signal: ctx.signal,
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
@@ -779,7 +796,7 @@ Return ONLY valid JSON, no other text.`;
           result = data.choices[0]?.message?.content ?? '{}';
         } else if (globalConfig.useCLI) {
           ctx.log('Using CLI-based AI for extraction');
-          const cliResult = await executeCLI(prompt, globalConfig);
+          const cliResult = await executeCLI(prompt, globalConfig, undefined, ctx.signal);
           result = cliResult.text;
         } else {
           throw new Error('No AI API key found. Enable CLI mode or set API key.');
@@ -815,6 +832,7 @@ Return ONLY the category name, nothing else.`;
 
         if (anthropicKey) {
           const response = await fetchWithTimeout('https://api.anthropic.com/v1/messages', {
+            signal: ctx.signal,
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
@@ -837,6 +855,7 @@ Return ONLY the category name, nothing else.`;
         } else if (oauthToken || openaiKey) {
           const authToken = oauthToken ?? openaiKey;
           const response = await fetchWithTimeout('https://api.openai.com/v1/chat/completions', {
+            signal: ctx.signal,
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
@@ -857,7 +876,7 @@ Return ONLY the category name, nothing else.`;
           category = data.choices[0]?.message?.content?.trim() ?? 'unknown';
         } else if (globalConfig.useCLI) {
           ctx.log('Using CLI-based AI for classification');
-          const result = await executeCLI(prompt, globalConfig);
+          const result = await executeCLI(prompt, globalConfig, undefined, ctx.signal);
           category = result.text.trim();
         } else {
           throw new Error('No AI API key found. Enable CLI mode or set API key.');
@@ -1148,6 +1167,7 @@ Return ONLY the category name, nothing else.`;
                     const response = await fetchWithTimeout(
                       `https://api.search.brave.com/res/v1/web/search?q=${encodeURIComponent(query)}&count=10`,
                       {
+                        signal: ctx.signal,
                         headers: {
                           'Accept': 'application/json',
                           'X-Subscription-Token': braveKey,
@@ -1183,6 +1203,7 @@ Return ONLY the category name, nothing else.`;
                   ctx.log('Fallback: Using Tavily Search API');
                   try {
                     const response = await fetchWithTimeout('https://api.tavily.com/search', {
+                      signal: ctx.signal,
                       method: 'POST',
                       headers: { 'Content-Type': 'application/json' },
                       body: JSON.stringify({
@@ -1256,6 +1277,7 @@ Try web_fetch with specific URLs:
               // Use fetchWithTimeout with retry logic
               try {
                 const response = await fetchWithTimeout(url, {
+                  signal: ctx.signal,
                   headers: {
                     'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
                     'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
@@ -1345,6 +1367,7 @@ Try web_fetch with specific URLs:
                 const { stdout, stderr } = await execAsync(String(input.command), {
                   timeout: 30000,
                   maxBuffer: 1024 * 1024,
+                  signal: ctx.signal,
                 });
                 return stdout || stderr || '(no output)';
               } catch (err) {
@@ -1420,6 +1443,7 @@ Try web_fetch with specific URLs:
                 const body = input.body;
 
                 const response = await fetchWithTimeout(url, {
+                  signal: ctx.signal,
                   method,
                   headers: {
                     'Content-Type': 'application/json',
@@ -1547,6 +1571,7 @@ If a tool returns [FAILED] or [ERROR]:
           if (anthropicKey) {
             const model = modelOverride ?? globalConfig.model ?? 'claude-sonnet-4-20250514';
             response = await fetchWithTimeout('https://api.anthropic.com/v1/messages', {
+              signal: ctx.signal,
               method: 'POST',
               headers: {
                 'Content-Type': 'application/json',
@@ -1691,6 +1716,7 @@ If a tool returns [FAILED] or [ERROR]:
             }
 
             const ollamaResponse = await fetch('http://localhost:11434/api/chat', {
+              signal: ctx.signal,
               method: 'POST',
               headers: { 'Content-Type': 'application/json' },
               body: JSON.stringify({
@@ -1786,6 +1812,7 @@ If a tool returns [FAILED] or [ERROR]:
             // Codex API with streaming
             const codexModel = modelOverride ?? globalConfig.model ?? 'gpt-4o';
             const codexResponse = await fetch('https://chatgpt.com/backend-api/codex/responses', {
+              signal: ctx.signal,
               method: 'POST',
               headers: {
                 'Content-Type': 'application/json',
@@ -1911,6 +1938,7 @@ If a tool returns [FAILED] or [ERROR]:
 
             const model = modelOverride ?? globalConfig.model ?? 'gpt-4o';
             response = await fetchWithTimeout('https://api.openai.com/v1/chat/completions', {
+              signal: ctx.signal,
               method: 'POST',
               headers: {
                 'Content-Type': 'application/json',
@@ -54,6 +54,7 @@ async function sendViaAPI(config: {
   replyTo?: string;
   cc?: string[];
   bcc?: string[];
+  signal?: AbortSignal;
 }): Promise<{ success: boolean; messageId?: string; provider: string }> {
   // This uses a generic email API pattern - you can swap for Resend, SendGrid, etc.
   const response = await fetch('https://api.resend.com/emails', {
@@ -72,6 +73,7 @@ async function sendViaAPI(config: {
       text: config.text,
       html: config.html,
     }),
+    signal: config.signal,
   });
 
   if (!response.ok) {
@@ -262,12 +264,30 @@ async function sendViaSMTP(config: {
   text?: string;
   html?: string;
   replyTo?: string;
+  signal?: AbortSignal;
 }): Promise<{ success: boolean; messageId: string; provider: string }> {
-  const { smtp } = config;
+  const { smtp, signal } = config;
+  signal?.throwIfAborted();
   const socket = smtp.secure
     ? tlsConnect({ host: smtp.host, port: smtp.port })
     : netConnect({ host: smtp.host, port: smtp.port });
 
+  // Tear down the connection when the step is aborted; pending reads reject with the reason
+  const onAbort = () => socket.destroy(signal?.reason);
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    return await runSmtpSession(socket, config);
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+async function runSmtpSession(
+  socket: ReturnType<typeof netConnect>,
+  config: Parameters<typeof sendViaSMTP>[0]
+): Promise<{ success: boolean; messageId: string; provider: string }> {
+  const { smtp } = config;
+
   await new Promise<void>((resolve, reject) => {
     socket.once('connect', () => resolve());
     socket.once('error', (err) => reject(err));
@@ -395,6 +415,7 @@ export default definePlugin({
             replyTo: emailConfig.replyTo,
             cc,
             bcc,
+            signal: ctx.signal,
           });
         }
 
@@ -412,6 +433,7 @@ export default definePlugin({
             text: emailConfig.text,
             html: emailConfig.html,
             replyTo: emailConfig.replyTo,
+            signal: ctx.signal,
           });
         }
 
@@ -702,7 +702,19 @@ async function githubApi(
   const data = await response.json().catch(() => ({}));
 
   if (!response.ok) {
-    throw new Error(`GitHub API error: ${response.status} ${JSON.stringify(data)}`);
+    // Expose the status and rate limit wait so step retry policies can act on them
+    const retryAfter = response.headers.get('retry-after');
+    const resetAt = response.headers.get('x-ratelimit-reset');
+    let retryAfterMs: number | undefined;
+    if (retryAfter && !isNaN(Number(retryAfter))) {
+      retryAfterMs = Number(retryAfter) * 1000;
+    } else if (response.headers.get('x-ratelimit-remaining') === '0' && resetAt) {
+      retryAfterMs = Math.max(0, Number(resetAt) * 1000 - Date.now());
+    }
+    throw Object.assign(
+      new Error(`GitHub API error: ${response.status} ${JSON.stringify(data)}`),
+      { status: response.status, retryAfterMs }
+    );
   }
 
   return { status: response.status, data };
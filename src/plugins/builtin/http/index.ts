@@ -1,5 +1,6 @@
 import { definePlugin, defineAction, defineTrigger } from '../../sdk/types.js';
 import { z } from 'zod';
+import { WebhookResponseSchema, WebhookVerifySchema } from '../../../types/index.js';
 
 // Helper to parse headers that might be a JSON string or object
 function parseHeaders(headers: unknown): Record<string, string> {
@@ -29,8 +30,17 @@ const WebhookConfigSchema = z.object({
   path: z.string(),
   method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']).default('POST'),
   secret: z.string().optional(),
+  verify: WebhookVerifySchema.optional(), // Checked by the gateway before a delivery starts a run
+  respond: z.enum(['async', 'sync']).default('async'), // sync: answer with the run's result instead of right away
+  timeout: z.number().min(0).optional(), // ms a sync webhook waits before answering 202 (default 30s)
+  response: WebhookResponseSchema.optional(),
 });
 
+// Abort on the request's own timeout or when the executor aborts the step
+function requestSignal(timeoutSignal: AbortSignal, stepSignal?: AbortSignal): AbortSignal {
+  return stepSignal ? AbortSignal.any([timeoutSignal, stepSignal]) : timeoutSignal;
+}
+
 export default definePlugin({
   name: 'http',
   version: '1.0.0',
@@ -57,7 +67,7 @@ export default definePlugin({
               ...config.headers,
             },
             body: config.body ? JSON.stringify(config.body) : undefined,
-            signal: controller.signal,
+            signal: requestSignal(controller.signal, ctx.signal),
           });
 
           clearTimeout(timeoutId);
@@ -79,6 +89,8 @@ export default definePlugin({
             ok: response.ok,
           };
         } catch (err) {
+          // The executor aborted the step (step timeout or run cancellation)
+          if (ctx.signal?.aborted) throw ctx.signal.reason;
           if (err instanceof Error && err.name === 'AbortError') {
             throw new Error(`Request timed out after ${config.timeout}ms`);
           }
@@ -101,7 +113,7 @@ export default definePlugin({
         const timeoutId = setTimeout(() => controller.abort(), timeout);
 
         try {
-          const response = await fetch(url, { headers, signal: controller.signal });
+          const response = await fetch(url, { headers, signal: requestSignal(controller.signal, ctx.signal) });
           clearTimeout(timeoutId);
 
           const contentType = response.headers.get('content-type') ?? '';
@@ -116,6 +128,8 @@ export default definePlugin({
           return { status: response.status, data, ok: response.ok };
         } catch (err) {
           clearTimeout(timeoutId);
+          // The executor aborted the step (step timeout or run cancellation)
+          if (ctx.signal?.aborted) throw ctx.signal.reason;
           if (err instanceof Error && err.name === 'AbortError') {
             throw new Error(`Request timed out after ${timeout}ms`);
           }
@@ -143,7 +157,7 @@ export default definePlugin({
             method: 'POST',
             headers: { 'Content-Type': 'application/json', ...headers },
             body: body ? JSON.stringify(body) : undefined,
-            signal: controller.signal,
+            signal: requestSignal(controller.signal, ctx.signal),
           });
           clearTimeout(timeoutId);
 
@@ -158,6 +172,8 @@ export default definePlugin({
           return { status: response.status, data, ok: response.ok };
         } catch (err) {
           clearTimeout(timeoutId);
+          // The executor aborted the step (step timeout or run cancellation)
+          if (ctx.signal?.aborted) throw ctx.signal.reason;
           if (err instanceof Error && err.name === 'AbortError') {
             throw new Error(`Request timed out after ${timeout}ms`);
           }
@@ -10,7 +10,12 @@ export default definePlugin({
       name: 'parse',
       description: 'Parse a JSON string',
       async execute(ctx) {
-        const input = ctx.config.input as string;
+        const input = ctx.config.input;
+
+        // Already structured (e.g. passed through from a previous step's output)
+        if (typeof input !== 'string') {
+          return input;
+        }
 
         try {
           return JSON.parse(input);
@@ -48,6 +48,7 @@ export default definePlugin({
             timeout: config.timeout,
             shell: config.shell ?? defaultShell,
             maxBuffer: 10 * 1024 * 1024, // 10MB
+            signal: ctx.signal, // Kills the command when the executor aborts the step
           });
 
           const duration = Date.now() - startTime;
@@ -61,6 +62,8 @@ export default definePlugin({
             duration,
           };
         } catch (err) {
+          if (ctx.signal?.aborted) throw ctx.signal.reason;
+
           const error = err as { code?: number; stdout?: string; stderr?: string; killed?: boolean; signal?: string };
           const duration = Date.now() - startTime;
 
@@ -133,11 +136,12 @@ export default definePlugin({
 
         const startTime = Date.now();
 
-        return new Promise((resolve) => {
+        return new Promise((resolve, reject) => {
           const child = spawn(interpreterPath, getArgs(config.interpreter, config.script), {
             cwd: config.cwd,
             env: { ...process.env, ...config.env },
             shell: false,
+            signal: ctx.signal, // Kills the script when the executor aborts the step
           });
 
           let stdout = '';
@@ -159,6 +163,10 @@ export default definePlugin({
 
           child.on('close', (code) => {
             clearTimeout(timeout);
+            if (ctx.signal?.aborted) {
+              reject(ctx.signal.reason);
+              return;
+            }
             const duration = Date.now() - startTime;
 
             if (timedOut) {
@@ -186,6 +194,10 @@ export default definePlugin({
 
           child.on('error', (err) => {
             clearTimeout(timeout);
+            if (ctx.signal?.aborted) {
+              reject(ctx.signal.reason);
+              return;
+            }
             const duration = Date.now() - startTime;
             resolve({
               success: false,
@@ -42,6 +42,21 @@ interface SlackReactionEvent {
 type ReactionHandler = (event: SlackReactionEvent) => void;
 const reactionHandlers: ReactionHandler[] = [];
 
+// Interactive component handlers (button clicks)
+export interface SlackBlockActionsPayload {
+  type: 'block_actions';
+  user: { id: string; username?: string; name?: string };
+  channel?: { id: string };
+  message?: { ts: string };
+  actions: Array<{ action_id: string; value?: string }>;
+}
+
+type InteractionHandler = (payload: SlackBlockActionsPayload) => void;
+const interactionHandlers: InteractionHandler[] = [];
+
+const hasHandlers = () =>
+  messageHandlers.length > 0 || reactionHandlers.length > 0 || interactionHandlers.length > 0;
+
 /**
  * Get the app-level token for Socket Mode
  */
@@ -94,6 +109,7 @@ async function connectSocketMode(appToken: string): Promise<void> {
           payload?: {
             event?: SlackMessageEvent | SlackReactionEvent;
             type?: string;
+            actions?: unknown[];
           };
           num_connections?: number;
         };
@@ -129,6 +145,15 @@ async function connectSocketMode(appToken: string): Promise<void> {
               }
             });
           }
+        } else if (msg.type === 'interactive' && msg.payload?.type === 'block_actions') {
+          const payload = msg.payload as unknown as SlackBlockActionsPayload;
+          interactionHandlers.forEach(handler => {
+            try {
+              handler(payload);
+            } catch (err) {
+              console.error('[slack] Interaction handler error:', err);
+            }
+          });
         }
       } catch (err) {
         console.error('[slack] Failed to parse Socket Mode message:', err);
@@ -140,7 +165,7 @@ async function connectSocketMode(appToken: string): Promise<void> {
       socketConnection = null;
 
       // Attempt to reconnect if we have handlers
-      if (messageHandlers.length > 0 || reactionHandlers.length > 0) {
+      if (hasHandlers()) {
         attemptReconnect(appToken);
       }
     });
@@ -198,7 +223,7 @@ function disconnectSocketMode(): void {
  * Check if Socket Mode should be disconnected (no handlers)
  */
 function checkDisconnect(): void {
-  if (messageHandlers.length === 0 && reactionHandlers.length === 0) {
+  if (!hasHandlers()) {
     console.log('[slack] No more handlers, disconnecting Socket Mode...');
     disconnectSocketMode();
   }
@@ -234,7 +259,7 @@ function getToken(ctx: { env: Record<string, string>; config: Record<string, unk
   return token;
 }
 
-async function slackApi(
+export async function slackApi(
   token: string,
   method: string,
   body: Record<string, unknown>
@@ -257,6 +282,27 @@ async function slackApi(
   return { ok: true, data };
 }
 
+/**
+ * Receive button clicks over Socket Mode. Returns a function that stops listening.
+ */
+export async function onSlackInteraction(appToken: string, handler: InteractionHandler): Promise<() => void> {
+  interactionHandlers.push(handler);
+  try {
+    await connectSocketMode(appToken);
+  } catch (err) {
+    interactionHandlers.splice(interactionHandlers.indexOf(handler), 1);
+    throw err;
+  }
+
+  return () => {
+    const index = interactionHandlers.indexOf(handler);
+    if (index >= 0) {
+      interactionHandlers.splice(index, 1);
+    }
+    checkDisconnect();
+  };
+}
+
 export default definePlugin({
   name: 'slack',
   version: '1.0.0',
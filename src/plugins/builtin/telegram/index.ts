@@ -26,7 +26,7 @@ let lastUpdateId = 0;
 let pollingAbortController: AbortController | null = null;
 
 // Message handlers for all active triggers
-interface TelegramMessage {
+export interface TelegramMessage {
   message_id: number;
   from: {
     id: number;
@@ -167,7 +167,7 @@ function getToken(ctx: { env: Record<string, string>; config: Record<string, unk
 }
 
 // Helper for Telegram API calls
-async function telegramApi(token: string, method: string, body?: Record<string, unknown>): Promise<unknown> {
+export async function telegramApi(token: string, method: string, body?: Record<string, unknown>): Promise<unknown> {
   const response = await fetch(`${TELEGRAM_API}${token}/${method}`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
@@ -223,6 +223,28 @@ const WebhookTriggerSchema = z.object({
   allowedUpdates: z.array(z.string()).optional(),
 });
 
+/**
+ * Receive incoming messages over long-polling. Returns a function that stops listening.
+ */
+export async function onTelegramMessage(
+  token: string,
+  handler: (message: TelegramMessage) => void
+): Promise<() => void> {
+  const updateHandler: MessageHandler = (update) => {
+    if (update.message) handler(update.message);
+  };
+  messageHandlers.push(updateHandler);
+  await startPolling(token);
+
+  return () => {
+    const index = messageHandlers.indexOf(updateHandler);
+    if (index >= 0) {
+      messageHandlers.splice(index, 1);
+    }
+    checkStopPolling();
+  };
+}
+
 export default definePlugin({
   name: 'telegram',
   version: '1.0.0',
@@ -48,45 +48,165 @@ export const MemoryBlockSchema = z.object({
   dedupe: z.boolean().optional(),
 });
 
-export const StepSchema = z.object({
+const StepBaseSchema = z.object({
   id: z.string(),
   action: z.string(),
   config: StepConfigSchema.optional(),
   depends_on: z.array(z.string()).optional(),
   needs: z.array(z.string()).optional(), // Alias for depends_on
+  needs_any: z.array(z.string()).optional(), // Run as soon as one of these completes; skipped if none does
+  needs_all: z.array(z.string()).optional(), // Join: wait for all of these, even if some are skipped or fail
+  race: z.boolean().optional(), // With needs_any: cancel the other branches once the first one completes
+  if: z.union([z.string(), z.boolean()]).optional(), // Skip the step when this evaluates to false
+  allow_skipped: z.boolean().optional(), // Run even if a dependency was skipped
+  foreach: z.string().optional(), // Run the action once per element of this list expression
+  concurrency: z.number().int().min(1).optional(), // Max parallel foreach iterations (default 1)
+  loop: z.object({
+    until: z.union([z.string(), z.boolean()]).optional(), // Stop once this is true (reads `loop.output`)
+    while: z.union([z.string(), z.boolean()]).optional(), // Keep going while this is true
+    interval: z.number().min(0).optional(), // ms to wait between iterations (default 0)
+    max_iterations: z.number().int().min(1).optional(), // Fail the step after this many (default 100)
+    timeout: z.number().min(0).optional(), // Fail the step if the condition isn't met within this many ms
+  }).refine((loop) => (loop.until === undefined) !== (loop.while === undefined), {
+    message: 'loop needs exactly one of until or while',
+  }).optional(), // Re-run the action until a condition is met, e.g. to poll a status
+  continue_on_error: z.boolean().optional(), // Keep the run going when this step (or a foreach iteration) fails
   retry: z.object({
     attempts: z.number().default(3),
     delay: z.number().default(1000),
+    backoff: z.enum(['linear', 'exponential']).default('linear'),
+    max_delay: z.number().optional(), // Cap for a single wait between attempts
+    jitter: z.boolean().optional(), // Randomize each wait between 50% and 100% of its value
+    on: z.object({
+      status: z.array(z.union([z.number().int(), z.string().regex(/^[1-5]xx$/i)])).optional(),
+      timeout: z.boolean().optional(),
+      message: z.string().optional(), // Regex tested against the error message
+    }).optional(), // Only retry failures matching one of these filters (default: retry every error)
   }).optional(),
-  timeout: z.number().optional(),
-}).transform((step) => ({
+  timeout: z.number().optional(), // Abort each attempt after this many ms
+  cache: z.object({
+    key: z.string(), // Template; steps with the same action and rendered key share one output
+    ttl: z.number().int().min(0).optional(), // ms before the output is recomputed (default: never)
+  }).optional(), // Reuse the output of an earlier run instead of executing the step
+});
+
+// Merge needs into depends_on for backwards compatibility
+const mergeNeeds = <T extends { depends_on?: string[]; needs?: string[] }>(step: T) => ({
   ...step,
-  // Merge needs into depends_on for backwards compatibility
   depends_on: step.depends_on ?? step.needs ?? [],
-}));
+});
+
+// Handler steps run in order when a step (on_error) or the whole run (on_failure) fails
+export const HandlerStepSchema = StepBaseSchema.transform(mergeNeeds);
+
+export const StepSchema = StepBaseSchema.extend({
+  on_error: z.array(HandlerStepSchema).optional(),
+}).transform(mergeNeeds);
+
+export const WEBHOOK_PRESETS = ['stripe', 'slack', 'linear', 'svix'] as const;
+
+// Signature check for webhook triggers (`config.verify`); deliveries that fail it don't start runs
+export const WebhookVerifySchema = z.object({
+  preset: z.enum(WEBHOOK_PRESETS).optional(), // Provider scheme; the fields below up to `payload` are for custom schemes
+  secret: z.string(), // Signing secret, usually "{{ secrets.NAME }}"
+  header: z.string().optional(), // Header carrying the signature
+  algorithm: z.enum(['sha1', 'sha256', 'sha512']).default('sha256'),
+  encoding: z.enum(['hex', 'base64']).default('hex'),
+  prefix: z.string().optional(), // Text before the signature in the header, e.g. "sha256="
+  timestamp_header: z.string().optional(), // Header carrying the send time in unix seconds
+  payload: z.string().optional(), // What was signed, from {body} and {timestamp} (default "{body}", or "{timestamp}.{body}" with a timestamp header)
+  tolerance: z.number().min(0).optional(), // ms a signed timestamp may be off from now (default 5 minutes)
+  replay: z.boolean().optional(), // Reject a delivery that was already accepted (default true)
+}).refine((verify) => verify.preset !== undefined || verify.header !== undefined, {
+  message: 'verify needs a preset or a header',
+}).refine((verify) => !verify.payload?.includes('{timestamp}') || verify.timestamp_header !== undefined, {
+  message: 'verify payload uses {timestamp} but has no timestamp_header',
+});
+
+// Reply of a `respond: sync` webhook (`config.response`), rendered from the finished run's
+// trigger, env, steps, outputs and run (id, status, error)
+export const WebhookResponseSchema = z.object({
+  status: z.union([z.number().int(), z.string()]).optional(), // Default 200, or 500 when the run didn't succeed
+  headers: z.record(z.string()).optional(),
+  body: z.unknown().optional(), // Strings are sent as text, anything else as JSON (default: run id, status and outputs)
+});
 
 export const TriggerSchema = z.object({
   type: z.string(),
   config: z.record(z.unknown()).optional(),
+  priority: z.number().int().optional(), // Overrides the workflow's priority for runs from this trigger
+  queue: z.string().optional(), // Overrides the workflow's queue for runs from this trigger
+  filter: z.string().optional(), // Expression over `trigger` that must be truthy for the event to start a run
+  // Event triggers only: how bursts of events turn into runs
+  debounce: z.number().min(0).optional(), // Wait until events stop for this many ms, then run once with the last one
+  throttle: z.number().min(0).optional(), // At most one run per this many ms; events in between are dropped
+  batch: z.object({
+    window: z.number().min(0), // Collect events for this many ms after the first one
+    max: z.number().int().min(1).optional(), // Deliver early once this many have arrived
+  }).optional(), // One run per batch, with the events in trigger.events
+});
+
+export const WorkflowInputSchema = z.object({
+  name: z.string(),
+  type: z.enum(['string', 'number', 'boolean', 'object', 'array']).default('string'),
+  required: z.boolean().optional(),
+  default: z.unknown().optional(),
+  enum: z.array(z.union([z.string(), z.number(), z.boolean()])).optional(),
+  description: z.string().optional(),
+});
+
+export const WorkflowConcurrencySchema = z.object({
+  limit: z.number().int().min(1).default(1), // Runs of the workflow (or of one key) executing at once
+  key: z.string().optional(), // Template over `trigger` that splits runs into separately limited groups
+  policy: z.enum(['queue', 'skip', 'cancel-previous']).default('queue'), // What a new run does when the limit is reached
 });
 
 export const WorkflowSchema = z.object({
   name: z.string(),
   description: z.string().optional(),
+  inputs: z.array(WorkflowInputSchema).optional(), // Parameters validated before the run starts
+  outputs: z.record(z.unknown()).optional(), // Expressions evaluated into the run's result
   triggers: z.array(TriggerSchema).optional(),
   memory: z.array(MemoryBlockSchema).optional(),
   steps: z.array(StepSchema),
+  on_failure: z.array(HandlerStepSchema).optional(), // Steps to run after a failed run
+  timeout: z.number().optional(), // Abort the run after this many ms
+  on_restart: z.enum(['resume', 'restart', 'fail']).optional(), // What to do with a run the gateway stopped mid-way (default: fail)
+  concurrency: WorkflowConcurrencySchema.optional(), // Applies to triggered runs, not manual ones
+  idempotency_key: z.string().optional(), // Template over `trigger`; a repeat within the window reuses the earlier run
+  idempotency_window: z.number().optional(), // How long a key is remembered, in ms (default 24h)
+  priority: z.number().int().optional(), // Queued runs with higher priority are claimed first (default 0)
+  queue: z.string().optional(), // Named queue with its own concurrency limit (default: "default")
+  policy: z.object({
+    actions: z.array(z.string()), // Plugin actions the workflow may use: exact names, "plugin.*" or "*"
+  }).optional(),
   env: z.record(z.string()).optional(),
 });
 
 export type Step = z.infer<typeof StepSchema>;
+export type HandlerStep = z.infer<typeof HandlerStepSchema>;
 export type Trigger = z.infer<typeof TriggerSchema>;
+export type WebhookVerify = z.infer<typeof WebhookVerifySchema>;
+export type WebhookResponse = z.infer<typeof WebhookResponseSchema>;
+export type TriggerDelivery = Pick<Trigger, 'debounce' | 'throttle' | 'batch'>;
+export type WorkflowInput = z.infer<typeof WorkflowInputSchema>;
+export type WorkflowConcurrency = z.infer<typeof WorkflowConcurrencySchema>;
 export type MemorySource = z.infer<typeof MemorySourceSchema>;
 export type MemoryBlock = z.infer<typeof MemoryBlockSchema>;
 export type Workflow = z.infer<typeof WorkflowSchema>;
 
 // Execution Types
-export type StepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+export type StepStatus = 'pending' | 'running' | 'completed' | 'cached' | 'failed' | 'skipped'; // cached: output reused from the step cache
+
+export interface StepIteration {
+  index: number;
+  status: StepStatus;
+  output?: unknown; // Recorded for loop iterations
+  error?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  duration?: number;
+}
 
 export interface StepResult {
   id: string;
@@ -96,18 +216,29 @@ export interface StepResult {
   startedAt?: Date;
   completedAt?: Date;
   duration?: number;
+  iterations?: StepIteration[]; // Per-item results for foreach steps
+  handlerFor?: string; // Step id (or 'on_failure') whose failure ran this handler step
+}
+
+export interface ParentRunLink {
+  runId: string;
+  stepId: string;
+  depth: number; // 1 for a workflow called directly by a top-level run
 }
 
 export interface WorkflowRun {
   id: string;
   workflowName: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
   triggerData?: unknown;
   steps: Map<string, StepResult>;
   startedAt: Date;
   completedAt?: Date;
   error?: string;
   memory?: MemoryContext;
+  parent?: ParentRunLink; // Set when started by a workflow.call step
+  inputs?: Record<string, unknown>; // Resolved declared inputs
+  outputs?: Record<string, unknown>; // Evaluated declared outputs
 }
 
 // Plugin Types
@@ -121,6 +252,7 @@ export interface ActionContext {
   env: Record<string, string>;
   memory?: MemoryContext;
   log: (message: string) => void;
+  signal?: AbortSignal; // Aborted when the step or run times out; pass it on to fetch, child processes, etc.
 }
 
 export interface MemoryContext {
@@ -213,6 +345,7 @@ export interface WeavrConfig {
   server: {
     port: number;
     host: string;
+    publicUrl?: string; // Base URL for links sent out by the gateway (default: http://host:port)
   };
   timezone?: string; // IANA timezone (e.g., 'America/Los_Angeles')
   workflowsDir: string;
@@ -221,6 +354,7 @@ export interface WeavrConfig {
   onboarded?: boolean; // True when user has completed onboarding
   scheduler?: {
     dbPath?: string; // Path to scheduler SQLite DB (default: ~/.weavr/scheduler.db)
+    queues?: Record<string, { concurrency: number }>; // Max runs executing at once per named queue
   };
   ai?: {
     provider?: 'anthropic' | 'openai' | 'ollama';
@@ -1,5 +1,14 @@
 import { parse as parseYaml } from 'yaml';
-import { WorkflowSchema, type Workflow, type Step } from '../types/index.js';
+import type { z } from 'zod';
+import { WebhookResponseSchema, WebhookVerifySchema, WorkflowSchema, type Workflow, type Step, type HandlerStep } from '../types/index.js';
+import {
+  collectReferences,
+  findTemplateExpressions,
+  parseExpression,
+  type ExpressionNode,
+} from '../engine/expression.js';
+import { coerceWorkflowInput } from '../engine/inputs.js';
+import { isActionAllowed, stepActions } from '../engine/policy.js';
 
 export interface ValidationError {
   path: string;
@@ -14,13 +23,24 @@ export interface ValidationResult {
   workflow?: Workflow;
 }
 
-// Variable reference patterns
-const VARIABLE_PATTERN = /\{\{\s*([^}]+)\s*\}\}/g;
-const STEP_REFERENCE_PATTERN = /^steps\.([a-zA-Z_][a-zA-Z0-9_]*)(?:\.(.+))?$/;
-const TRIGGER_REFERENCE_PATTERN = /^trigger(?:\.(.+))?$/;
-const MEMORY_BLOCK_PATTERN = /^memory\.blocks\.([a-zA-Z_][a-zA-Z0-9_-]*)$/;
-const MEMORY_SOURCE_PATTERN = /^memory\.sources\.([a-zA-Z_][a-zA-Z0-9_-]*)\.([a-zA-Z_][a-zA-Z0-9_-]*)$/;
-const CURRENT_DATE_PATTERN = /^currentDate$/;
+// What a step's expressions may reference
+interface ReferenceScope {
+  precedingStepIds: Set<string>;
+  memoryBlockIds: Set<string>;
+  memorySourceIds: Map<string, Set<string>>;
+  inputNames: Set<string> | null; // null when the workflow declares no inputs
+  hasTrigger: boolean;
+  isLoop: boolean; // foreach steps can read `item` and `index`
+  isHandler: boolean; // on_error / on_failure steps can read `error`
+  isJoin: boolean; // steps with needs_any / needs_all can read `join`
+  isPolling: boolean; // steps with loop can read `loop`
+}
+
+// Actions implemented by the executor itself rather than a plugin
+const BUILTIN_ACTIONS = new Set(['transform', 'log', 'delay', 'condition', 'workflow.call', 'approval.request', 'join']);
+
+// Top-level variables that are always available during interpolation
+const BUILTIN_VARIABLES = new Set(['env', 'secrets', 'currentDate', 'currentTime', 'currentTimestamp', 'currentISODate']);
 
 /**
  * Validates a workflow YAML string
@@ -90,12 +110,19 @@ export function validateWorkflow(
     }
   }
 
-  if (availableActions && workflow.steps) {
-    for (let i = 0; i < workflow.steps.length; i++) {
-      const step = workflow.steps[i];
-      if (!availableActions.includes(step.action)) {
+  // Every step, including on_error and on_failure handlers, with its path
+  const allSteps: Array<{ step: Step | HandlerStep; path: string }> = [];
+  workflow.steps.forEach((step, i) => {
+    allSteps.push({ step, path: `steps[${i}]` });
+    step.on_error?.forEach((handler, j) => allSteps.push({ step: handler, path: `steps[${i}].on_error[${j}]` }));
+  });
+  workflow.on_failure?.forEach((handler, i) => allSteps.push({ step: handler, path: `on_failure[${i}]` }));
+
+  if (availableActions) {
+    for (const { step, path } of allSteps) {
+      if (!availableActions.includes(step.action) && !BUILTIN_ACTIONS.has(step.action)) {
         errors.push({
-          path: `steps[${i}].action`,
+          path: `${path}.action`,
           message: `Unknown action: "${step.action}". Available actions: ${availableActions.slice(0, 5).join(', ')}${availableActions.length > 5 ? '...' : ''}`,
           severity: 'error',
         });
@@ -103,12 +130,56 @@ export function validateWorkflow(
     }
   }
 
+  // Steps must stay within the workflow's action policy
+  if (workflow.policy) {
+    for (const { step, path } of allSteps) {
+      for (const action of stepActions(step)) {
+        if (isActionAllowed(workflow, action)) continue;
+        errors.push({
+          path: `${path}.action`,
+          message: action === step.action
+            ? `Action "${action}" is not allowed by this workflow's policy`
+            : `Step "${step.id}" can run "${action}" through its tools, which this workflow's policy doesn't allow`,
+          severity: 'error',
+        });
+      }
+    }
+  }
+
+  for (const { step, path } of allSteps) {
+    if (step.action !== 'approval.request') continue;
+    const config = step.config ?? {};
+    if (typeof config.message !== 'string' || config.message.trim() === '') {
+      errors.push({
+        path: `${path}.config.message`,
+        message: `Step "${step.id}" needs a message to show approvers`,
+        severity: 'error',
+      });
+    }
+    if (config.on_timeout !== undefined && config.on_timeout !== 'approve' && config.on_timeout !== 'reject') {
+      errors.push({
+        path: `${path}.config.on_timeout`,
+        message: `on_timeout must be "approve" or "reject", got ${JSON.stringify(config.on_timeout)}`,
+        severity: 'error',
+      });
+    }
+  }
+
   // Step 4: Validate variable references
   const stepIds = new Set(workflow.steps.map(s => s.id));
   const memoryBlockIds = new Set((workflow.memory ?? []).map(m => m.id));
   const memorySourceIds = new Map<string, Set<string>>();
 
-  for (const block of workflow.memory ?? []) {
+  for (const [i, block] of (workflow.memory ?? []).entries()) {
+    // Rendered with `sources` on top of the usual variables, so only the syntax is checked here
+    for (const expression of findTemplateExpressions(block.template ?? '')) {
+      try {
+        parseExpression(expression);
+      } catch (err) {
+        errors.push({ path: `memory[${i}].template`, message: invalidExpressionMessage(expression, err), severity: 'error' });
+      }
+    }
+
     const sourceIds = new Set<string>();
     for (const source of block.sources) {
       if (source.id) {
@@ -118,6 +189,34 @@ export function validateWorkflow(
     memorySourceIds.set(block.id, sourceIds);
   }
 
+  // Check declared inputs
+  const inputNames = workflow.inputs ? new Set<string>() : null;
+  for (let i = 0; i < (workflow.inputs ?? []).length; i++) {
+    const input = workflow.inputs![i];
+    if (inputNames!.has(input.name)) {
+      errors.push({
+        path: `inputs[${i}].name`,
+        message: `Duplicate input name: "${input.name}"`,
+        severity: 'error',
+      });
+    }
+    inputNames!.add(input.name);
+
+    if (input.default !== undefined) {
+      try {
+        coerceWorkflowInput(input, input.default);
+      } catch (err) {
+        errors.push({
+          path: `inputs[${i}].default`,
+          message: `Invalid default: ${err instanceof Error ? err.message : String(err)}`,
+          severity: 'error',
+        });
+      }
+    }
+  }
+
+  const hasTrigger = !!(workflow.triggers && workflow.triggers.length > 0);
+
   // Check each step for variable references
   for (let i = 0; i < workflow.steps.length; i++) {
     const step = workflow.steps[i];
@@ -138,33 +237,137 @@ export function validateWorkflow(
       }
     }
 
-    // Validate variable references in config
-    if (step.config) {
-      validateVariableReferences(
-        step.config,
-        `${stepPath}.config`,
-        precedingStepIds,
-        memoryBlockIds,
-        memorySourceIds,
-        !!(workflow.triggers && workflow.triggers.length > 0),
-        errors,
-        warnings
-      );
+    // Join branches must exist too
+    for (const field of ['needs_any', 'needs_all'] as const) {
+      for (const branch of step[field] ?? []) {
+        if (!stepIds.has(branch)) {
+          errors.push({
+            path: `${stepPath}.${field}`,
+            message: `Step "${step.id}" joins unknown step "${branch}"`,
+            severity: 'error',
+          });
+        }
+      }
     }
+    if (step.loop && step.foreach !== undefined) {
+      errors.push({
+        path: `${stepPath}.loop`,
+        message: 'A step cannot use both loop and foreach',
+        severity: 'error',
+      });
+    }
+
+    if (step.race && !step.needs_any?.length) {
+      warnings.push({
+        path: `${stepPath}.race`,
+        message: 'race only applies to steps with needs_any',
+        severity: 'warning',
+      });
+    }
+
+    const scope: ReferenceScope = {
+      precedingStepIds,
+      memoryBlockIds,
+      memorySourceIds,
+      inputNames,
+      hasTrigger,
+      isLoop: step.foreach !== undefined,
+      isHandler: false,
+      isJoin: !!(step.needs_any?.length || step.needs_all?.length),
+      isPolling: step.loop !== undefined,
+    };
+    validateStepReferences(step, stepPath, scope, errors, warnings);
+
+    // on_error handlers see the same steps as the step that failed
+    step.on_error?.forEach((handler, j) => {
+      const handlerScope = {
+        ...scope,
+        isLoop: handler.foreach !== undefined,
+        isHandler: true,
+        isJoin: false,
+        isPolling: handler.loop !== undefined,
+      };
+      validateStepReferences(handler, `${stepPath}.on_error[${j}]`, handlerScope, errors, warnings);
+    });
   }
 
-  // Step 5: Check for duplicate step IDs
+  // Outputs and on_failure handlers are evaluated after every step has finished
+  const finalScope: ReferenceScope = {
+    precedingStepIds: stepIds,
+    memoryBlockIds,
+    memorySourceIds,
+    inputNames,
+    hasTrigger,
+    isLoop: false,
+    isHandler: false,
+    isJoin: false,
+    isPolling: false,
+  };
+  if (workflow.outputs) {
+    validateVariableReferences(workflow.outputs, 'outputs', finalScope, errors, warnings);
+  }
+  workflow.on_failure?.forEach((handler, i) => {
+    const handlerScope = {
+      ...finalScope,
+      isLoop: handler.foreach !== undefined,
+      isHandler: true,
+      isPolling: handler.loop !== undefined,
+    };
+    validateStepReferences(handler, `on_failure[${i}]`, handlerScope, errors, warnings);
+  });
+
+  // Queue keys are rendered when the run is triggered, before any step exists
+  if (workflow.concurrency?.key) {
+    validateRunKey(workflow.concurrency.key, 'concurrency.key', errors);
+  }
+  if (workflow.idempotency_key) {
+    validateRunKey(workflow.idempotency_key, 'idempotency_key', errors);
+  }
+
+  // Trigger filters only see the event that fired
+  workflow.triggers?.forEach((trigger, i) => {
+    if (trigger.filter === undefined) return;
+    const template = trigger.filter.includes('{{') ? trigger.filter : `{{ ${trigger.filter} }}`;
+    validateTriggerTimeExpressions(template, `triggers[${i}].filter`, ['trigger'], 'filters are checked before the run starts', errors);
+  });
+
+  // Webhook verify and respond options are handled by the gateway, outside the run
+  const rawTriggers = (parsed as { triggers?: unknown }).triggers;
+  workflow.triggers?.forEach((trigger, i) => {
+    // The scheduler reads a trigger's config from `with` as well; the schema only keeps `config`
+    const raw = Array.isArray(rawTriggers) ? rawTriggers[i] as Record<string, unknown> : undefined;
+    const key = raw?.with !== undefined ? 'with' : 'config';
+    const config = (raw?.[key] ?? trigger.config) as Record<string, unknown> | undefined;
+    if (config) {
+      validateWebhookOptions(trigger.type, config, `triggers[${i}].${key}`, errors, warnings);
+    }
+  });
+
+  // Step 5: Check for duplicate step IDs (handlers share the namespace) and retry patterns
   const seenIds = new Set<string>();
-  for (let i = 0; i < workflow.steps.length; i++) {
-    const step = workflow.steps[i];
+  for (const { step, path } of allSteps) {
     if (seenIds.has(step.id)) {
       errors.push({
-        path: `steps[${i}].id`,
+        path: `${path}.id`,
         message: `Duplicate step ID: "${step.id}"`,
         severity: 'error',
       });
     }
     seenIds.add(step.id);
+
+    // Retry message filters are compiled at run time, so catch bad patterns here
+    const messagePattern = step.retry?.on?.message;
+    if (messagePattern !== undefined) {
+      try {
+        new RegExp(messagePattern);
+      } catch (err) {
+        errors.push({
+          path: `${path}.retry.on.message`,
+          message: `Invalid retry message pattern: ${err instanceof Error ? err.message : String(err)}`,
+          severity: 'error',
+        });
+      }
+    }
   }
 
   // Step 6: Check for circular dependencies
@@ -196,6 +399,25 @@ export function validateWorkflow(
     });
   }
 
+  // Cron and webhook runs are queued directly, so only event triggers are debounced or batched
+  workflow.triggers?.forEach((trigger, i) => {
+    const options = (['debounce', 'throttle', 'batch'] as const).filter((key) => trigger[key] !== undefined);
+    if (options.length === 0) return;
+    if (['cron.schedule', 'http.webhook', 'email.inbound'].includes(trigger.type)) {
+      warnings.push({
+        path: `triggers[${i}]`,
+        message: `${options.join(', ')} only apply to event triggers and are ignored for ${trigger.type}`,
+        severity: 'warning',
+      });
+    } else if (options.length > 1) {
+      warnings.push({
+        path: `triggers[${i}]`,
+        message: `Only one of ${options.join(', ')} is used (batch, then debounce, then throttle)`,
+        severity: 'warning',
+      });
+    }
+  });
+
   return {
     valid: errors.length === 0,
     errors,
@@ -204,85 +426,234 @@ export function validateWorkflow(
   };
 }
 
+/**
+ * Validates the references in a step's config and step-level expressions
+ */
+function validateStepReferences(
+  step: Step | HandlerStep,
+  stepPath: string,
+  scope: ReferenceScope,
+  errors: ValidationError[],
+  warnings: ValidationError[]
+): void {
+  // Validate variable references in config
+  if (step.config) {
+    // workflow.call outputs are evaluated against the called workflow's run
+    const config = step.action === 'workflow.call'
+      ? Object.fromEntries(Object.entries(step.config).filter(([key]) => key !== 'outputs'))
+      : step.config;
+    validateVariableReferences(config, `${stepPath}.config`, scope, errors, warnings);
+  }
+
+  // Validate step-level expressions (bare or wrapped in {{ }})
+  const stepExpressions: Array<[string, unknown]> = [
+    ['if', step.if],
+    ['foreach', step.foreach],
+    ['loop.until', step.loop?.until],
+    ['loop.while', step.loop?.while],
+  ];
+  for (const [field, expression] of stepExpressions) {
+    if (typeof expression !== 'string') continue;
+    const template = expression.includes('{{') ? expression : `{{ ${expression} }}`;
+    // The foreach list itself is evaluated outside the loop, and `if` before any polling starts
+    const fieldScope = field === 'foreach'
+      ? { ...scope, isLoop: false, isPolling: false }
+      : field === 'if' ? { ...scope, isPolling: false } : scope;
+    validateVariableReferences(template, `${stepPath}.${field}`, fieldScope, errors, warnings);
+  }
+
+  if (step.cache) {
+    const cacheScope = { ...scope, isPolling: false };
+    validateVariableReferences(step.cache.key, `${stepPath}.cache.key`, cacheScope, errors, warnings);
+  }
+}
+
+/**
+ * Validates a webhook trigger's `verify` signature check and `respond`/`response` options
+ */
+function validateWebhookOptions(
+  triggerType: string,
+  config: Record<string, unknown>,
+  path: string,
+  errors: ValidationError[],
+  warnings: ValidationError[]
+): void {
+  const options = (['verify', 'respond', 'response'] as const).filter((option) => config[option] !== undefined);
+  if (options.length === 0) return;
+  if (!['http.webhook', 'email.inbound'].includes(triggerType)) {
+    warnings.push({
+      path,
+      message: `${options.join(', ')} only apply to webhook triggers and are ignored for ${triggerType}`,
+      severity: 'warning',
+    });
+    return;
+  }
+
+  const pushIssues = (issues: z.ZodIssue[], base: string) => {
+    for (const issue of issues) {
+      errors.push({
+        path: issue.path.length > 0 ? `${base}.${issue.path.join('.')}` : base,
+        message: issue.message,
+        severity: 'error',
+      });
+    }
+  };
+
+  if (config.verify !== undefined) {
+    const verify = WebhookVerifySchema.safeParse(config.verify);
+    if (!verify.success) {
+      pushIssues(verify.error.issues, `${path}.verify`);
+    } else {
+      const secretPath = `${path}.verify.secret`;
+      validateTriggerTimeExpressions(verify.data.secret, secretPath, ['secrets', 'env'], 'the secret is needed before the run starts', errors);
+      if (findTemplateExpressions(verify.data.secret).length === 0) {
+        warnings.push({
+          path: secretPath,
+          message: 'The signing secret is written in the workflow; store it with `weavr secret set` and use {{ secrets.NAME }}',
+          severity: 'warning',
+        });
+      }
+    }
+  }
+
+  if (config.respond !== undefined && config.respond !== 'sync' && config.respond !== 'async') {
+    errors.push({ path: `${path}.respond`, message: 'respond must be "sync" or "async"', severity: 'error' });
+  }
+  if (config.response === undefined) return;
+  if (config.respond !== 'sync') {
+    warnings.push({ path: `${path}.response`, message: 'response is only used with respond: sync', severity: 'warning' });
+  }
+  const response = WebhookResponseSchema.safeParse(config.response);
+  if (!response.success) {
+    pushIssues(response.error.issues, `${path}.response`);
+    return;
+  }
+  const visit = (value: unknown, valuePath: string): void => {
+    if (typeof value === 'string') {
+      validateTriggerTimeExpressions(
+        value,
+        valuePath,
+        ['trigger', 'env', 'steps', 'outputs', 'run'],
+        'the response is rendered from the finished run',
+        errors
+      );
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, `${valuePath}[${index}]`));
+    } else if (value !== null && typeof value === 'object') {
+      for (const [key, item] of Object.entries(value)) visit(item, `${valuePath}.${key}`);
+    }
+  };
+  visit(response.data, `${path}.response`);
+}
+
+// Text that only looks like a placeholder, e.g. a Handlebars example in a prompt, has to be escaped
+function invalidExpressionMessage(expression: string, err: unknown): string {
+  const reason = err instanceof Error ? err.message : String(err);
+  return `Invalid expression "{{ ${expression} }}": ${reason}. Write \\{{ ... }} for literal braces`;
+}
+
+/**
+ * Validates a concurrency or idempotency key template, which can only read `trigger` and `env`
+ */
+function validateRunKey(template: string, path: string, errors: ValidationError[]): void {
+  validateTriggerTimeExpressions(template, path, ['trigger', 'env'], 'the key is computed before the run starts', errors);
+}
+
+/**
+ * Validates expressions evaluated when an event arrives, before the run has any steps or inputs
+ */
+function validateTriggerTimeExpressions(
+  template: string,
+  path: string,
+  allowedRoots: string[],
+  reason: string,
+  errors: ValidationError[]
+): void {
+  for (const expression of findTemplateExpressions(template)) {
+    let node: ExpressionNode;
+    try {
+      node = parseExpression(expression);
+    } catch (err) {
+      errors.push({
+        path,
+        message: invalidExpressionMessage(expression, err),
+        severity: 'error',
+      });
+      continue;
+    }
+
+    for (const [root] of collectReferences(node)) {
+      if (!allowedRoots.includes(root)) {
+        errors.push({
+          path,
+          message: `"{{ ${expression} }}" can only use ${allowedRoots.join(' and ')}; ${reason}`,
+          severity: 'error',
+        });
+      }
+    }
+  }
+}
+
 /**
  * Recursively validates variable references in a config object
  */
 function validateVariableReferences(
   value: unknown,
   path: string,
-  precedingStepIds: Set<string>,
-  memoryBlockIds: Set<string>,
-  memorySourceIds: Map<string, Set<string>>,
-  hasTrigger: boolean,
+  scope: ReferenceScope,
   errors: ValidationError[],
   warnings: ValidationError[]
 ): void {
   if (typeof value === 'string') {
-    // Find all variable references
-    let match: RegExpExecArray | null;
-    while ((match = VARIABLE_PATTERN.exec(value)) !== null) {
-      const varRef = match[1].trim();
-      validateSingleReference(
-        varRef,
-        path,
-        precedingStepIds,
-        memoryBlockIds,
-        memorySourceIds,
-        hasTrigger,
-        errors,
-        warnings
-      );
+    // Parse each {{ }} expression and check every variable it reads
+    for (const expression of findTemplateExpressions(value)) {
+      let node: ExpressionNode;
+      try {
+        node = parseExpression(expression);
+      } catch (err) {
+        errors.push({
+          path,
+          message: invalidExpressionMessage(expression, err),
+          severity: 'error',
+        });
+        continue;
+      }
+
+      for (const reference of collectReferences(node)) {
+        validateSingleReference(reference, path, scope, errors, warnings);
+      }
     }
   } else if (Array.isArray(value)) {
     for (let i = 0; i < value.length; i++) {
-      validateVariableReferences(
-        value[i],
-        `${path}[${i}]`,
-        precedingStepIds,
-        memoryBlockIds,
-        memorySourceIds,
-        hasTrigger,
-        errors,
-        warnings
-      );
+      validateVariableReferences(value[i], `${path}[${i}]`, scope, errors, warnings);
     }
   } else if (value && typeof value === 'object') {
     for (const [key, val] of Object.entries(value)) {
-      validateVariableReferences(
-        val,
-        `${path}.${key}`,
-        precedingStepIds,
-        memoryBlockIds,
-        memorySourceIds,
-        hasTrigger,
-        errors,
-        warnings
-      );
+      validateVariableReferences(val, `${path}.${key}`, scope, errors, warnings);
     }
   }
 }
 
 /**
- * Validates a single variable reference
+ * Validates a single variable reference (a static path such as ['steps', 'fetch', 'data'])
  */
 function validateSingleReference(
-  varRef: string,
+  reference: string[],
   path: string,
-  precedingStepIds: Set<string>,
-  memoryBlockIds: Set<string>,
-  memorySourceIds: Map<string, Set<string>>,
-  hasTrigger: boolean,
+  scope: ReferenceScope,
   errors: ValidationError[],
   warnings: ValidationError[]
 ): void {
+  const { precedingStepIds, memoryBlockIds, memorySourceIds, hasTrigger } = scope;
+  const varRef = reference.join('.');
+  const [root, first, second, third] = reference;
+
   // Check for step reference
-  const stepMatch = STEP_REFERENCE_PATTERN.exec(varRef);
-  if (stepMatch) {
-    const [, stepId] = stepMatch;
-    if (!precedingStepIds.has(stepId)) {
+  if (root === 'steps') {
+    if (first !== undefined && !precedingStepIds.has(first)) {
       errors.push({
         path,
-        message: `Variable reference "{{ ${varRef} }}" refers to step "${stepId}" which doesn't exist or comes after this step`,
+        message: `Variable reference "{{ ${varRef} }}" refers to step "${first}" which doesn't exist or comes after this step`,
         severity: 'error',
       });
     }
@@ -290,8 +661,7 @@ function validateSingleReference(
   }
 
   // Check for trigger reference
-  const triggerMatch = TRIGGER_REFERENCE_PATTERN.exec(varRef);
-  if (triggerMatch) {
+  if (root === 'trigger') {
     if (!hasTrigger) {
       warnings.push({
         path,
@@ -302,45 +672,97 @@ function validateSingleReference(
     return;
   }
 
-  // Check for memory block reference
-  const memoryBlockMatch = MEMORY_BLOCK_PATTERN.exec(varRef);
-  if (memoryBlockMatch) {
-    const [, blockId] = memoryBlockMatch;
-    if (!memoryBlockIds.has(blockId)) {
+  // Check for memory block and source references
+  if (root === 'memory') {
+    if ((first === 'blocks' || first === 'sources') && second !== undefined) {
+      if (!memoryBlockIds.has(second)) {
+        errors.push({
+          path,
+          message: `Variable reference "{{ ${varRef} }}" refers to memory block "${second}" which doesn't exist`,
+          severity: 'error',
+        });
+        return;
+      }
+      const sources = memorySourceIds.get(second);
+      if (first === 'sources' && third !== undefined && sources && !sources.has(third)) {
+        errors.push({
+          path,
+          message: `Variable reference "{{ ${varRef} }}" refers to source "${third}" which doesn't exist in memory block "${second}"`,
+          severity: 'error',
+        });
+      }
+    }
+    return;
+  }
+
+  // Check for declared workflow inputs
+  if (root === 'inputs') {
+    if (!scope.inputNames) {
+      warnings.push({
+        path,
+        message: `Variable reference "{{ ${varRef} }}" refers to workflow inputs but no inputs are declared`,
+        severity: 'warning',
+      });
+    } else if (first !== undefined && !scope.inputNames.has(first)) {
       errors.push({
         path,
-        message: `Variable reference "{{ ${varRef} }}" refers to memory block "${blockId}" which doesn't exist`,
+        message: `Variable reference "{{ ${varRef} }}" refers to input "${first}" which isn't declared`,
         severity: 'error',
       });
     }
     return;
   }
 
-  // Check for memory source reference
-  const memorySourceMatch = MEMORY_SOURCE_PATTERN.exec(varRef);
-  if (memorySourceMatch) {
-    const [, blockId, sourceId] = memorySourceMatch;
-    if (!memoryBlockIds.has(blockId)) {
+  // Check for error details in handler steps
+  if (root === 'error') {
+    if (!scope.isHandler) {
       errors.push({
         path,
-        message: `Variable reference "{{ ${varRef} }}" refers to memory block "${blockId}" which doesn't exist`,
+        message: `Variable reference "{{ ${varRef} }}" is only available in on_error and on_failure steps`,
+        severity: 'error',
+      });
+    }
+    return;
+  }
+
+  // Check for branch results in join steps
+  if (root === 'join') {
+    if (!scope.isJoin) {
+      errors.push({
+        path,
+        message: `Variable reference "{{ ${varRef} }}" is only available in steps with needs_any or needs_all`,
+        severity: 'error',
+      });
+    }
+    return;
+  }
+
+  // Check for polling loop state
+  if (root === 'loop') {
+    if (!scope.isPolling) {
+      errors.push({
+        path,
+        message: `Variable reference "{{ ${varRef} }}" is only available in steps with loop`,
+        severity: 'error',
+      });
+    }
+    return;
+  }
+
+  // Check for foreach loop variables
+  if (root === 'item' || root === 'index') {
+    if (!scope.isLoop) {
+      errors.push({
+        path,
+        message: `Variable reference "{{ ${varRef} }}" is only available in steps with foreach`,
         severity: 'error',
       });
-    } else {
-      const sources = memorySourceIds.get(blockId);
-      if (sources && !sources.has(sourceId)) {
-        errors.push({
-          path,
-          message: `Variable reference "{{ ${varRef} }}" refers to source "${sourceId}" which doesn't exist in memory block "${blockId}"`,
-          severity: 'error',
-        });
-      }
     }
     return;
   }
 
-  // Check for currentDate
-  if (CURRENT_DATE_PATTERN.test(varRef)) {
+  // Check for env, secrets and built-in date/time variables
+  if (BUILTIN_VARIABLES.has(root)) {
     return; // Valid
   }
 
@@ -373,8 +795,8 @@ function findCircularDependencies(steps: Step[]): string[][] {
     path.push(stepId);
 
     const step = stepMap.get(stepId);
-    if (step?.depends_on) {
-      for (const dep of step.depends_on) {
+    if (step) {
+      for (const dep of [...(step.depends_on ?? []), ...(step.needs_any ?? []), ...(step.needs_all ?? [])]) {
         if (!visited.has(dep)) {
           if (dfs(dep)) {
             return true;
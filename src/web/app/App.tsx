@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { Onboarding } from './components/Onboarding';
+import { Login } from './components/Login';
 import { Dashboard } from './pages/Dashboard';
 import { Workflows } from './pages/Workflows';
 import { Runs } from './pages/Runs';
@@ -15,11 +16,12 @@ export function App() {
   const [currentPage, setCurrentPage] = useState<Page>('dashboard');
   const [checkingConfig, setCheckingConfig] = useState(true);
   const [needsOnboarding, setNeedsOnboarding] = useState(false);
+  const [needsLogin, setNeedsLogin] = useState(false);
   const [editingWorkflow, setEditingWorkflow] = useState<string | null>(null);
   const [runsWorkflowFilter, setRunsWorkflowFilter] = useState<string | null>(null);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
 
-  useEffect(() => {
+  const checkConfig = () => {
     // Check URL params for forced onboarding
     const urlParams = new URLSearchParams(window.location.search);
     const forceOnboard = urlParams.get('onboard') === 'true';
@@ -40,8 +42,29 @@ export function App() {
         setNeedsOnboarding(forceOnboard);
         setCheckingConfig(false);
       });
+  };
+
+  useEffect(() => {
+    // Sign in first when the gateway requires a token; everything else needs the session
+    fetch('/api/auth/status')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.authRequired && !data.authenticated) {
+          setNeedsLogin(true);
+          setCheckingConfig(false);
+        } else {
+          checkConfig();
+        }
+      })
+      .catch(() => checkConfig());
   }, []);
 
+  const handleLogin = () => {
+    setNeedsLogin(false);
+    setCheckingConfig(true);
+    checkConfig();
+  };
+
   const handleOnboardingComplete = () => {
     setNeedsOnboarding(false);
   };
@@ -103,6 +126,10 @@ export function App() {
     );
   }
 
+  if (needsLogin) {
+    return <Login onLogin={handleLogin} />;
+  }
+
   // Show onboarding if needed
   if (needsOnboarding) {
     return <Onboarding onComplete={handleOnboardingComplete} />;
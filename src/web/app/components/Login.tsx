@@ -0,0 +1,104 @@
+import { useState } from 'react';
+
+interface LoginProps {
+  onLogin: () => void;
+}
+
+export function Login({ onLogin }: LoginProps) {
+  const [token, setToken] = useState('');
+  const [signingIn, setSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSigningIn(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error ?? 'Sign in failed');
+      }
+      onLogin();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign in failed');
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'var(--bg-primary)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 2000,
+      }}
+    >
+      <form
+        onSubmit={handleSubmit}
+        style={{
+          width: '100%',
+          maxWidth: '420px',
+          padding: '40px',
+        }}
+      >
+        <div style={{ textAlign: 'center', marginBottom: '32px' }}>
+          <div style={{ fontSize: '48px', marginBottom: '16px' }}>🧵</div>
+          <h2 style={{ fontSize: '24px', fontWeight: 600, marginBottom: '12px' }}>
+            Sign in to Weavr
+          </h2>
+          <p style={{ fontSize: '14px', color: 'var(--text-secondary)', lineHeight: 1.6 }}>
+            This gateway requires an API token. Create one on the gateway host with{' '}
+            <code>weavr token create &lt;name&gt;</code>.
+          </p>
+        </div>
+
+        <div style={{ marginBottom: '24px' }}>
+          <label className="label">API Token</label>
+          <input
+            type="password"
+            className="input"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            placeholder="wvr_..."
+            style={{ width: '100%' }}
+            autoFocus
+          />
+        </div>
+
+        {error && (
+          <div style={{
+            padding: '12px',
+            background: 'rgba(239, 68, 68, 0.1)',
+            border: '1px solid var(--accent-red)',
+            borderRadius: 'var(--radius-md)',
+            color: 'var(--accent-red)',
+            fontSize: '13px',
+            marginBottom: '24px',
+          }}>
+            {error}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          className="btn btn-primary"
+          disabled={!token.trim() || signingIn}
+          style={{ width: '100%', padding: '12px', fontSize: '15px' }}
+        >
+          {signingIn ? 'Signing in...' : 'Sign In'}
+        </button>
+      </form>
+    </div>
+  );
+}
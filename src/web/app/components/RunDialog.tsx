@@ -0,0 +1,141 @@
+import { useState } from 'react';
+
+export interface WorkflowInput {
+  name: string;
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  required?: boolean;
+  default?: unknown;
+  enum?: Array<string | number | boolean>;
+  description?: string;
+}
+
+interface RunDialogProps {
+  workflowName: string;
+  inputs: WorkflowInput[];
+  onRun: (data: Record<string, unknown>) => void;
+  onClose: () => void;
+}
+
+// Form values are kept as strings; the server coerces them to the declared types
+function initialValue(input: WorkflowInput): string {
+  if (input.default === undefined || input.default === null) return '';
+  if (typeof input.default === 'object') return JSON.stringify(input.default, null, 2);
+  return String(input.default);
+}
+
+export function RunDialog({ workflowName, inputs, onRun, onClose }: RunDialogProps) {
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(inputs.map((input) => [input.name, initialValue(input)]))
+  );
+
+  const missing = inputs.filter((input) => input.required && !values[input.name]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (missing.length > 0) return;
+    const data: Record<string, unknown> = {};
+    for (const input of inputs) {
+      if (values[input.name] !== '') data[input.name] = values[input.name];
+    }
+    onRun(data);
+  };
+
+  const renderField = (input: WorkflowInput) => {
+    const value = values[input.name] ?? '';
+    const setValue = (next: string) => setValues((prev) => ({ ...prev, [input.name]: next }));
+
+    if (input.enum) {
+      return (
+        <select className="input" value={value} onChange={(e) => setValue(e.target.value)}>
+          {!input.required && <option value="">—</option>}
+          {input.enum.map((option) => (
+            <option key={String(option)} value={String(option)}>{String(option)}</option>
+          ))}
+        </select>
+      );
+    }
+
+    if (input.type === 'boolean') {
+      return (
+        <select className="input" value={value} onChange={(e) => setValue(e.target.value)}>
+          {!input.required && <option value="">—</option>}
+          <option value="true">true</option>
+          <option value="false">false</option>
+        </select>
+      );
+    }
+
+    if (input.type === 'object' || input.type === 'array') {
+      return (
+        <textarea
+          className="input"
+          rows={4}
+          value={value}
+          placeholder={input.type === 'array' ? '["item"]' : '{"key": "value"}'}
+          onChange={(e) => setValue(e.target.value)}
+          style={{ fontFamily: 'var(--font-mono)', fontSize: '12px' }}
+        />
+      );
+    }
+
+    return (
+      <input
+        type={input.type === 'number' ? 'number' : 'text'}
+        className="input"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+      />
+    );
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.8)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <form
+        className="card"
+        style={{ width: '480px', maxHeight: '80vh', display: 'flex', flexDirection: 'column', gap: '16px' }}
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={handleSubmit}
+      >
+        <h3>▶ Run {workflowName}</h3>
+
+        <div style={{ overflow: 'auto', display: 'flex', flexDirection: 'column', gap: '14px' }}>
+          {inputs.map((input) => (
+            <div key={input.name}>
+              <label className="label">
+                {input.name}
+                {input.required && <span style={{ color: 'var(--accent-red)' }}> *</span>}
+                <span style={{ marginLeft: '8px', fontWeight: 400, color: 'var(--text-muted)' }}>{input.type}</span>
+              </label>
+              {renderField(input)}
+              {input.description && (
+                <div style={{ fontSize: '12px', color: 'var(--text-muted)', marginTop: '4px' }}>
+                  {input.description}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px' }}>
+          <button type="button" className="btn btn-ghost" onClick={onClose}>
+            Cancel
+          </button>
+          <button type="submit" className="btn btn-primary" disabled={missing.length > 0}>
+            Run
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
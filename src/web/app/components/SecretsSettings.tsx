@@ -0,0 +1,188 @@
+import { useState, useEffect } from 'react';
+
+interface Secret {
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const SECRET_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export function SecretsSettings() {
+  const [secrets, setSecrets] = useState<Secret[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [value, setValue] = useState('');
+  const [showValue, setShowValue] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSecrets = async () => {
+    try {
+      const response = await fetch('/api/secrets');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error ?? 'Failed to load secrets');
+      setSecrets(data.secrets);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load secrets');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSecrets();
+  }, []);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/secrets/${encodeURIComponent(name)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ value }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error ?? 'Failed to save secret');
+      setName('');
+      setValue('');
+      setShowValue(false);
+      await loadSecrets();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save secret');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (secretName: string) => {
+    if (!confirm(`Delete secret ${secretName}? Workflows that use it will get an empty value.`)) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/secrets/${encodeURIComponent(secretName)}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error ?? 'Failed to delete secret');
+      await loadSecrets();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete secret');
+    }
+  };
+
+  const validName = SECRET_NAME_PATTERN.test(name);
+  const replacing = secrets.some((secret) => secret.name === name);
+
+  return (
+    <div className="card">
+      <h2 className="card-title" style={{ marginBottom: '8px' }}>Secrets</h2>
+      <p style={{ fontSize: '13px', color: 'var(--text-secondary)', marginBottom: '20px' }}>
+        Encrypted values for workflows, used as <code>{'{{ secrets.NAME }}'}</code>.
+        Values can't be read back, and they're replaced with <code>[secret:NAME]</code> in run logs and outputs.
+      </p>
+
+      {error && (
+        <div style={{
+          padding: '12px',
+          background: 'rgba(239, 68, 68, 0.1)',
+          border: '1px solid var(--accent-red)',
+          borderRadius: 'var(--radius-md)',
+          color: 'var(--accent-red)',
+          fontSize: '13px',
+          marginBottom: '16px',
+        }}>
+          {error}
+        </div>
+      )}
+
+      <div style={{ display: 'grid', gap: '8px', marginBottom: '20px' }}>
+        {loading ? (
+          <div style={{ fontSize: '13px', color: 'var(--text-muted)' }}>Loading secrets...</div>
+        ) : secrets.length === 0 ? (
+          <div style={{ fontSize: '13px', color: 'var(--text-muted)' }}>No secrets yet.</div>
+        ) : secrets.map((secret) => (
+          <div
+            key={secret.name}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '12px',
+              padding: '12px 16px',
+              background: 'var(--bg-tertiary)',
+              borderRadius: 'var(--radius-md)',
+            }}
+          >
+            <span style={{ fontSize: '16px' }}>🔒</span>
+            <div style={{ flex: 1 }}>
+              <div style={{ fontWeight: 500, fontFamily: 'var(--font-mono)' }}>{secret.name}</div>
+              <div style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+                Updated {new Date(secret.updatedAt).toLocaleString()}
+              </div>
+            </div>
+            <button
+              className="btn btn-ghost"
+              onClick={() => setName(secret.name)}
+              style={{ padding: '6px 12px', fontSize: '13px' }}
+            >
+              Replace
+            </button>
+            <button
+              className="btn btn-ghost"
+              onClick={() => handleDelete(secret.name)}
+              style={{ padding: '6px 12px', fontSize: '13px', color: 'var(--accent-red)' }}
+            >
+              Delete
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ display: 'grid', gap: '12px', maxWidth: '500px' }}>
+        <div>
+          <label className="label">Name</label>
+          <input
+            type="text"
+            className="input"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="STRIPE_API_KEY"
+            style={{ width: '100%' }}
+          />
+          {name && !validName && (
+            <p style={{ fontSize: '12px', color: 'var(--accent-red)', marginTop: '4px' }}>
+              Use letters, digits and underscores, not starting with a digit.
+            </p>
+          )}
+        </div>
+        <div>
+          <label className="label">Value</label>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <input
+              type={showValue ? 'text' : 'password'}
+              className="input"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder={replacing ? 'Enter a new value to replace it' : 'Secret value'}
+              style={{ flex: 1 }}
+            />
+            <button
+              className="btn btn-ghost"
+              onClick={() => setShowValue(!showValue)}
+              style={{ padding: '8px 12px' }}
+            >
+              {showValue ? '🙈' : '👁️'}
+            </button>
+          </div>
+        </div>
+        <div>
+          <button
+            className="btn btn-primary"
+            onClick={handleSave}
+            disabled={!validName || !value || saving}
+          >
+            {saving ? 'Saving...' : replacing ? 'Replace Secret' : 'Add Secret'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -29,6 +29,7 @@ interface WorkflowBuilderProps {
   initialYaml?: string | null;
   initialName?: string | null;
   onBack?: () => void;
+  onRun?: () => void; // Runs the saved version of the workflow
 }
 
 interface StepData {
@@ -2267,7 +2268,7 @@ interface ToolInfo {
   server?: string;
 }
 
-export function WorkflowBuilder({ onSave, saving, initialYaml, initialName, onBack }: WorkflowBuilderProps) {
+export function WorkflowBuilder({ onSave, saving, initialYaml, initialName, onBack, onRun }: WorkflowBuilderProps) {
   const [name, setName] = useState(initialName ?? 'my-workflow');
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
@@ -2652,6 +2653,11 @@ export function WorkflowBuilder({ onSave, saving, initialYaml, initialName, onBa
         </div>
 
         <div style={{ flex: 1 }} />
+        {onRun && (
+          <button className="btn btn-secondary" onClick={onRun} title="Run the saved workflow">
+            ▶ Run
+          </button>
+        )}
         <button className="btn btn-primary" onClick={handleSave} disabled={saving}>
           {saving ? 'Saving...' : 'Save Workflow'}
         </button>
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { WorkflowBuilder } from '../components/WorkflowBuilder';
+import { RunDialog, type WorkflowInput } from '../components/RunDialog';
 
 type Page = 'dashboard' | 'workflows' | 'runs' | 'builder' | 'plugins' | 'logs' | 'settings';
 
@@ -14,6 +15,7 @@ export function Builder({ workflowName, onNavigate }: BuilderProps) {
   const [initialYaml, setInitialYaml] = useState<string | null>(null);
   const [loading, setLoading] = useState(!!workflowName);
   const [originalName, setOriginalName] = useState<string | null>(null);
+  const [runInputs, setRunInputs] = useState<WorkflowInput[] | null>(null);
 
   useEffect(() => {
     if (workflowName) {
@@ -66,6 +68,42 @@ export function Builder({ workflowName, onNavigate }: BuilderProps) {
     }
   };
 
+  const startRun = async (inputs?: Record<string, unknown>) => {
+    setRunInputs(null);
+    try {
+      const response = await fetch(`/api/workflows/${originalName}/run`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(inputs ? { data: inputs } : {}),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setSaveMessage({ type: 'success', text: `Run started: ${data.runId.slice(0, 8)}...` });
+        setTimeout(() => setSaveMessage(null), 3000);
+      } else {
+        setSaveMessage({ type: 'error', text: data.error ?? 'Failed to start run' });
+      }
+    } catch (err) {
+      setSaveMessage({ type: 'error', text: 'Network error: Could not start run' });
+    }
+  };
+
+  const handleRun = async () => {
+    // Declared inputs come from the saved file, which is what gets run
+    try {
+      const response = await fetch(`/api/workflows/${originalName}`);
+      const data = await response.json();
+      if (Array.isArray(data.inputs) && data.inputs.length > 0) {
+        setRunInputs(data.inputs);
+        return;
+      }
+    } catch (err) {
+      console.error('Failed to load workflow inputs:', err);
+    }
+    await startRun();
+  };
+
   if (loading) {
     return (
       <div style={{ height: 'calc(100vh - 64px)', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
@@ -85,8 +123,18 @@ export function Builder({ workflowName, onNavigate }: BuilderProps) {
         initialYaml={initialYaml}
         initialName={workflowName}
         onBack={() => onNavigate('workflows')}
+        onRun={originalName ? handleRun : undefined}
       />
 
+      {runInputs && originalName && (
+        <RunDialog
+          workflowName={originalName}
+          inputs={runInputs}
+          onRun={(data) => startRun(data)}
+          onClose={() => setRunInputs(null)}
+        />
+      )}
+
       {saveMessage && (
         <div
           style={{
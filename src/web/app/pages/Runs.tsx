@@ -14,20 +14,37 @@ interface StepResult {
   duration?: number;
   error?: string;
   output?: unknown;
+  iterations?: Array<{ index: number; status: string; duration?: number; error?: string }>;
+  handlerFor?: string; // Step id (or 'on_failure') whose failure ran this handler
 }
 
 interface Run {
   id: string;
   workflow: string;
-  status: 'pending' | 'running' | 'success' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'success' | 'completed' | 'failed' | 'cancelled';
   startedAt: string;
   completedAt?: string;
   duration?: number;
   error?: string;
+  parentRunId?: string; // Set for runs started by a workflow.call step
+  parentStepId?: string;
+  resumedFrom?: string; // Set for runs resumed from an earlier failed run
+  outputs?: Record<string, unknown>; // Declared workflow outputs
   logs?: LogEntry[];
   steps?: StepResult[];
 }
 
+interface Approval {
+  id: string;
+  runId: string;
+  stepId: string;
+  workflowName: string;
+  message: string;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  createdAt: number;
+  expiresAt?: number;
+}
+
 interface RunsProps {
   workflowFilter?: string | null;
   onClearFilter?: () => void;
@@ -45,6 +62,7 @@ export function Runs({ workflowFilter, onClearFilter }: RunsProps) {
   const [total, setTotal] = useState(0);
   const [expandedRun, setExpandedRun] = useState<string | null>(null);
   const [runDetails, setRunDetails] = useState<Record<string, Run>>({});
+  const [approvals, setApprovals] = useState<Approval[]>([]);
   const { messages } = useWebSocket();
   const limit = 20;
 
@@ -57,8 +75,8 @@ export function Runs({ workflowFilter, onClearFilter }: RunsProps) {
       if (dateFilter > 0) {
         params.set('days', dateFilter.toString());
       }
-      if (filter !== 'all') {
-        params.set('status', filter === 'success' ? 'success' : 'failed');
+      if (filter !== 'all' && filter !== 'running') {
+        params.set('status', filter);
       }
       if (workflowFilter) {
         params.set('workflow', workflowFilter);
@@ -80,11 +98,31 @@ export function Runs({ workflowFilter, onClearFilter }: RunsProps) {
     fetchRuns();
   }, [fetchRuns]);
 
+  const fetchApprovals = useCallback(async () => {
+    try {
+      const res = await fetch('/api/approvals?status=pending');
+      const data = await res.json();
+      setApprovals(data.approvals ?? []);
+    } catch (err) {
+      console.error('Failed to fetch approvals:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchApprovals();
+  }, [fetchApprovals]);
+
   // Listen for real-time updates
   useEffect(() => {
     for (const message of messages) {
-      if (message.type === 'workflow.started') {
-        const payload = message.payload as { runId: string; workflow: string };
+      if (message.type === 'approval.requested') {
+        const approval = message.payload as Approval;
+        setApprovals((prev) => prev.some((a) => a.id === approval.id) ? prev : [approval, ...prev]);
+      } else if (message.type === 'approval.decided') {
+        const approval = message.payload as Approval;
+        setApprovals((prev) => prev.filter((a) => a.id !== approval.id));
+      } else if (message.type === 'workflow.started') {
+        const payload = message.payload as { runId: string; workflow: string; parentRunId?: string };
         // Only add if on page 1
         if (page === 1) {
           setRuns((prev) => [
@@ -93,6 +131,7 @@ export function Runs({ workflowFilter, onClearFilter }: RunsProps) {
               workflow: payload.workflow,
               status: 'running',
               startedAt: new Date().toISOString(),
+              parentRunId: payload.parentRunId,
             },
             ...prev,
           ]);
@@ -128,6 +167,60 @@ export function Runs({ workflowFilter, onClearFilter }: RunsProps) {
     }
   };
 
+  // Jump to a linked parent or child run
+  const openRun = async (runId: string) => {
+    setExpandedRun(runId);
+    if (!runDetails[runId]) {
+      await fetchRunDetails(runId);
+    }
+    document.getElementById(`run-${runId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const cancelRun = async (runId: string) => {
+    try {
+      const res = await fetch(`/api/runs/${runId}/cancel`, { method: 'POST' });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        alert(data.error ?? 'Failed to cancel run');
+      }
+    } catch (err) {
+      console.error('Failed to cancel run:', err);
+    }
+  };
+
+  const decideApproval = async (approvalId: string, decision: 'approve' | 'reject') => {
+    const comment = window.prompt(decision === 'approve' ? 'Approve with a comment (optional)' : 'Reason for rejecting (optional)');
+    if (comment === null) return;
+    try {
+      const res = await fetch(`/api/approvals/${approvalId}/decide`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, comment }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        alert(data.error ?? 'Failed to record decision');
+      }
+      setApprovals((prev) => prev.filter((a) => a.id !== approvalId));
+    } catch (err) {
+      console.error('Failed to decide approval:', err);
+    }
+  };
+
+  const resumeRun = async (runId: string) => {
+    try {
+      const res = await fetch(`/api/runs/${runId}/resume`, { method: 'POST' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        alert(data.error ?? 'Failed to resume run');
+        return;
+      }
+      await openRun(data.runId);
+    } catch (err) {
+      console.error('Failed to resume run:', err);
+    }
+  };
+
   const toggleExpand = async (runId: string) => {
     if (expandedRun === runId) {
       setExpandedRun(null);
@@ -177,6 +270,8 @@ export function Runs({ workflowFilter, onClearFilter }: RunsProps) {
         return '✗';
       case 'running':
         return '⏳';
+      case 'cancelled':
+        return '⊘';
       default:
         return '○';
     }
@@ -235,7 +330,7 @@ export function Runs({ workflowFilter, onClearFilter }: RunsProps) {
           )}
 
           {/* Status filters */}
-          {['all', 'success', 'running', 'failed'].map((f) => (
+          {['all', 'success', 'running', 'failed', 'cancelled'].map((f) => (
             <button
               key={f}
               className={`btn ${filter === f ? 'btn-primary' : 'btn-ghost'}`}
@@ -251,6 +346,47 @@ export function Runs({ workflowFilter, onClearFilter }: RunsProps) {
         </div>
       </div>
 
+      {/* Runs waiting on an approval.request step */}
+      {approvals.length > 0 && (
+        <div className="card" style={{ marginBottom: '16px', borderColor: 'var(--accent-yellow)' }}>
+          <h4 style={{ fontSize: '12px', fontWeight: 600, color: 'var(--text-muted)', marginBottom: '12px', textTransform: 'uppercase' }}>
+            Waiting for approval
+          </h4>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            {approvals.map((approval) => (
+              <div key={approval.id} style={{ display: 'flex', alignItems: 'center', gap: '16px' }}>
+                <div style={{ flex: 1 }}>
+                  <div style={{ fontWeight: 600, color: '#fff' }}>
+                    {approval.workflowName}
+                    <span style={{ marginLeft: '8px', fontSize: '12px', fontWeight: 400, color: 'var(--text-muted)' }}>
+                      step {approval.stepId} ·{' '}
+                      <button
+                        onClick={() => openRun(approval.runId)}
+                        style={{ fontFamily: 'var(--font-mono)', background: 'none', border: 'none', padding: 0, color: 'var(--accent-blue)', cursor: 'pointer' }}
+                      >
+                        {approval.runId.slice(0, 8)}
+                      </button>
+                      {approval.expiresAt && ` · expires ${new Date(approval.expiresAt).toLocaleString()}`}
+                    </span>
+                  </div>
+                  <div style={{ color: 'var(--text-secondary)', whiteSpace: 'pre-wrap' }}>{approval.message}</div>
+                </div>
+                <button className="btn btn-primary btn-sm" onClick={() => decideApproval(approval.id, 'approve')}>
+                  ✓ Approve
+                </button>
+                <button
+                  className="btn btn-ghost btn-sm"
+                  onClick={() => decideApproval(approval.id, 'reject')}
+                  style={{ color: 'var(--accent-red)' }}
+                >
+                  ✕ Reject
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {loading ? (
         <div className="empty-state">
           <div className="empty-icon">⏳</div>
@@ -273,7 +409,7 @@ export function Runs({ workflowFilter, onClearFilter }: RunsProps) {
             const details = runDetails[run.id];
 
             return (
-              <div key={run.id} className="card" style={{ padding: 0, overflow: 'hidden' }}>
+              <div key={run.id} id={`run-${run.id}`} className="card" style={{ padding: 0, overflow: 'hidden' }}>
                 {/* Run header - clickable */}
                 <div
                   onClick={() => toggleExpand(run.id)}
@@ -315,6 +451,11 @@ export function Runs({ workflowFilter, onClearFilter }: RunsProps) {
 
                   <span style={{ fontWeight: 600, flex: 1, color: '#fff' }}>
                     {run.workflow}
+                    {run.parentRunId && (
+                      <span style={{ marginLeft: '8px', fontSize: '12px', fontWeight: 400, color: 'var(--text-muted)' }}>
+                        ↳ sub-workflow
+                      </span>
+                    )}
                   </span>
 
                   <span style={{ color: 'var(--text-secondary)', minWidth: '100px' }}>
@@ -325,6 +466,26 @@ export function Runs({ workflowFilter, onClearFilter }: RunsProps) {
                     {formatDuration(run.duration)}
                   </span>
 
+                  {run.status === 'running' && (
+                    <button
+                      className="btn btn-ghost btn-sm"
+                      onClick={(e) => { e.stopPropagation(); cancelRun(run.id); }}
+                      style={{ color: 'var(--accent-red)' }}
+                    >
+                      ■ Cancel
+                    </button>
+                  )}
+
+                  {(run.status === 'failed' || run.status === 'cancelled') && !run.parentRunId && (
+                    <button
+                      className="btn btn-ghost btn-sm"
+                      onClick={(e) => { e.stopPropagation(); resumeRun(run.id); }}
+                      title="Rerun from the failed step, reusing completed step outputs"
+                    >
+                      ↻ Resume
+                    </button>
+                  )}
+
                   <span style={{ fontFamily: 'var(--font-mono)', color: 'var(--text-muted)', fontSize: '12px', minWidth: '80px' }}>
                     {run.id.slice(0, 8)}
                   </span>
@@ -333,6 +494,32 @@ export function Runs({ workflowFilter, onClearFilter }: RunsProps) {
                 {/* Expanded details */}
                 {isExpanded && (
                   <div style={{ borderTop: '1px solid var(--border-color)' }}>
+                    {/* Parent run link */}
+                    {details?.parentRunId && (
+                      <div style={{ padding: '12px 20px', borderBottom: '1px solid var(--border-color)', fontSize: '13px', color: 'var(--text-secondary)' }}>
+                        Called by step <span style={{ color: '#fff' }}>{details.parentStepId}</span> of run{' '}
+                        <button
+                          onClick={() => openRun(details.parentRunId!)}
+                          style={{ fontFamily: 'var(--font-mono)', background: 'none', border: 'none', padding: 0, color: 'var(--accent-blue)', cursor: 'pointer' }}
+                        >
+                          {details.parentRunId.slice(0, 8)}
+                        </button>
+                      </div>
+                    )}
+
+                    {/* Resumed run link */}
+                    {details?.resumedFrom && (
+                      <div style={{ padding: '12px 20px', borderBottom: '1px solid var(--border-color)', fontSize: '13px', color: 'var(--text-secondary)' }}>
+                        Resumed from run{' '}
+                        <button
+                          onClick={() => openRun(details.resumedFrom!)}
+                          style={{ fontFamily: 'var(--font-mono)', background: 'none', border: 'none', padding: 0, color: 'var(--accent-blue)', cursor: 'pointer' }}
+                        >
+                          {details.resumedFrom.slice(0, 8)}
+                        </button>
+                      </div>
+                    )}
+
                     {/* Steps */}
                     {details?.steps && details.steps.length > 0 && (
                       <div style={{ padding: '16px 20px', borderBottom: '1px solid var(--border-color)' }}>
@@ -340,52 +527,103 @@ export function Runs({ workflowFilter, onClearFilter }: RunsProps) {
                           Steps
                         </h4>
                         <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
-                          {details.steps.map((step, idx) => (
-                            <div
-                              key={step.id}
-                              style={{
-                                display: 'flex',
-                                alignItems: 'center',
-                                gap: '12px',
-                                padding: '10px 14px',
-                                background: 'var(--bg-tertiary)',
-                                borderRadius: 'var(--radius-md)',
-                                borderLeft: `3px solid ${
-                                  step.status === 'completed' ? 'var(--accent-green)'
+                          {details.steps.map((step, idx) => {
+                            const childRun = runs.find(r => r.parentRunId === run.id && r.parentStepId === step.id);
+                            return (
+                              <div
+                                key={step.id}
+                                style={{
+                                  display: 'flex',
+                                  alignItems: 'center',
+                                  gap: '12px',
+                                  padding: '10px 14px',
+                                  background: 'var(--bg-tertiary)',
+                                  borderRadius: 'var(--radius-md)',
+                                  borderLeft: `3px solid ${
+                                    step.status === 'completed' || step.status === 'cached' ? 'var(--accent-green)'
+                                      : step.status === 'failed' ? 'var(--accent-red)'
+                                      : step.status === 'running' ? 'var(--accent-blue)'
+                                      : 'var(--border-color)'
+                                  }`,
+                                }}
+                              >
+                                <span style={{ color: 'var(--text-muted)', fontSize: '12px', minWidth: '20px' }}>
+                                  {idx + 1}.
+                                </span>
+                                <span style={{
+                                  color: step.status === 'completed' || step.status === 'cached' ? 'var(--accent-green)'
                                     : step.status === 'failed' ? 'var(--accent-red)'
-                                    : step.status === 'running' ? 'var(--accent-blue)'
-                                    : 'var(--border-color)'
-                                }`,
-                              }}
-                            >
-                              <span style={{ color: 'var(--text-muted)', fontSize: '12px', minWidth: '20px' }}>
-                                {idx + 1}.
-                              </span>
-                              <span style={{
-                                color: step.status === 'completed' ? 'var(--accent-green)'
-                                  : step.status === 'failed' ? 'var(--accent-red)'
-                                  : 'var(--text-muted)',
-                                minWidth: '20px',
-                              }}>
-                                {step.status === 'completed' ? '✓' : step.status === 'failed' ? '✗' : '○'}
-                              </span>
-                              <span style={{ fontWeight: 500, flex: 1, color: '#fff' }}>{step.id}</span>
-                              {step.duration !== undefined && (
-                                <span style={{ fontFamily: 'var(--font-mono)', fontSize: '12px', color: 'var(--text-muted)' }}>
-                                  {formatDuration(step.duration)}
+                                    : 'var(--text-muted)',
+                                  minWidth: '20px',
+                                }}>
+                                  {step.status === 'completed' || step.status === 'cached' ? '✓' : step.status === 'failed' ? '✗' : '○'}
                                 </span>
-                              )}
-                              {step.error && (
-                                <span style={{ color: 'var(--accent-red)', fontSize: '12px', maxWidth: '300px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
-                                  {step.error}
+                                <span style={{ fontWeight: 500, flex: 1, color: '#fff' }}>
+                                  {step.id}
+                                  {step.handlerFor && (
+                                    <span style={{ marginLeft: '8px', fontSize: '12px', fontWeight: 400, color: 'var(--text-muted)' }}>
+                                      {step.handlerFor === 'on_failure' ? 'on_failure' : `on_error of ${step.handlerFor}`}
+                                    </span>
+                                  )}
+                                  {step.status === 'cached' && (
+                                    <span style={{ marginLeft: '8px', fontSize: '12px', fontWeight: 400, color: 'var(--text-muted)' }}>
+                                      cached
+                                    </span>
+                                  )}
                                 </span>
-                              )}
-                            </div>
-                          ))}
+                                {step.iterations && (
+                                  <span style={{ fontSize: '12px', color: 'var(--text-muted)' }}>
+                                    {step.iterations.filter(i => i.status === 'completed').length}/{step.iterations.length} items
+                                  </span>
+                                )}
+                                {childRun && (
+                                  <button
+                                    onClick={() => openRun(childRun.id)}
+                                    style={{ fontSize: '12px', background: 'none', border: 'none', padding: 0, color: 'var(--accent-blue)', cursor: 'pointer' }}
+                                  >
+                                    {childRun.workflow} →
+                                  </button>
+                                )}
+                                {step.duration !== undefined && (
+                                  <span style={{ fontFamily: 'var(--font-mono)', fontSize: '12px', color: 'var(--text-muted)' }}>
+                                    {formatDuration(step.duration)}
+                                  </span>
+                                )}
+                                {step.error && (
+                                  <span style={{ color: 'var(--accent-red)', fontSize: '12px', maxWidth: '300px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                    {step.error}
+                                  </span>
+                                )}
+                              </div>
+                            );
+                          })}
                         </div>
                       </div>
                     )}
 
+                    {/* Outputs */}
+                    {details?.outputs && Object.keys(details.outputs).length > 0 && (
+                      <div style={{ padding: '16px 20px', borderBottom: '1px solid var(--border-color)' }}>
+                        <h4 style={{ fontSize: '12px', fontWeight: 600, color: 'var(--text-muted)', marginBottom: '12px', textTransform: 'uppercase' }}>
+                          Outputs
+                        </h4>
+                        <pre
+                          style={{
+                            background: '#0d1117',
+                            borderRadius: 'var(--radius-md)',
+                            padding: '12px',
+                            fontFamily: 'var(--font-mono)',
+                            fontSize: '12px',
+                            maxHeight: '200px',
+                            overflow: 'auto',
+                            margin: 0,
+                          }}
+                        >
+                          {JSON.stringify(details.outputs, null, 2)}
+                        </pre>
+                      </div>
+                    )}
+
                     {/* Logs */}
                     <div style={{ padding: '16px 20px' }}>
                       <h4 style={{ fontSize: '12px', fontWeight: 600, color: 'var(--text-muted)', marginBottom: '12px', textTransform: 'uppercase' }}>
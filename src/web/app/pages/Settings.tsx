@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { IntegrationIcon } from '../components/IntegrationIcon';
+import { SecretsSettings } from '../components/SecretsSettings';
 
 // Models that support OAuth (ChatGPT backend API via Codex)
 const OAUTH_SUPPORTED_MODELS = ['gpt-5.2-codex', 'gpt-5.1-codex', 'gpt-5.2', 'gpt-5.1', 'gpt-5-codex'];
@@ -1412,6 +1413,8 @@ export function Settings() {
             </div>
           </div>
 
+          <SecretsSettings />
+
           <div className="card">
             <h2 className="card-title" style={{ marginBottom: '20px' }}>Built-in Plugins</h2>
 
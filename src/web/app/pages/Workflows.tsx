@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { RunDialog, type WorkflowInput } from '../components/RunDialog';
 
 interface Workflow {
   name: string;
@@ -29,6 +30,7 @@ export function Workflows({ onNavigate }: WorkflowsProps) {
   const [workflows, setWorkflows] = useState<Workflow[]>([]);
   const [loading, setLoading] = useState(true);
   const [runStatus, setRunStatus] = useState<Record<string, RunStatus>>({});
+  const [runDialog, setRunDialog] = useState<{ workflow: string; inputs: WorkflowInput[] } | null>(null);
 
   useEffect(() => {
     fetch('/api/workflows')
@@ -46,6 +48,24 @@ export function Workflows({ onNavigate }: WorkflowsProps) {
   const handleRun = async (e: React.MouseEvent, workflowName: string) => {
     e.stopPropagation();
 
+    // Ask for declared inputs before starting the run
+    try {
+      const res = await fetch(`/api/workflows/${workflowName}`);
+      const data = await res.json();
+      if (Array.isArray(data.inputs) && data.inputs.length > 0) {
+        setRunDialog({ workflow: workflowName, inputs: data.inputs });
+        return;
+      }
+    } catch (err) {
+      console.error(err);
+    }
+
+    await startRun(workflowName);
+  };
+
+  const startRun = async (workflowName: string, inputs?: Record<string, unknown>) => {
+    setRunDialog(null);
+
     // Set running status
     setRunStatus(prev => ({
       ...prev,
@@ -56,7 +76,7 @@ export function Workflows({ onNavigate }: WorkflowsProps) {
       const res = await fetch(`/api/workflows/${workflowName}/run`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({}),
+        body: JSON.stringify(inputs ? { data: inputs } : {}),
       });
       const data = await res.json();
 
@@ -443,6 +463,15 @@ export function Workflows({ onNavigate }: WorkflowsProps) {
         </div>
       )}
 
+      {runDialog && (
+        <RunDialog
+          workflowName={runDialog.workflow}
+          inputs={runDialog.inputs}
+          onRun={(data) => startRun(runDialog.workflow, data)}
+          onClose={() => setRunDialog(null)}
+        />
+      )}
+
       <style>{`
         @keyframes spin {
           from { transform: rotate(0deg); }